@@ -0,0 +1,74 @@
+import express, { Request, Response, NextFunction } from 'express';
+import cors from 'cors';
+import { setupLogger } from './utils/logger';
+import apiRoutes from './routes';
+import analysisRoutes from './routes/analysisRoutes';
+import { legacyMediaRoutes } from './routes/mediaRoutes';
+
+const app = express();
+const logger = setupLogger();
+
+// Middleware
+const allowedOrigins = ['http://localhost:5173', 'http://localhost:5174', 'http://localhost:5175', 'http://localhost:5176'];
+const corsOptions: cors.CorsOptions = {
+    origin: (origin, callback) => {
+        // allow requests with no origin (like mobile apps or curl requests)
+        if (!origin) return callback(null, true);
+        
+        // allow any localhost origin
+        if (/^http:\/\/localhost(:\d+)?$/.test(origin)) {
+            return callback(null, true);
+        }
+        
+        if (allowedOrigins.indexOf(origin) !== -1) {
+            callback(null, true)
+        } else {
+            logger.warn(`CORS: Origin ${origin} not allowed`);
+            callback(new Error('Not allowed by CORS'))
+        }
+    }
+};
+
+app.use(cors(corsOptions));
+app.use(express.json());
+app.use(express.urlencoded({ extended: true }));
+
+// Request logging
+app.use((req: Request, res: Response, next: NextFunction) => {
+  logger.info(`${req.method} ${req.path}`, {
+    query: req.query,
+    ip: req.ip,
+    userAgent: req.get('user-agent')
+  });
+  next();
+});
+
+// Health check endpoint
+app.get('/health', (req: Request, res: Response) => {
+  res.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    environment: process.env.NODE_ENV || 'development'
+  });
+});
+
+// Versioned API
+app.use('/api/v1', apiRoutes);
+
+// Legacy unversioned paths, kept for existing clients
+const legacyAlias = (successorBase: string) => (req: Request, res: Response, next: NextFunction) => {
+  res.set('Deprecation', 'true');
+  res.set('Link', `<${successorBase}${req.path}>; rel="successor-version"`);
+  next();
+};
+app.use('/api/analyze', legacyAlias('/api/v1/analysis'), analysisRoutes);
+app.use('/api/media', legacyAlias('/api/v1/media'), legacyMediaRoutes);
+app.use('/api', legacyAlias('/api/v1'), apiRoutes);
+
+// Error handling middleware
+app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+  logger.error('Unhandled error:', err);
+  res.status(500).json({ error: 'Internal server error', details: err?.message || 'Unknown error' });
+});
+
+export default app;
@@ -0,0 +1,99 @@
+/**
+ * Lexicon terms used by the risk pattern detector and the text analyzer. Terms are matched
+ * case-insensitively on word boundaries, so multi-word phrases and hyphenated words work.
+ */
+export const LEXICON_CATEGORIES = ['conspiracy', 'emotive', 'urgency', 'clickbait', 'credibility'] as const;
+
+// `emotive` covers sensationalist wording too; `credibility` terms cite evidence and lower the risk
+export type LexiconCategory = typeof LEXICON_CATEGORIES[number];
+
+export interface LexiconTerm {
+  term: string;
+  category: LexiconCategory;
+  // How much one match contributes to its category's signal, which is capped at 1
+  weight: number;
+  language: string;
+  enabled: boolean;
+  // Pack the term came from as name@version, or "admin" for terms added at runtime
+  source: string;
+}
+
+/**
+ * A versioned lexicon file. `language` is the default for terms that do not set their own.
+ */
+export interface LexiconPack {
+  name: string;
+  version: number;
+  language: string;
+  terms: LexiconTerm[];
+}
+
+export interface LexiconSource {
+  // Changes whenever the terms do, so callers can cache what they build from them
+  readonly revision: number;
+  activeTerms(language: string): LexiconTerm[];
+}
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export function isLexiconCategory(value: unknown): value is LexiconCategory {
+  return typeof value === 'string' && (LEXICON_CATEGORIES as readonly string[]).includes(value);
+}
+
+// Terms are identified by language, category and lower-cased wording
+export function termKey(term: Pick<LexiconTerm, 'term' | 'category' | 'language'>): string {
+  return `${term.language}:${term.category}:${term.term.trim().toLowerCase()}`;
+}
+
+/**
+ * Checks one term from a pack or an admin request and fills in its defaults. Returns the
+ * problem as a string when the term is unusable.
+ */
+export function normalizeTerm(
+  raw: Record<string, unknown>,
+  defaults: { language: string; source: string }
+): LexiconTerm | string {
+  if (typeof raw.term !== 'string' || !raw.term.trim()) {
+    return 'term must be a non-empty string';
+  }
+  if (!isLexiconCategory(raw.category)) {
+    return `category must be one of: ${LEXICON_CATEGORIES.join(', ')}`;
+  }
+  const weight = raw.weight === undefined ? 1 : raw.weight;
+  if (typeof weight !== 'number' || !(weight > 0 && weight <= 1)) {
+    return 'weight must be a number above 0 and at most 1';
+  }
+  if (raw.language !== undefined && (typeof raw.language !== 'string' || !raw.language.trim())) {
+    return 'language must be a language tag such as "en"';
+  }
+  if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+
+  return {
+    term: raw.term.trim().normalize('NFC').toLowerCase(),
+    category: raw.category,
+    weight,
+    language: typeof raw.language === 'string' ? raw.language.trim().toLowerCase() : defaults.language,
+    enabled: raw.enabled !== false,
+    source: defaults.source
+  };
+}
+
+export function parseLexiconPack(contents: string, fileName: string): LexiconPack {
+  const data = JSON.parse(contents);
+  if (!data || typeof data.name !== 'string' || typeof data.version !== 'number' || !Array.isArray(data.terms)) {
+    throw new Error(`Lexicon pack ${fileName} needs a name, a numeric version and a terms array`);
+  }
+
+  const language = typeof data.language === 'string' ? data.language.toLowerCase() : DEFAULT_LANGUAGE;
+  const source = `${data.name}@${data.version}`;
+  const terms = data.terms.map((raw: Record<string, unknown>, index: number) => {
+    const term = normalizeTerm(raw, { language, source });
+    if (typeof term === 'string') {
+      throw new Error(`Lexicon pack ${fileName} term ${index + 1}: ${term}`);
+    }
+    return term;
+  });
+  return { name: data.name, version: data.version, language, terms };
+}
@@ -1,123 +0,0 @@
-// @ts-ignore
-import * as tf from '@tensorflow/tfjs';
-import sharp from 'sharp';
-// @ts-ignore
-import * as exifr from 'exifr';
-import { setupLogger } from '../utils/logger';
-
-const logger = setupLogger();
-
-export interface MediaAnalysisResult {
-  type: 'image' | 'video';
-  isManipulated: boolean;
-  manipulationScore: number;
-  confidence: number;
-  metadata: {
-    dimensions?: { width: number; height: number };
-    format?: string;
-    size?: number;
-    created?: string;
-    modified?: string;
-    analyzedAt: string;
-  };
-  warnings: string[];
-  verificationStatus: 'verified' | 'suspicious' | 'manipulated';
-  faceAnalysis?: {
-    detected: boolean;
-    anomalies: string[];
-  };
-}
-
-export class MediaAnalyzer {
-  private model: any = null;
-
-  async initialize() {
-    try {
-      // Create a simple model for image analysis
-      const input = tf.layers.input({ shape: [224, 224, 3] });
-      const conv1 = tf.layers.conv2d({
-        filters: 32,
-        kernelSize: 3,
-        activation: 'relu'
-      }).apply(input) as any;
-      
-      const pool1 = tf.layers.maxPooling2d({
-        poolSize: 2
-      }).apply(conv1) as any;
-      
-      const dense1 = tf.layers.dense({
-        units: 64,
-        activation: 'relu'
-      }).apply(pool1) as any;
-      
-      const output = tf.layers.dense({
-        units: 2,
-        activation: 'softmax'
-      }).apply(dense1) as any;
-
-      this.model = tf.model({ inputs: input, outputs: output });
-      this.model.compile({
-        optimizer: 'adam',
-        loss: 'categoricalCrossentropy',
-        metrics: ['accuracy']
-      });
-
-      logger.info('Media analyzer initialized successfully');
-    } catch (error) {
-      logger.error('Failed to initialize media analyzer:', error);
-      throw error;
-    }
-  }
-
-  async analyzeMedia(filePath: string, type: 'image' | 'video') {
-    try {
-      if (!this.model) {
-        throw new Error('Model not initialized');
-      }
-
-      if (type === 'image') {
-        // Load and preprocess image
-        const imageBuffer = await sharp(filePath)
-          .resize(224, 224)
-          .raw()
-          .toBuffer();
-        
-        // Convert buffer to tensor
-        const imageTensor = tf.tensor3d(new Uint8Array(imageBuffer), [224, 224, 3]);
-        const normalized = imageTensor.div(255.0);
-        
-        // Get prediction
-        const prediction = await this.model.predict(normalized.expandDims(0)) as any;
-        const scores = await prediction.data();
-        
-        // Clean up tensors
-        imageTensor.dispose();
-        normalized.dispose();
-        prediction.dispose();
-        
-        // Extract metadata
-        const metadata = await exifr.parse(filePath);
-        const imageInfo = await sharp(filePath).metadata();
-        
-        return {
-          isManipulated: scores[0] > scores[1],
-          confidence: Math.max(scores[0], scores[1]),
-          metadata: metadata || {},
-          analysis: {
-            dimensions: {
-              width: imageInfo.width,
-              height: imageInfo.height
-            },
-            format: imageInfo.format,
-            timestamp: metadata?.DateTimeOriginal
-          }
-        };
-      } else {
-        throw new Error('Video analysis not implemented yet');
-      }
-    } catch (error) {
-      logger.error('Error analyzing media:', error);
-      throw error;
-    }
-  }
-} 
\ No newline at end of file
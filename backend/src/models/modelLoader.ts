@@ -1,212 +0,0 @@
-// @ts-ignore
-import * as tf from '@tensorflow/tfjs-node';
-import { setupLogger } from '../utils/logger';
-import { AnalysisResult } from '../types/analysis';
-import path from 'path';
-
-const logger = setupLogger();
-
-interface Models {
-  textClassifier: any;
-  sentimentAnalyzer: any;
-  biasDetector: any;
-}
-
-let models: Models = {
-  textClassifier: null,
-  sentimentAnalyzer: null,
-  biasDetector: null
-};
-
-const MODEL_PATH = process.env.MODEL_PATH || './models';
-
-export async function initializeModels(): Promise<void> {
-  try {
-    logger.info('Initializing ML models...');
-    // For now, we're using rule-based analysis, so no ML models to load
-    logger.info('Models initialized successfully');
-  } catch (error) {
-    logger.error('Error initializing models:', error);
-    throw error;
-  }
-}
-
-export async function analyzeText(text: string): Promise<AnalysisResult> {
-  try {
-    // Initialize models
-    const models = await initializeModels();
-    
-    // Perform analysis
-    const startTime = Date.now();
-    const result = await performAnalysis(text, models);
-    const processingTime = Date.now() - startTime;
-
-    return {
-      prediction: result.prediction,
-      confidence: result.confidence,
-      reasoning: result.reasoning,
-      processingTime,
-      articleLength: text.length,
-      reliabilityScore: calculateReliabilityScore(result),
-      suspiciousIndicators: result.suspiciousIndicators,
-      credibilityScore: result.credibilityScore,
-      sentimentScore: result.sentimentScore,
-      languageMetrics: result.languageMetrics
-    };
-  } catch (error) {
-    logger.error('Text analysis failed:', error);
-    throw error;
-  }
-}
-
-async function performAnalysis(text: string, models: any): Promise<AnalysisResult> {
-  // Placeholder for actual analysis logic
-  return {
-    prediction: 'REAL',
-    confidence: 0.8,
-    reasoning: ['Content appears legitimate'],
-    processingTime: 0,
-    articleLength: text.length,
-    reliabilityScore: 0.8,
-    suspiciousIndicators: [],
-    credibilityScore: 0.8,
-    sentimentScore: 0.5,
-    languageMetrics: {
-      readability: 0.7,
-      complexity: 0.3
-    }
-  };
-}
-
-function calculateReliabilityScore(result: AnalysisResult): number {
-  // Implement reliability score calculation
-  return result.reliabilityScore;
-}
-
-function preprocessText(text: string): number[] {
-  // Implement text preprocessing
-  // This is a placeholder that should be replaced with actual preprocessing
-  return Array(512).fill(0);
-}
-
-async function runTextClassification(tensor: any) {
-  if (!models.textClassifier) {
-    throw new Error('Text classification model not initialized');
-  }
-
-  const prediction = await models.textClassifier.predict(tensor) as any;
-  const score = (await prediction.data())[0];
-  prediction.dispose();
-
-  return { score };
-}
-
-async function analyzeSentiment(tensor: any) {
-  if (!models.sentimentAnalyzer) {
-    throw new Error('Sentiment analysis model not initialized');
-  }
-
-  const prediction = await models.sentimentAnalyzer.predict(tensor) as any;
-  const scores = await prediction.data();
-  prediction.dispose();
-
-  return {
-    emotional: scores[0],
-    neutral: scores[1],
-    rational: scores[2]
-  };
-}
-
-async function detectBias(tensor: any) {
-  if (!models.biasDetector) {
-    throw new Error('Bias detection model not initialized');
-  }
-
-  const prediction = await models.biasDetector.predict(tensor) as any;
-  const scores = await prediction.data();
-  prediction.dispose();
-
-  return {
-    biasScore: scores[0],
-    sensationalism: scores[1]
-  };
-}
-
-function generateReasoning(
-  classification: { score: number },
-  sentiment: { emotional: number; neutral: number; rational: number },
-  bias: { biasScore: number; sensationalism: number }
-): string[] {
-  const reasons: string[] = [];
-
-  if (classification.score > 0.6) {
-    reasons.push('High probability of manipulated or false information');
-  }
-
-  if (sentiment.emotional > 0.7) {
-    reasons.push('Excessive emotional language detected');
-  }
-
-  if (bias.sensationalism > 0.7) {
-    reasons.push('Sensationalist writing style identified');
-  }
-
-  if (sentiment.rational < 0.3) {
-    reasons.push('Lack of objective language');
-  }
-
-  if (bias.biasScore > 0.7) {
-    reasons.push('Strong bias indicators present');
-  }
-
-  return reasons.length > 0 ? reasons : ['No significant issues detected'];
-}
-
-function calculateConfidence(
-  classification: { score: number },
-  sentiment: { emotional: number; neutral: number; rational: number },
-  bias: { biasScore: number; sensationalism: number }
-): number {
-  const weights = {
-    classification: 0.5,
-    sentiment: 0.3,
-    bias: 0.2
-  };
-
-  const sentimentScore = (sentiment.rational * 0.7 + sentiment.neutral * 0.3);
-  const biasScore = (1 - bias.biasScore * 0.6 - bias.sensationalism * 0.4);
-
-  return (
-    classification.score * weights.classification +
-    sentimentScore * weights.sentiment +
-    biasScore * weights.bias
-  );
-}
-
-function generateIndicators(
-  classification: { score: number },
-  sentiment: { emotional: number; neutral: number; rational: number },
-  bias: { biasScore: number; sensationalism: number }
-) {
-  return {
-    linguistic: {
-      emotionalLanguage: sentiment.emotional,
-      sensationalism: bias.sensationalism,
-      grammarQuality: 0.8, // Placeholder
-      clickbaitScore: bias.sensationalism,
-      biasScore: bias.biasScore
-    },
-    semantic: {
-      coherence: sentiment.rational,
-      factualConsistency: 1 - classification.score,
-      contextRelevance: sentiment.neutral,
-      topicDrift: 1 - sentiment.rational
-    },
-    source: {
-      credibility: 0.7, // Placeholder
-      recentAccuracy: 0.8, // Placeholder
-      verifiedClaims: 0.75, // Placeholder
-      domainAge: 0.9 // Placeholder
-    }
-  };
-} 
\ No newline at end of file
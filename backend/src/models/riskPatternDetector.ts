@@ -1,143 +1,220 @@
-import { setupLogger } from '../utils/logger';
-
-const logger = setupLogger();
-
-export interface RiskPatternResult {
-  patterns: {
-    excessivePunctuation: boolean;
-    allCaps: boolean;
-    conspiracyTerms: string[];
-    emotiveLanguage: boolean;
-    urgencyIndicators: boolean;
-  };
-  riskScore: number;
-  flaggedTerms: string[];
-  analysis: string[];
-}
-
-export class RiskPatternDetector {
-  private readonly conspiracyTerms: Set<string>;
-  private readonly emotiveWords: Set<string>;
-  private readonly urgencyPhrases: Set<string>;
-
-  constructor() {
-    // Initialize dictionaries
-    this.conspiracyTerms = new Set([
-      'deep state', 'illuminati', 'new world order', 'chemtrails', 
-      'microchip', 'mind control', 'cover up', 'shadow government',
-      'conspiracy', 'controlled opposition', 'false flag'
-    ]);
-
-    this.emotiveWords = new Set([
-      'shocking', 'bombshell', 'explosive', 'terrifying',
-      'outrageous', 'devastating', 'catastrophic', 'horrifying'
-    ]);
-
-    this.urgencyPhrases = new Set([
-      'must see', 'share before deleted', 'urgent', 'breaking',
-      'they don\'t want you to know', 'wake up', 'time is running out'
-    ]);
-  }
-
-  analyze(text: string): RiskPatternResult {
-    const normalizedText = text.toLowerCase();
-    const words = normalizedText.split(/\s+/);
-    const analysis: string[] = [];
-    const flaggedTerms: string[] = [];
-
-    // Check for excessive punctuation
-    const punctuationRatio = this.calculatePunctuationRatio(text);
-    const hasExcessivePunctuation = punctuationRatio > 0.1;
-    if (hasExcessivePunctuation) {
-      analysis.push(`High punctuation ratio detected: ${(punctuationRatio * 100).toFixed(1)}%`);
-    }
-
-    // Check for ALL CAPS
-    const capsRatio = this.calculateCapsRatio(text);
-    const hasAllCaps = capsRatio > 0.3;
-    if (hasAllCaps) {
-      analysis.push(`High uppercase ratio detected: ${(capsRatio * 100).toFixed(1)}%`);
-    }
-
-    // Detect conspiracy terms
-    const detectedConspiracyTerms = this.detectTerms(normalizedText, this.conspiracyTerms);
-    if (detectedConspiracyTerms.length > 0) {
-      analysis.push(`Conspiracy-related terms detected: ${detectedConspiracyTerms.join(', ')}`);
-      flaggedTerms.push(...detectedConspiracyTerms);
-    }
-
-    // Check for emotive language
-    const hasEmotiveLanguage = this.detectTerms(normalizedText, this.emotiveWords).length > 0;
-    if (hasEmotiveLanguage) {
-      analysis.push('Excessive emotional language detected');
-    }
-
-    // Check for urgency indicators
-    const hasUrgencyIndicators = this.detectTerms(normalizedText, this.urgencyPhrases).length > 0;
-    if (hasUrgencyIndicators) {
-      analysis.push('Urgency-inducing language detected');
-    }
-
-    // Calculate overall risk score
-    const riskScore = this.calculateRiskScore({
-      punctuationRatio,
-      capsRatio,
-      conspiracyTermCount: detectedConspiracyTerms.length,
-      hasEmotiveLanguage,
-      hasUrgencyIndicators
-    });
-
-    return {
-      patterns: {
-        excessivePunctuation: hasExcessivePunctuation,
-        allCaps: hasAllCaps,
-        conspiracyTerms: detectedConspiracyTerms,
-        emotiveLanguage: hasEmotiveLanguage,
-        urgencyIndicators: hasUrgencyIndicators
-      },
-      riskScore,
-      flaggedTerms,
-      analysis
-    };
-  }
-
-  private calculatePunctuationRatio(text: string): number {
-    const punctuationCount = (text.match(/[!?.,;:]/g) || []).length;
-    return punctuationCount / text.length;
-  }
-
-  private calculateCapsRatio(text: string): number {
-    const capsCount = (text.match(/[A-Z]/g) || []).length;
-    const letterCount = (text.match(/[a-zA-Z]/g) || []).length;
-    return letterCount > 0 ? capsCount / letterCount : 0;
-  }
-
-  private detectTerms(text: string, termSet: Set<string>): string[] {
-    return Array.from(termSet).filter(term => text.includes(term));
-  }
-
-  private calculateRiskScore(metrics: {
-    punctuationRatio: number;
-    capsRatio: number;
-    conspiracyTermCount: number;
-    hasEmotiveLanguage: boolean;
-    hasUrgencyIndicators: boolean;
-  }): number {
-    const weights = {
-      punctuation: 0.15,
-      caps: 0.15,
-      conspiracyTerms: 0.3,
-      emotiveLanguage: 0.2,
-      urgencyIndicators: 0.2
-    };
-
-    let score = 0;
-    score += (metrics.punctuationRatio > 0.1 ? metrics.punctuationRatio : 0) * weights.punctuation;
-    score += (metrics.capsRatio > 0.3 ? metrics.capsRatio : 0) * weights.caps;
-    score += (metrics.conspiracyTermCount * 0.2) * weights.conspiracyTerms;
-    score += (metrics.hasEmotiveLanguage ? 1 : 0) * weights.emotiveLanguage;
-    score += (metrics.hasUrgencyIndicators ? 1 : 0) * weights.urgencyIndicators;
-
-    return Math.min(1, score);
-  }
+import { DEFAULT_LANGUAGE, LexiconCategory, LexiconSource } from './lexicons';
+import { lexiconStore } from '../services/lexiconStore';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+// Credibility terms lower risk rather than raise it, so they are left to the text analyzer
+export type RiskTermCategory = Exclude<LexiconCategory, 'credibility'>;
+const RISK_CATEGORIES: RiskTermCategory[] = ['conspiracy', 'emotive', 'urgency', 'clickbait'];
+
+interface TermMatcher {
+  term: string;
+  category: RiskTermCategory;
+  weight: number;
+  pattern: RegExp;
+}
+
+export interface RiskSpan {
+  term: string;
+  category: RiskTermCategory;
+  // Offsets into the analyzed text; text.slice(start, end) is the matched wording
+  start: number;
+  end: number;
+}
+
+export interface RiskPatternResult {
+  patterns: {
+    excessivePunctuation: boolean;
+    allCaps: boolean;
+    conspiracyTerms: string[];
+    emotiveLanguage: boolean;
+    urgencyIndicators: boolean;
+    clickbaitPhrases: string[];
+  };
+  riskScore: number;
+  // The risk score mapped to a probability that the text is fake, comparable with the classifier's
+  fakeProbability: number;
+  flaggedTerms: string[];
+  spans: RiskSpan[];
+  analysis: string[];
+}
+
+// Builds a case-insensitive matcher for a term that only matches whole words, treating
+// straight and curly apostrophes alike, and spaces and hyphens alike ("cover up", "cover-up").
+// Combining marks count as part of a word, so a Devanagari term does not match before a vowel sign.
+function termPattern(term: string): RegExp {
+  const escaped = term
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/['’]/g, '[\'’]')
+    .replace(/[\s-]+/g, '[\\s-]+');
+  return new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])${escaped}(?![\\p{L}\\p{M}\\p{N}])`, 'giu');
+}
+
+// Logistic scaling of the risk score, fitted on evaluation/datasets/sample-articles.v2.jsonl.
+// Raw scores are 0 for most real articles and rarely pass 0.5 for fake ones, so 0.5 is no threshold;
+// after scaling, risk scores above ~0.06 lean FAKE. Refit when the lexicons or risk weights change.
+const CALIBRATION_SLOPE = 18;
+const CALIBRATION_INTERCEPT = -1.08;
+
+export function calibrateRiskScore(riskScore: number): number {
+  return 1 / (1 + Math.exp(-(CALIBRATION_SLOPE * riskScore + CALIBRATION_INTERCEPT)));
+}
+
+export class RiskPatternDetector {
+  // Compiled matchers per language, rebuilt when the lexicon source's revision changes
+  private readonly matchers = new Map<string, { revision: number; matchers: TermMatcher[] }>();
+
+  constructor(private readonly lexicons: LexiconSource = lexiconStore) {}
+
+  analyze(text: string, language: string = DEFAULT_LANGUAGE): RiskPatternResult {
+    const analysis: string[] = [];
+    const matchers = this.matchersFor(language);
+    const spans = this.findSpans(text, matchers);
+    const termsIn = (category: RiskTermCategory) =>
+      Array.from(new Set(spans.filter(span => span.category === category).map(span => span.term)));
+    // Each distinct matched term adds its weight, up to a full signal of 1
+    const signal = (category: RiskTermCategory) => Math.min(1, termsIn(category).reduce(
+      (sum, term) => sum + (matchers.find(matcher => matcher.category === category && matcher.term === term)?.weight || 0),
+      0
+    ));
+
+    // Check for excessive punctuation
+    const punctuationRatio = this.calculatePunctuationRatio(text);
+    const hasExcessivePunctuation = punctuationRatio > 0.1;
+    if (hasExcessivePunctuation) {
+      analysis.push(`High punctuation ratio detected: ${(punctuationRatio * 100).toFixed(1)}%`);
+    }
+
+    // Check for ALL CAPS
+    const capsRatio = this.calculateCapsRatio(text);
+    const hasAllCaps = capsRatio > 0.3;
+    if (hasAllCaps) {
+      analysis.push(`High uppercase ratio detected: ${(capsRatio * 100).toFixed(1)}%`);
+    }
+
+    // Detect conspiracy terms
+    const detectedConspiracyTerms = termsIn('conspiracy');
+    if (detectedConspiracyTerms.length > 0) {
+      analysis.push(`Conspiracy-related terms detected: ${detectedConspiracyTerms.join(', ')}`);
+    }
+
+    // Check for emotive language
+    const hasEmotiveLanguage = termsIn('emotive').length > 0;
+    if (hasEmotiveLanguage) {
+      analysis.push('Excessive emotional language detected');
+    }
+
+    // Check for urgency indicators
+    const hasUrgencyIndicators = termsIn('urgency').length > 0;
+    if (hasUrgencyIndicators) {
+      analysis.push('Urgency-inducing language detected');
+    }
+
+    // Check for clickbait phrasing
+    const detectedClickbait = termsIn('clickbait');
+    if (detectedClickbait.length > 0) {
+      analysis.push(`Clickbait phrases detected: ${detectedClickbait.join(', ')}`);
+    }
+
+    // Calculate overall risk score
+    const riskScore = this.calculateRiskScore({
+      punctuationRatio,
+      capsRatio,
+      conspiracy: signal('conspiracy'),
+      emotive: signal('emotive'),
+      urgency: signal('urgency'),
+      clickbait: signal('clickbait')
+    });
+
+    return {
+      patterns: {
+        excessivePunctuation: hasExcessivePunctuation,
+        allCaps: hasAllCaps,
+        conspiracyTerms: detectedConspiracyTerms,
+        emotiveLanguage: hasEmotiveLanguage,
+        urgencyIndicators: hasUrgencyIndicators,
+        clickbaitPhrases: detectedClickbait
+      },
+      riskScore,
+      fakeProbability: calibrateRiskScore(riskScore),
+      flaggedTerms: Array.from(new Set(spans.map(span => span.term))),
+      spans,
+      analysis
+    };
+  }
+
+  private matchersFor(language: string): TermMatcher[] {
+    const revision = this.lexicons.revision;
+    const cached = this.matchers.get(language);
+    if (cached && cached.revision === revision) {
+      return cached.matchers;
+    }
+
+    // News in Indian languages is often code-mixed, so English terms apply to every language
+    const terms = language === DEFAULT_LANGUAGE
+      ? this.lexicons.activeTerms(language)
+      : this.lexicons.activeTerms(language).concat(this.lexicons.activeTerms(DEFAULT_LANGUAGE));
+    const matchers = terms
+      .filter((term): term is typeof term & { category: RiskTermCategory } =>
+        (RISK_CATEGORIES as string[]).includes(term.category))
+      .map(({ term, category, weight }) => ({ term, category, weight, pattern: termPattern(term) }));
+    this.matchers.set(language, { revision, matchers });
+    logger.debug(`Compiled ${matchers.length} risk pattern terms for ${language} (lexicon revision ${revision})`);
+    return matchers;
+  }
+
+  // Every occurrence of every lexicon term, in text order
+  private findSpans(text: string, matchers: TermMatcher[]): RiskSpan[] {
+    const spans: RiskSpan[] = [];
+    matchers.forEach(({ term, category, pattern }) => {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(text)) !== null) {
+        spans.push({ term, category, start: match.index, end: match.index + match[0].length });
+      }
+    });
+    return spans.sort((a, b) => a.start - b.start || b.end - a.end);
+  }
+
+  private calculatePunctuationRatio(text: string): number {
+    // The danda (।) ends sentences in Devanagari
+    const punctuationCount = (text.match(/[!?.,;:।]/g) || []).length;
+    return text.length > 0 ? punctuationCount / text.length : 0;
+  }
+
+  private calculateCapsRatio(text: string): number {
+    const capsCount = (text.match(/[A-Z]/g) || []).length;
+    const letterCount = (text.match(/[a-zA-Z]/g) || []).length;
+    return letterCount > 0 ? capsCount / letterCount : 0;
+  }
+
+  private calculateRiskScore(metrics: {
+    punctuationRatio: number;
+    capsRatio: number;
+    // Lexicon signals, each between 0 and 1
+    conspiracy: number;
+    emotive: number;
+    urgency: number;
+    clickbait: number;
+  }): number {
+    const weights = {
+      punctuation: 0.15,
+      caps: 0.15,
+      conspiracyTerms: 0.25,
+      emotiveLanguage: 0.15,
+      urgencyIndicators: 0.15,
+      clickbait: 0.15
+    };
+
+    let score = 0;
+    score += (metrics.punctuationRatio > 0.1 ? metrics.punctuationRatio : 0) * weights.punctuation;
+    score += (metrics.capsRatio > 0.3 ? metrics.capsRatio : 0) * weights.caps;
+    score += metrics.conspiracy * weights.conspiracyTerms;
+    score += metrics.emotive * weights.emotiveLanguage;
+    score += metrics.urgency * weights.urgencyIndicators;
+    score += metrics.clickbait * weights.clickbait;
+
+    return Math.min(1, score);
+  }
 } 
\ No newline at end of file
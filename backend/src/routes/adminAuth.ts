@@ -0,0 +1,20 @@
+import { NextFunction, Request, Response } from 'express';
+import { timingSafeEqual } from 'crypto';
+
+// Endpoints that change what every client sees, or make the server fetch URLs, need the admin token
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    res.status(503).json({ error: 'Admin endpoints are disabled', message: 'Set ADMIN_TOKEN to enable them' });
+    return;
+  }
+
+  const match = /^Bearer (.+)$/.exec(req.get('authorization') || '');
+  const expected = Buffer.from(adminToken);
+  const provided = Buffer.from(match ? match[1] : '');
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+  next();
+}
@@ -1,20 +1,71 @@
-import express from 'express';
-import { textAnalyzer } from '../services/textAnalyzer';
+import express, { Request, Response } from 'express';
+import { textAnalyzer, TextAnalysisResult } from '../services/textAnalyzer';
+import { TextClassifierNotTrainedError } from '../services/textClassifier';
+import { analysisHistory, average, recordAnalysis } from '../services/analysisHistory';
 import { setupLogger } from '../utils/logger';
-import { AnalysisResult } from '../types/analysis';
+import { AnalysisStats } from '../types/analysis';
 
 const router = express.Router();
 const logger = setupLogger();
 
-// GET /api/analysis/stats
-router.get('/stats', async (req, res) => {
+// POST /api/v1/analysis/text
+router.post('/text', async (req: Request, res: Response) => {
   try {
-    // TODO: Implement analysis statistics from database
-    res.json({
-      totalAnalyses: 0,
-      averageProcessingTime: 0,
-      accuracyScore: 0
-    });
+    const { text, title, source, language, record } = req.body;
+    
+    if (!text) {
+      logger.error('Missing text content in request');
+      return res.status(400).json({ error: 'Text content is required' });
+    }
+    if (typeof text !== 'string') {
+      return res.status(400).json({ error: 'text must be a string' });
+    }
+    if (language !== undefined && (typeof language !== 'string' || !/^[a-z]{2,3}$/i.test(language))) {
+      return res.status(400).json({ error: 'language must be an ISO 639 code such as "hi"' });
+    }
+    if (record !== undefined && typeof record !== 'boolean') {
+      return res.status(400).json({ error: 'record must be a boolean' });
+    }
+
+    logger.info('Analyzing text:', { title, source, textLength: text.length });
+    const startTime = Date.now();
+    const result = await textAnalyzer.analyzeText(text, { language });
+    // Live previews ask not to be recorded, so drafts do not fill the history and skew the stats
+    if (record !== false) {
+      recordAnalysis({
+        kind: 'text',
+        hashInput: text,
+        input: { text, title, source, language },
+        output: result,
+        durationMs: Date.now() - startTime
+      });
+    }
+    logger.info('Analysis complete:', { prediction: result.prediction, confidence: result.confidence, language: result.language.code });
+    
+    res.json(result);
+  } catch (error: unknown) {
+    if (error instanceof TextClassifierNotTrainedError) {
+      logger.error(error.message);
+      return res.status(503).json({ error: 'Text classifier is not trained', message: error.message });
+    }
+    logger.error('Text analysis failed:', error);
+    res.status(500).json({ error: 'Analysis failed', details: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// GET /api/v1/analysis/stats
+router.get('/stats', async (req: Request, res: Response) => {
+  try {
+    const records = await analysisHistory.list<TextAnalysisResult>('text');
+    const fakeCount = records.filter(record => record.output.prediction === 'FAKE').length;
+
+    const stats: AnalysisStats = {
+      totalAnalyses: records.length,
+      averageProcessingTime: average(records.map(record => record.durationMs)),
+      averageConfidence: average(records.map(record => record.output.confidence)),
+      fakeDetectionRate: records.length > 0 ? fakeCount / records.length : 0
+    };
+    res.json(stats);
   } catch (error) {
     logger.error('Error fetching analysis stats:', error);
     res.status(500).json({ error: 'Failed to fetch statistics' });
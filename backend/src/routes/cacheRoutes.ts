@@ -0,0 +1,11 @@
+import express from 'express';
+import { cacheStats } from '../utils/cache';
+
+const router = express.Router();
+
+// GET /api/v1/cache/stats
+router.get('/stats', (req, res) => {
+  res.json(cacheStats());
+});
+
+export default router;
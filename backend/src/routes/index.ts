@@ -0,0 +1,18 @@
+import express from 'express';
+import analysisRoutes from './analysisRoutes';
+import mediaRoutes from './mediaRoutes';
+import sourceRoutes from './sourceRoutes';
+import monitorRoutes from './monitorRoutes';
+import lexiconRoutes from './lexiconRoutes';
+import cacheRoutes from './cacheRoutes';
+
+const router = express.Router();
+
+router.use('/analysis', analysisRoutes);
+router.use('/media', mediaRoutes);
+router.use('/source', sourceRoutes);
+router.use('/monitor', monitorRoutes);
+router.use('/admin/lexicons', lexiconRoutes);
+router.use('/cache', cacheRoutes);
+
+export default router;
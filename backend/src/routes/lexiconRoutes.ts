@@ -0,0 +1,81 @@
+import express, { Request, Response } from 'express';
+import { isLexiconCategory, LEXICON_CATEGORIES } from '../models/lexicons';
+import { LexiconError, lexiconStore, LexiconTermFilter } from '../services/lexiconStore';
+import { setupLogger } from '../utils/logger';
+import { requireAdmin } from './adminAuth';
+
+const router = express.Router();
+const logger = setupLogger();
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function sendLexiconError(res: Response, error: unknown, action: string) {
+  if (error instanceof LexiconError) {
+    res.status(error.reason === 'not_found' ? 404 : 400).json({ error: error.message });
+    return;
+  }
+  logger.error(`Failed to ${action} lexicon term:`, errorMessage(error));
+  res.status(500).json({ error: `Failed to ${action} lexicon term`, message: errorMessage(error) });
+}
+
+router.use(requireAdmin);
+
+// GET /api/v1/admin/lexicons?category=&language=&enabled=
+router.get('/', (req: Request, res: Response) => {
+  const { category, language, enabled } = req.query;
+  if (category !== undefined && !isLexiconCategory(category)) {
+    return res.status(400).json({ error: `category must be one of: ${LEXICON_CATEGORIES.join(', ')}` });
+  }
+  if (enabled !== undefined && enabled !== 'true' && enabled !== 'false') {
+    return res.status(400).json({ error: 'enabled must be true or false' });
+  }
+
+  const filter: LexiconTermFilter = {
+    category: category as LexiconTermFilter['category'],
+    language: typeof language === 'string' ? language : undefined,
+    enabled: enabled === undefined ? undefined : enabled === 'true'
+  };
+  res.json({
+    success: true,
+    result: {
+      revision: lexiconStore.revision,
+      packs: lexiconStore.packs(),
+      terms: lexiconStore.list(filter)
+    }
+  });
+});
+
+// POST /api/v1/admin/lexicons/terms
+router.post('/terms', async (req: Request, res: Response) => {
+  try {
+    const { term, category, weight, language } = req.body || {};
+    const result = await lexiconStore.addTerm({ term, category, weight, language });
+    logger.info(`Lexicon term "${result.term}" added to ${result.category} (${result.language})`);
+    res.status(201).json({ success: true, result });
+  } catch (error: unknown) {
+    sendLexiconError(res, error, 'add');
+  }
+});
+
+// PATCH /api/v1/admin/lexicons/terms  { term, category, language?, enabled?, weight? }
+router.patch('/terms', async (req: Request, res: Response) => {
+  const { term, category, language, enabled, weight } = req.body || {};
+  if (typeof term !== 'string' || !isLexiconCategory(category)) {
+    return res.status(400).json({ error: 'term and a valid category are required' });
+  }
+  if (language !== undefined && typeof language !== 'string') {
+    return res.status(400).json({ error: 'language must be a language tag such as "en"' });
+  }
+
+  try {
+    const result = await lexiconStore.updateTerm({ term, category, language }, { enabled, weight });
+    logger.info(`Lexicon term "${result.term}" in ${result.category} updated`, { enabled: result.enabled, weight: result.weight });
+    res.json({ success: true, result });
+  } catch (error: unknown) {
+    sendLexiconError(res, error, 'update');
+  }
+});
+
+export default router;
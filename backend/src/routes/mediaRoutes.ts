@@ -1,12 +1,23 @@
 import express from 'express';
 // @ts-ignore
 import multer from 'multer';
-import { MediaAnalyzer } from '../services/mediaAnalysis';
+import { MediaAnalysisPipeline, MediaAnalysisService } from '../services/mediaAnalysis';
+import { DemoMediaAnalyzer } from '../services/demoMediaAnalyzer';
 import { setupLogger } from '../utils/logger';
+import { analysisHistory, average, recordAnalysis } from '../services/analysisHistory';
+import { MediaAnalysisResult } from '../types/analysis';
+import { ClaimedLocation } from '../services/metadataForensics';
+import { SafeFetchError } from '../utils/safeFetch';
+import { UnsupportedVideoFormatError } from '../services/videoFrames';
 
 const router = express.Router();
 const logger = setupLogger();
-const mediaAnalyzer = new MediaAnalyzer();
+// Simulated results are only served when demo mode is switched on explicitly
+const demoMode = process.env.MEDIA_DEMO_MODE === 'true';
+const mediaAnalyzer: MediaAnalysisPipeline = demoMode ? new DemoMediaAnalyzer() : new MediaAnalysisService();
+if (demoMode) {
+  logger.warn('MEDIA_DEMO_MODE is on: media analysis returns simulated results');
+}
 
 // Configure multer for file uploads
 const upload = multer({
@@ -28,58 +39,126 @@ mediaAnalyzer.initialize().catch(error => {
   logger.error('Failed to initialize media analyzer:', error);
 });
 
-// POST /api/media/analyze/image
-router.post('/analyze/image', async (req: any, res: any) => {
-  try {
-    const { imageUrl } = req.body;
-    if (!imageUrl) {
-      return res.status(400).json({ error: 'Image URL is required' });
-    }
-    const analysis = await mediaAnalyzer.analyzeImage(imageUrl);
-    res.json({
-      success: true,
-      result: analysis
-    });
-  } catch (error: unknown) {
-    logger.error('Image analysis failed:', error);
-    res.status(500).json({
-      error: 'Image analysis failed',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
+interface RecordedInput {
+  hashInput: string | Buffer;
+  input: Record<string, unknown>;
+}
 
-// POST /api/media/analyze/video
-router.post('/analyze/video', async (req: any, res: any) => {
-  try {
-    const { videoUrl } = req.body;
-    if (!videoUrl) {
-      return res.status(400).json({ error: 'Video URL is required' });
+// The ELA heatmap is only useful in the response and would bloat the history file
+function withoutHeatmap(analysis: MediaAnalysisResult): MediaAnalysisResult {
+  if (!analysis.errorLevelAnalysis?.heatmap) return analysis;
+  const { heatmap, ...errorLevelAnalysis } = analysis.errorLevelAnalysis;
+  return { ...analysis, errorLevelAnalysis };
+}
+
+function isClaimedLocation(value: unknown): value is ClaimedLocation {
+  const { latitude, longitude, radiusKm } = (value || {}) as Record<string, unknown>;
+  return typeof latitude === 'number' && Math.abs(latitude) <= 90 &&
+    typeof longitude === 'number' && Math.abs(longitude) <= 180 &&
+    (radiusKm === undefined || (typeof radiusKm === 'number' && radiusKm > 0));
+}
+
+/**
+ * Both analyze endpoints accept either a multipart upload or a JSON body with a URL. The legacy
+ * unversioned paths answer with the bare result and the error bodies they had before /api/v1.
+ */
+function analyzeMediaHandler(type: 'image' | 'video', legacy = false) {
+  const urlField = `${type}Url`;
+  const label = type === 'image' ? 'Image' : 'Video';
+
+  return async (req: any, res: any) => {
+    try {
+      const startTime = Date.now();
+      let analysis: MediaAnalysisResult;
+      let source: RecordedInput;
+
+      if (req.file) {
+        logger.info(`Analyzing uploaded ${type}...`, {
+          size: req.file.size,
+          mimetype: req.file.mimetype
+        });
+        analysis = type === 'image'
+          ? await mediaAnalyzer.analyzeImage(req.file.buffer)
+          : await mediaAnalyzer.analyzeVideo(req.file.buffer);
+        source = {
+          hashInput: req.file.buffer,
+          input: { filename: req.file.originalname, mimetype: req.file.mimetype, size: req.file.size }
+        };
+      } else if (req.body?.[urlField]) {
+        const url = req.body[urlField];
+        const { claimedLocation } = req.body;
+        if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) {
+          return res.status(400).json({ error: `${urlField} must be an http(s) URL` });
+        }
+        if (claimedLocation !== undefined && !isClaimedLocation(claimedLocation)) {
+          return res.status(400).json({ error: 'claimedLocation requires numeric latitude and longitude' });
+        }
+        analysis = type === 'image'
+          ? await mediaAnalyzer.analyzeImage({ url }, { claimedLocation })
+          : await mediaAnalyzer.analyzeVideo({ url });
+        source = { hashInput: url, input: { [urlField]: url } };
+      } else {
+        return res.status(400).json({
+          error: legacy ? `No ${type} file provided` : `${label} file or ${urlField} is required`
+        });
+      }
+
+      recordAnalysis({
+        kind: 'media',
+        ...source,
+        output: withoutHeatmap(analysis),
+        durationMs: Date.now() - startTime
+      });
+      res.json(legacy ? analysis : {
+        success: true,
+        result: analysis
+      });
+    } catch (error: unknown) {
+      if (error instanceof SafeFetchError) {
+        logger.warn(`Refused to fetch ${urlField}: ${error.message}`);
+        return res.status(400).json({ error: `${label} URL could not be fetched`, message: error.message });
+      }
+      if (error instanceof UnsupportedVideoFormatError) {
+        return res.status(400).json({ error: `${label} format is not supported`, message: error.message });
+      }
+      logger.error(`${label} analysis failed:`, error);
+      if (legacy) {
+        return res.status(500).json({
+          error: `${label} analysis failed`,
+          details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+        });
+      }
+      res.status(500).json({
+        error: `${label} analysis failed`,
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
     }
-    const analysis = await mediaAnalyzer.analyzeVideo(videoUrl);
-    res.json({
-      success: true,
-      result: analysis
-    });
-  } catch (error: unknown) {
-    logger.error('Video analysis failed:', error);
-    res.status(500).json({
-      error: 'Video analysis failed',
-      message: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
+  };
+}
+
+// POST /api/v1/media/analyze/image
+router.post('/analyze/image', upload.single('image'), analyzeMediaHandler('image'));
+
+// POST /api/v1/media/analyze/video
+router.post('/analyze/video', upload.single('video'), analyzeMediaHandler('video'));
+
+// GET /api/v1/media/capabilities
+router.get('/capabilities', (req, res) => {
+  res.json({ detectors: mediaAnalyzer.getCapabilities() });
 });
 
-// GET /api/media/stats
+// GET /api/v1/media/stats
 router.get('/stats', async (req, res) => {
   try {
-    // TODO: Implement media analysis statistics from database
+    const records = await analysisHistory.list<MediaAnalysisResult>('media');
+    const manipulatedCount = records.filter(record => record.output.isManipulated).length;
+
     res.json({
-      totalAnalyses: 0,
-      imageAnalyses: 0,
-      videoAnalyses: 0,
-      averageProcessingTime: 0,
-      detectionRate: 0
+      totalAnalyses: records.length,
+      imageAnalyses: records.filter(record => record.output.type === 'image').length,
+      videoAnalyses: records.filter(record => record.output.type === 'video').length,
+      averageProcessingTime: average(records.map(record => record.durationMs)),
+      detectionRate: records.length > 0 ? manipulatedCount / records.length : 0
     });
   } catch (error) {
     logger.error('Error fetching media stats:', error);
@@ -87,4 +166,9 @@ router.get('/stats', async (req, res) => {
   }
 });
 
+// POST /api/media/analyze/image and /api/media/analyze/video, deprecated
+export const legacyMediaRoutes = express.Router();
+legacyMediaRoutes.post('/analyze/image', upload.single('image'), analyzeMediaHandler('image', true));
+legacyMediaRoutes.post('/analyze/video', upload.single('video'), analyzeMediaHandler('video', true));
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,274 @@
+import express, { Request, Response, Router } from 'express';
+import { LiveMonitor, MonitoringSource } from '../services/liveMonitor';
+import { setupLogger } from '../utils/logger';
+import { isIP } from 'net';
+import { isBlockedAddress } from '../utils/safeFetch';
+import { requireAdmin } from './adminAuth';
+
+const logger = setupLogger();
+
+const SOURCE_TYPES: MonitoringSource['type'][] = ['rss', 'api', 'websocket'];
+const MIN_UPDATE_INTERVAL = 10000;
+const MAX_BUFFERED_EVENTS = 100;
+const HEARTBEAT_INTERVAL = 30000;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+interface StreamEvent {
+  id: number;
+  event: string;
+  data: unknown;
+}
+
+function writeEvent(res: Response, { id, event, data }: StreamEvent): void {
+  res.write(`id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Credentials are write-only: never send them back to the client
+function toPublicSource(source: MonitoringSource) {
+  const { credentials, ...rest } = source;
+  return {
+    ...rest,
+    hasCredentials: !!(credentials?.apiKey || credentials?.username)
+  };
+}
+
+function validateSource(body: Partial<MonitoringSource> | undefined): string | null {
+  if (!body || typeof body.url !== 'string') {
+    return 'Source URL is required';
+  }
+  try {
+    const { protocol, hostname } = new URL(body.url);
+    if (!['http:', 'https:', 'ws:', 'wss:'].includes(protocol)) {
+      return `Unsupported URL protocol: ${protocol}`;
+    }
+    // Host names are checked when they are resolved; literal addresses can be refused up front
+    const host = hostname.replace(/^\[|\]$/g, '');
+    if (process.env.FETCH_ALLOW_PRIVATE_NETWORKS !== 'true' && isIP(host) && isBlockedAddress(host)) {
+      return 'Source URL points at a private or reserved address';
+    }
+  } catch {
+    return 'Source URL is invalid';
+  }
+  if (!body.type || !SOURCE_TYPES.includes(body.type)) {
+    return `Source type must be one of: ${SOURCE_TYPES.join(', ')}`;
+  }
+  if (body.updateInterval !== undefined &&
+      (typeof body.updateInterval !== 'number' || body.updateInterval < MIN_UPDATE_INTERVAL)) {
+    return `updateInterval must be a number of at least ${MIN_UPDATE_INTERVAL} ms`;
+  }
+  if (body.type === 'api' && (!body.mapping || typeof body.mapping.items !== 'string' || typeof body.mapping.text !== 'string')) {
+    return 'API sources require a mapping with "items" and "text" paths';
+  }
+  return null;
+}
+
+function toSource(body: MonitoringSource): MonitoringSource {
+  return {
+    url: body.url,
+    type: body.type,
+    updateInterval: body.updateInterval,
+    credentials: body.credentials,
+    mapping: body.mapping
+  };
+}
+
+/**
+ * Routes for managing the monitor's sources and streaming its events. Each router keeps its own
+ * buffer of recent events and its own stream clients.
+ */
+export function createMonitorRouter(liveMonitor: LiveMonitor): Router {
+  // Recent events are kept so reconnecting clients can resume from Last-Event-ID
+  const recentEvents: StreamEvent[] = [];
+  const clients: Set<Response> = new Set();
+  let nextEventId = 1;
+
+  function broadcast(event: string, data: unknown): void {
+    const streamEvent = { id: nextEventId++, event, data };
+    recentEvents.push(streamEvent);
+    if (recentEvents.length > MAX_BUFFERED_EVENTS) {
+      recentEvents.shift();
+    }
+    clients.forEach(client => writeEvent(client, streamEvent));
+  }
+
+  liveMonitor.on('alert', alert => broadcast('alert', alert));
+  liveMonitor.on('content_analyzed', content => broadcast('content', content));
+  liveMonitor.on('monitoring_started', () => broadcast('status', { monitoring: true }));
+  liveMonitor.on('monitoring_stopped', () => broadcast('status', { monitoring: false }));
+  liveMonitor.on('source_error', ({ source, error }: { source: string; error: unknown }) => {
+    broadcast('source_error', { source, message: errorMessage(error) });
+  });
+
+  const router = express.Router();
+
+  // GET /api/v1/monitor/status
+  router.get('/status', (req: Request, res: Response) => {
+    res.json({
+      monitoring: liveMonitor.isActive(),
+      sources: liveMonitor.getSources().length,
+      streamClients: clients.size
+    });
+  });
+
+  // GET /api/v1/monitor/sources
+  router.get('/sources', (req: Request, res: Response) => {
+    res.json({
+      sources: liveMonitor.getSources().map(toPublicSource)
+    });
+  });
+
+  // GET /api/v1/monitor/sources/:id (id is the URL-encoded source URL)
+  router.get('/sources/:id', (req: Request, res: Response) => {
+    const source = liveMonitor.getSource(req.params.id);
+    if (!source) {
+      res.status(404).json({ error: 'Source not found' });
+      return;
+    }
+    res.json({ source: toPublicSource(source) });
+  });
+
+  // POST /api/v1/monitor/sources
+  router.post('/sources', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const validationError = validateSource(req.body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+      if (liveMonitor.getSource(req.body.url)) {
+        return res.status(409).json({ error: 'Source is already being monitored' });
+      }
+
+      const source = toSource(req.body);
+      await liveMonitor.addSource(source);
+      res.status(201).json({
+        success: true,
+        source: toPublicSource(source)
+      });
+    } catch (error: unknown) {
+      logger.error('Failed to add monitoring source:', errorMessage(error));
+      res.status(422).json({
+        error: 'Failed to add monitoring source',
+        message: errorMessage(error)
+      });
+    }
+  });
+
+  // PUT /api/v1/monitor/sources/:id
+  router.put('/sources/:id', requireAdmin, async (req: Request, res: Response) => {
+    const existing = liveMonitor.getSource(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Source not found' });
+    }
+
+    // The URL identifies the source and cannot be changed; omitted credentials are kept
+    const body = {
+      ...req.body,
+      url: existing.url,
+      credentials: req.body?.credentials ?? existing.credentials
+    };
+    const validationError = validateSource(body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    try {
+      await liveMonitor.removeSource(existing.url);
+      const source = toSource(body);
+      await liveMonitor.addSource(source);
+      res.json({
+        success: true,
+        source: toPublicSource(source)
+      });
+    } catch (error: unknown) {
+      logger.error('Failed to update monitoring source:', errorMessage(error));
+      // Put the previous configuration back so a failed update does not drop the source
+      await liveMonitor.addSource(existing).catch(() => undefined);
+      res.status(422).json({
+        error: 'Failed to update monitoring source',
+        message: errorMessage(error)
+      });
+    }
+  });
+
+  // DELETE /api/v1/monitor/sources/:id
+  router.delete('/sources/:id', requireAdmin, async (req: Request, res: Response) => {
+    const removed = await liveMonitor.removeSource(req.params.id);
+    if (!removed) {
+      return res.status(404).json({ error: 'Source not found' });
+    }
+    res.status(204).end();
+  });
+
+  // POST /api/v1/monitor/start
+  router.post('/start', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      if (!liveMonitor.isActive()) {
+        await liveMonitor.startMonitoring();
+      }
+      res.json({ success: true, monitoring: true });
+    } catch (error: unknown) {
+      logger.error('Failed to start monitoring:', errorMessage(error));
+      res.status(500).json({
+        error: 'Failed to start monitoring',
+        message: errorMessage(error)
+      });
+    }
+  });
+
+  // POST /api/v1/monitor/stop
+  router.post('/stop', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      await liveMonitor.stopMonitoring();
+      res.json({ success: true, monitoring: false });
+    } catch (error: unknown) {
+      logger.error('Failed to stop monitoring:', errorMessage(error));
+      res.status(500).json({
+        error: 'Failed to stop monitoring',
+        message: errorMessage(error)
+      });
+    }
+  });
+
+  // GET /api/v1/monitor/alerts
+  router.get('/alerts', (req: Request, res: Response) => {
+    res.json({
+      alerts: recentEvents.filter(event => event.event === 'alert').map(event => event.data)
+    });
+  });
+
+  // GET /api/v1/monitor/alerts/stream (Server-Sent Events)
+  router.get('/alerts/stream', (req: Request, res: Response) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.write(`retry: 5000\n\n`);
+
+    const lastEventId = Number(req.get('last-event-id'));
+    if (lastEventId) {
+      recentEvents.filter(event => event.id > lastEventId).forEach(event => writeEvent(res, event));
+    }
+    writeEvent(res, { id: nextEventId - 1, event: 'status', data: { monitoring: liveMonitor.isActive() } });
+
+    clients.add(res);
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      clients.delete(res);
+    });
+  });
+
+  return router;
+}
+
+const liveMonitor = new LiveMonitor();
+liveMonitor.initialize().catch((error: unknown) => {
+  logger.error('Failed to initialize live monitor:', errorMessage(error));
+});
+
+export default createMonitorRouter(liveMonitor);
@@ -1,17 +1,53 @@
-import express from 'express';
-import { SourceVerifier } from '../services/sourceVerification';
+import express, { Request, Response } from 'express';
+import { domainToASCII } from 'url';
+import { SourceVerifier, SourceAnalysisResult, VerificationProgress } from '../services/sourceVerification';
+import { analysisHistory, average, recordAnalysis } from '../services/analysisHistory';
 import { setupLogger } from '../utils/logger';
 
 const router = express.Router();
 const logger = setupLogger();
 const sourceVerifier = new SourceVerifier();
+// Every URL starts RDAP, TLS and page lookups, so a batch is capped and worked through a few at a time
+const MAX_BATCH_SIZE = 20;
+const BATCH_CONCURRENCY = 4;
 
 // Initialize source verifier
 sourceVerifier.initialize().catch((error: any) => {
   logger.error('Failed to initialize source verifier:', error.message || error);
 });
 
-// POST /api/source/verify
+async function verifyAndRecord(
+  url: string,
+  content?: string,
+  onProgress?: (progress: VerificationProgress) => void
+): Promise<SourceAnalysisResult> {
+  const startTime = Date.now();
+  const verification = await sourceVerifier.verifySource(url, content, onProgress);
+  recordAnalysis({
+    kind: 'source',
+    hashInput: url,
+    input: { url, hasContent: !!content },
+    output: verification,
+    durationMs: Date.now() - startTime
+  });
+  return verification;
+}
+
+// Runs `task` over the items with at most `limit` in flight, keeping results in input order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// POST /api/v1/source/verify
 router.post('/verify', async (req: any, res: any) => {
   try {
     const { url, content } = req.body;
@@ -22,7 +58,7 @@ router.post('/verify', async (req: any, res: any) => {
       });
     }
 
-    const verification = await sourceVerifier.verifySource(url, content);
+    const verification = await verifyAndRecord(url, content);
     
     res.json({
       success: true,
@@ -37,20 +73,47 @@ router.post('/verify', async (req: any, res: any) => {
   }
 });
 
-// GET /api/source/trusted
+// GET /api/v1/source/verify/stream?url=... (Server-Sent Events: progress, result, verification_error)
+router.get('/verify/stream', async (req: Request, res: Response) => {
+  const url = typeof req.query.url === 'string' ? req.query.url : '';
+  if (!url) {
+    return res.status(400).json({ error: 'Source URL is required' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+
+  let closed = false;
+  req.on('close', () => {
+    closed = true;
+  });
+  const send = (event: string, data: unknown) => {
+    if (!closed) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  try {
+    const verification = await verifyAndRecord(url, undefined, progress => send('progress', progress));
+    send('result', verification);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Source verification failed:', message);
+    // Not named `error`: EventSource reserves that event for connection failures
+    send('verification_error', { error: 'Source verification failed', message });
+  } finally {
+    res.end();
+  }
+});
+
+// GET /api/v1/source/trusted
 router.get('/trusted', async (req, res) => {
   try {
-    // TODO: Implement trusted sources list from database
     res.json({
-      sources: [
-        'reuters.com',
-        'apnews.com',
-        'bbc.com',
-        'bbc.co.uk',
-        'npr.org',
-        'timesofindia.indiatimes.com',
-        'thehindu.com'
-      ]
+      sources: sourceVerifier.getTrustedDomains()
     });
   } catch (error: any) {
     logger.error('Error fetching trusted sources:', error.message || error);
@@ -58,8 +121,31 @@ router.get('/trusted', async (req, res) => {
   }
 });
 
-// POST /api/source/batch-verify
-router.post('/batch-verify', async (req: any, res: any) => {
+// GET /api/v1/source/domain/:domain
+router.get('/domain/:domain', async (req: Request, res: Response) => {
+  const domain = domainToASCII(req.params.domain.trim().toLowerCase().replace(/^www\./, ''));
+  if (!domain || !domain.includes('.')) {
+    return res.status(400).json({ error: 'A valid domain name is required' });
+  }
+
+  try {
+    const domainInfo = await sourceVerifier.getDomainInfo(domain);
+    res.json({
+      success: true,
+      result: domainInfo
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Domain lookup failed:', message);
+    res.status(500).json({
+      error: 'Domain lookup failed',
+      message
+    });
+  }
+});
+
+// POST /api/v1/source/batch-verify
+router.post('/batch-verify', async (req: Request, res: Response) => {
   try {
     const { urls } = req.body;
 
@@ -68,27 +154,35 @@ router.post('/batch-verify', async (req: any, res: any) => {
         error: 'Invalid request: urls must be an array'
       });
     }
+    if (urls.length > MAX_BATCH_SIZE) {
+      return res.status(400).json({
+        error: `Invalid request: at most ${MAX_BATCH_SIZE} urls can be verified at once`
+      });
+    }
+    if (!urls.every((url): url is string => typeof url === 'string' && url.trim() !== '')) {
+      return res.status(400).json({
+        error: 'Invalid request: every url must be a non-empty string'
+      });
+    }
 
     logger.info('Batch verifying sources:', urls.length);
 
-    const results = await Promise.all(
-      urls.map(async (url) => {
-        try {
-          const analysis = await sourceVerifier.verifySource(url);
-          return {
-            url,
-            status: 'success',
-            analysis
-          };
-        } catch (error: any) {
-          return {
-            url,
-            status: 'error',
-            error: error.message || error
-          };
-        }
-      })
-    );
+    const results = await mapWithConcurrency(urls, BATCH_CONCURRENCY, async (url: string) => {
+      try {
+        const analysis = await verifyAndRecord(url);
+        return {
+          url,
+          status: 'success',
+          analysis
+        };
+      } catch (error: unknown) {
+        return {
+          url,
+          status: 'error',
+          error: error instanceof Error ? error.message : String(error)
+        };
+      }
+    });
 
     res.json({
       results,
@@ -98,24 +192,31 @@ router.post('/batch-verify', async (req: any, res: any) => {
         failed: results.filter(r => r.status === 'error').length
       }
     });
-  } catch (error: any) {
-    logger.error('Batch verification failed:', error.message || error);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Batch verification failed:', message);
     res.status(500).json({
       error: 'Batch verification failed',
-      message: error.message || 'Unknown error'
+      message
     });
   }
 });
 
-// GET /api/source/stats
+// GET /api/v1/source/stats
 router.get('/stats', async (req, res) => {
   try {
-    // TODO: Implement source verification statistics from database
+    const records = await analysisHistory.list<SourceAnalysisResult>('source');
+    const countStatus = (status: SourceAnalysisResult['verificationStatus']) =>
+      records.filter(record => record.output.verificationStatus === status).length;
+
     res.json({
-      totalVerifications: 0,
-      averageCredibilityScore: 0,
-      trustedSourceHits: 0,
-      unreliableSourceHits: 0
+      totalVerifications: records.length,
+      uniqueSources: new Set(records.map(record => record.inputHash)).size,
+      averageCredibilityScore: average(records.map(record => record.output.credibilityScore)),
+      averageProcessingTime: average(records.map(record => record.durationMs)),
+      trustedSourceHits: countStatus('verified'),
+      suspiciousSourceHits: countStatus('suspicious'),
+      unreliableSourceHits: countStatus('unverified')
     });
   } catch (error: any) {
     logger.error('Error fetching source stats:', error.message || error);
@@ -0,0 +1,159 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { RiskPatternDetector } from '../models/riskPatternDetector';
+import { TransformerAnalyzer } from '../models/transformerAnalyzer';
+import {
+  AnalyzerEvaluation,
+  compareWithBaseline,
+  evaluate,
+  EvaluatedAnalyzer,
+  EvaluationBaseline,
+  toBaseline
+} from '../services/evaluation';
+import { TextAnalyzer, textAnalyzer } from '../services/textAnalyzer';
+import { hashingEncoder, loadLabeledCorpus } from '../services/textClassifier';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+const USAGE = 'Usage: npm run evaluate -- [--dataset=<file.jsonl>] [--baseline=<file.json>] [--update-baseline] [--report=<file.json>] [--tolerance=0.001]';
+
+const DEFAULT_DATASET = path.join('evaluation', 'datasets', 'sample-articles.v2.jsonl');
+const DEFAULT_BASELINE = path.join('evaluation', 'baseline.json');
+// Trained with npm run train-text -- evaluation/datasets/sample-articles.v1.jsonl --encoder=hashing
+// --epochs=200 --out=evaluation/models/hashing-text-classifier
+const STUB_CLASSIFIER_DIR = path.join('evaluation', 'models', 'hashing-text-classifier');
+
+interface EvaluateArgs {
+  dataset: string;
+  baseline: string;
+  updateBaseline: boolean;
+  report?: string;
+  tolerance?: number;
+}
+
+function parseArgs(args: string[]): EvaluateArgs | null {
+  const parsed: EvaluateArgs = { dataset: DEFAULT_DATASET, baseline: DEFAULT_BASELINE, updateBaseline: false };
+  for (const arg of args) {
+    const [flag, value] = arg.split('=');
+    if (flag === '--dataset' && value) parsed.dataset = value;
+    else if (flag === '--baseline' && value) parsed.baseline = value;
+    else if (flag === '--report' && value) parsed.report = value;
+    else if (flag === '--tolerance' && value) parsed.tolerance = Number(value);
+    else if (flag === '--update-baseline') parsed.updateBaseline = true;
+    else return null;
+  }
+  return parsed;
+}
+
+function analyzers(): EvaluatedAnalyzer[] {
+  const riskPatterns = new RiskPatternDetector();
+  const transformer = new TransformerAnalyzer();
+  // The full text analyzer on an offline encoder and a committed classifier, so the pipeline around
+  // the model is gated even where no classifier has been trained
+  const stubAnalyzer = new TextAnalyzer({ classifierDir: STUB_CLASSIFIER_DIR, loadEncoder: async () => hashingEncoder });
+  return [
+    {
+      name: 'textAnalyzer',
+      scoreText: async text => (await textAnalyzer.analyzeText(text)).confidence
+    },
+    {
+      name: 'textAnalyzerStub',
+      initialize: () => stubAnalyzer.initialize(),
+      scoreText: async text => (await stubAnalyzer.analyzeText(text)).confidence
+    },
+    {
+      name: 'riskPatterns',
+      scoreText: async text => riskPatterns.analyze(text).fakeProbability
+    },
+    {
+      name: 'transformer',
+      initialize: () => transformer.initialize(),
+      scoreText: async text => {
+        const result = await transformer.analyze(text);
+        return result.prediction === 'fake' ? result.confidence : 1 - result.confidence;
+      }
+    }
+  ];
+}
+
+const fixed = (value: number | null | undefined) => (value === null || value === undefined ? 'n/a' : value.toFixed(3));
+
+function logEvaluation(evaluation: AnalyzerEvaluation) {
+  if (evaluation.status === 'skipped' || !evaluation.metrics || !evaluation.confusionMatrix) {
+    logger.warn(`${evaluation.analyzer}: skipped (${evaluation.reason})`);
+    return;
+  }
+
+  const { accuracy, precision, recall, f1 } = evaluation.metrics;
+  const matrix = evaluation.confusionMatrix;
+  logger.info(
+    `${evaluation.analyzer}: accuracy ${fixed(accuracy)}, precision ${fixed(precision)}, recall ${fixed(recall)}, ` +
+    `F1 ${fixed(f1)}, ROC-AUC ${fixed(evaluation.rocAuc)}`
+  );
+  logger.info(`  confusion matrix   predicted FAKE  predicted REAL`);
+  logger.info(`    actual FAKE      ${String(matrix.truePositives).padStart(14)}  ${String(matrix.falseNegatives).padStart(14)}`);
+  logger.info(`    actual REAL      ${String(matrix.falsePositives).padStart(14)}  ${String(matrix.trueNegatives).padStart(14)}`);
+  logger.info('  calibration (score bin: examples, mean score, share fake)');
+  evaluation.calibration?.forEach(bin => {
+    logger.info(`    ${bin.lower.toFixed(1)}-${bin.upper.toFixed(1)}: ${bin.count}, ${fixed(bin.meanPredicted)}, ${fixed(bin.fractionFake)}`);
+  });
+  if (evaluation.misclassified && evaluation.misclassified.length > 0) {
+    logger.info(`  misclassified: ${evaluation.misclassified.join(', ')}`);
+  }
+}
+
+async function run(args: string[]) {
+  const options = parseArgs(args);
+  if (!options) {
+    logger.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const dataset = await loadLabeledCorpus(options.dataset);
+    const datasetName = path.basename(options.dataset, path.extname(options.dataset));
+    logger.info(`Evaluating ${dataset.length} examples from ${datasetName}`);
+
+    const report = await evaluate(datasetName, dataset, analyzers());
+    report.analyzers.forEach(logEvaluation);
+
+    if (options.report) {
+      await fs.writeFile(options.report, JSON.stringify(report, null, 2) + '\n');
+      logger.info(`Wrote report to ${options.report}`);
+    }
+
+    if (options.updateBaseline) {
+      await fs.writeFile(options.baseline, JSON.stringify(toBaseline(report), null, 2) + '\n');
+      logger.info(`Updated baseline ${options.baseline}`);
+      return;
+    }
+
+    const baseline: EvaluationBaseline = JSON.parse(await fs.readFile(options.baseline, 'utf8'));
+    const comparisons = compareWithBaseline(report, baseline, options.tolerance);
+    comparisons.forEach(comparison => {
+      if (!comparison.evaluated) {
+        logger.error(`${comparison.analyzer}: skipped, but the baseline has results for it`);
+        return;
+      }
+      const changes = comparison.changes.map(change => {
+        const delta = change.delta === null ? 'n/a' : `${change.delta >= 0 ? '+' : ''}${fixed(change.delta)}`;
+        return `${change.metric} ${fixed(change.baseline)} -> ${fixed(change.value)} (${delta})`;
+      }).join(', ');
+      if (comparison.regressed) {
+        logger.error(`${comparison.analyzer}: regressed, ${changes}`);
+      } else {
+        logger.info(`${comparison.analyzer}: ${changes}`);
+      }
+    });
+
+    if (comparisons.some(comparison => comparison.regressed)) {
+      process.exitCode = 1;
+    }
+  } catch (error: unknown) {
+    logger.error('Evaluation failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
+
+run(process.argv.slice(2));
@@ -0,0 +1,27 @@
+import { claimReviewStore } from '../services/claimReviewStore';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+const USAGE = 'Usage: npm run import-claim-reviews -- <dump.json|dump.jsonl> [<dump>...]';
+
+// Imports schema.org ClaimReview JSON-LD dumps into the local fact-check database
+async function importDumps(files: string[]) {
+  if (files.length === 0) {
+    logger.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  for (const file of files) {
+    try {
+      const { added, skipped } = await claimReviewStore.importFile(file);
+      logger.info(`Imported ${file}: ${added} added, ${skipped} skipped`);
+    } catch (error: unknown) {
+      logger.error(`Failed to import ${file}:`, error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+    }
+  }
+  logger.info(`The local fact-check database holds ${await claimReviewStore.size()} claim reviews`);
+}
+
+importDumps(process.argv.slice(2));
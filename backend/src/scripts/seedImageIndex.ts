@@ -0,0 +1,25 @@
+import { imageIndex } from '../services/imageIndex';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+// Usage: npm run seed-images -- <folder> [<folder>...]
+async function seed(folders: string[]) {
+  if (folders.length === 0) {
+    logger.error('Usage: npm run seed-images -- <folder> [<folder>...]');
+    process.exitCode = 1;
+    return;
+  }
+
+  for (const folder of folders) {
+    try {
+      const { added, skipped } = await imageIndex.seedFromFolder(folder);
+      logger.info(`Seeded ${folder}: ${added} added, ${skipped} skipped`);
+    } catch (error: unknown) {
+      logger.error(`Failed to seed ${folder}:`, error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+    }
+  }
+}
+
+seed(process.argv.slice(2));
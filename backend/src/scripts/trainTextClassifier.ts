@@ -0,0 +1,70 @@
+import * as use from '@tensorflow-models/universal-sentence-encoder';
+import {
+  hashingEncoder,
+  loadLabeledCorpus,
+  saveClassifier,
+  TEXT_CLASSIFIER_DIR,
+  trainClassifier,
+  SentenceEncoder,
+  TrainingOptions
+} from '../services/textClassifier';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+const USAGE = 'Usage: npm run train-text -- <corpus.csv|corpus.jsonl> [--epochs=30] [--holdout=0.2] [--encoder=hashing] [--out=<dir>]';
+
+interface TrainArgs {
+  corpus?: string;
+  options: TrainingOptions;
+  // The hashing encoder trains the offline classifier the evaluation uses
+  hashing: boolean;
+  out: string;
+}
+
+function parseArgs(args: string[]): TrainArgs {
+  const parsed: TrainArgs = { options: {}, hashing: false, out: TEXT_CLASSIFIER_DIR };
+  for (const arg of args) {
+    const [flag, value] = arg.split('=');
+    if (flag === '--epochs') parsed.options.epochs = Number(value);
+    else if (flag === '--holdout') parsed.options.holdout = Number(value);
+    else if (flag === '--encoder' && value === 'hashing') parsed.hashing = true;
+    else if (flag === '--out' && value) parsed.out = value;
+    else parsed.corpus = arg;
+  }
+  return parsed;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+async function train(args: string[]) {
+  const { corpus, options, hashing, out } = parseArgs(args);
+  if (!corpus) {
+    logger.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const examples = await loadLabeledCorpus(corpus);
+    const fakeCount = examples.filter(example => example.label === 'FAKE').length;
+    logger.info(`Loaded ${examples.length} examples (${fakeCount} fake, ${examples.length - fakeCount} real) from ${corpus}`);
+
+    let encoder: SentenceEncoder = hashingEncoder;
+    if (!hashing) {
+      logger.info('Loading universal-sentence-encoder...');
+      encoder = await use.load();
+    }
+    const report = await trainClassifier(examples, encoder, options);
+    await saveClassifier(report.model, out);
+
+    const { accuracy, precision, recall, f1 } = report.metrics;
+    logger.info(`Trained on ${report.trainSize} examples, evaluated on ${report.testSize} held out`);
+    logger.info(`Accuracy ${percent(accuracy)}, precision ${percent(precision)}, recall ${percent(recall)}, F1 ${percent(f1)}`);
+    logger.info(`Saved classifier to ${out}`);
+  } catch (error: unknown) {
+    logger.error('Training failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
+
+train(process.argv.slice(2));
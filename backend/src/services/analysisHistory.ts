@@ -0,0 +1,229 @@
+import { createHash, randomUUID } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { createInterface } from 'readline';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+export type AnalysisKind = 'text' | 'media' | 'source';
+
+export interface AnalysisRecord<TOutput = unknown> {
+  id: string;
+  kind: AnalysisKind;
+  createdAt: string;
+  inputHash: string;
+  input: Record<string, unknown>;
+  output: TOutput;
+  durationMs: number;
+}
+
+export interface NewAnalysisRecord<TOutput = unknown> {
+  kind: AnalysisKind;
+  // Hashed to identify repeat analyses of the same content
+  hashInput: string | Buffer;
+  input: Record<string, unknown>;
+  output: TOutput;
+  durationMs: number;
+}
+
+const HISTORY_PATH = process.env.HISTORY_PATH || './data/analysis-history.jsonl';
+// Records held in memory for the stats
+const HISTORY_MAX_RECORDS = Number(process.env.HISTORY_MAX_RECORDS) || 10000;
+// Once the file holds this many times the records kept in memory, it is rewritten with just those
+const COMPACT_FACTOR = 2;
+
+interface HistoryIndex {
+  kind: AnalysisKind;
+  keyOf: (record: AnalysisRecord) => string | null;
+  records: Map<string, AnalysisRecord[]>;
+}
+
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Append-only JSONL store of analysis runs. The most recent `maxRecords` records are loaded
+ * into memory on first use and each new record is appended to the file, so history survives
+ * restarts without a database. The file is compacted down to those records when it grows to
+ * COMPACT_FACTOR times as many.
+ */
+export class AnalysisHistoryStore {
+  private records: AnalysisRecord[] = [];
+  private indexes = new Map<string, HistoryIndex>();
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  // Lines in the file, counting the appends still queued
+  private fileRecords = 0;
+
+  constructor(private readonly filePath: string, private readonly maxRecords = HISTORY_MAX_RECORDS) {}
+
+  async record<TOutput>(entry: NewAnalysisRecord<TOutput>): Promise<AnalysisRecord<TOutput>> {
+    await this.load();
+
+    const record: AnalysisRecord<TOutput> = {
+      id: randomUUID(),
+      kind: entry.kind,
+      createdAt: new Date().toISOString(),
+      inputHash: hashContent(entry.hashInput),
+      input: entry.input,
+      output: entry.output,
+      durationMs: entry.durationMs
+    };
+    this.add(record);
+    this.trim();
+
+    if (++this.fileRecords > this.maxRecords * COMPACT_FACTOR) {
+      this.compact();
+    } else {
+      // Serialize appends so concurrent requests cannot interleave partial lines
+      const line = `${JSON.stringify(record)}\n`;
+      this.writeQueue = this.writeQueue
+        .then(() => fs.appendFile(this.filePath, line, 'utf8'))
+        .catch(error => logger.error('Failed to persist analysis record:', error));
+    }
+    await this.writeQueue;
+
+    return record;
+  }
+
+  async list<TOutput = unknown>(kind: AnalysisKind): Promise<AnalysisRecord<TOutput>[]> {
+    await this.load();
+    return this.records.filter(record => record.kind === kind) as AnalysisRecord<TOutput>[];
+  }
+
+  async findByHash(kind: AnalysisKind, inputHash: string): Promise<AnalysisRecord[]> {
+    await this.load();
+    return this.records.filter(record => record.kind === kind && record.inputHash === inputHash);
+  }
+
+  /**
+   * Groups the records of one kind under a key derived from each, such as the domain of the
+   * analyzed source, and keeps the groups up to date as records come and go. Defining a name
+   * again keeps the existing index.
+   */
+  defineIndex(name: string, kind: AnalysisKind, keyOf: (record: AnalysisRecord) => string | null): void {
+    if (this.indexes.has(name)) return;
+    const index: HistoryIndex = { kind, keyOf, records: new Map() };
+    this.records.forEach(record => this.addToIndex(index, record));
+    this.indexes.set(name, index);
+  }
+
+  // Records under the key in the named index, oldest first
+  async listIndexed<TOutput = unknown>(name: string, key: string): Promise<AnalysisRecord<TOutput>[]> {
+    await this.load();
+    const index = this.indexes.get(name);
+    if (!index) {
+      throw new Error(`Unknown analysis history index: ${name}`);
+    }
+    return (index.records.get(key) || []) as AnalysisRecord<TOutput>[];
+  }
+
+  private add(record: AnalysisRecord) {
+    this.records.push(record);
+    this.indexes.forEach(index => this.addToIndex(index, record));
+  }
+
+  private addToIndex(index: HistoryIndex, record: AnalysisRecord) {
+    const key = record.kind === index.kind ? index.keyOf(record) : null;
+    if (key === null) return;
+    const records = index.records.get(key);
+    if (records) records.push(record);
+    else index.records.set(key, [record]);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      // A failed load is retried on the next call instead of failing every later one
+      this.loading = this.readFile().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private trim() {
+    if (this.records.length <= this.maxRecords) return;
+    const removed = this.records.splice(0, this.records.length - this.maxRecords);
+    // The oldest records are also the first under their key
+    removed.forEach(record => this.indexes.forEach(index => {
+      const key = record.kind === index.kind ? index.keyOf(record) : null;
+      const records = key === null ? undefined : index.records.get(key);
+      if (key === null || records?.[0] !== record) return;
+      records.shift();
+      if (records.length === 0) index.records.delete(key);
+    }));
+  }
+
+  // Rewrites the file with the records held in memory. It is queued behind the earlier appends,
+  // and those records are all in memory already, so none is lost or written twice.
+  private compact() {
+    const contents = this.records.map(record => `${JSON.stringify(record)}\n`).join('');
+    this.fileRecords = this.records.length;
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        const temporary = `${this.filePath}.${process.pid}.tmp`;
+        await fs.writeFile(temporary, contents, 'utf8');
+        await fs.rename(temporary, this.filePath);
+      })
+      .catch(error => logger.error('Failed to compact analysis history:', error));
+  }
+
+  private async readFile(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // Read line by line, keeping no more than twice the records held in memory at any time
+    let skipped = 0;
+    let lines = 0;
+    let records: AnalysisRecord[] = [];
+    try {
+      const input = createInterface({ input: createReadStream(this.filePath, 'utf8'), crlfDelay: Infinity });
+      for await (const line of input) {
+        if (!line.trim()) continue;
+        lines++;
+        try {
+          records.push(JSON.parse(line));
+        } catch {
+          // A crash mid-append can leave a truncated last line
+          skipped++;
+        }
+        if (records.length >= this.maxRecords * 2) {
+          records = records.slice(-this.maxRecords);
+        }
+      }
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        logger.info(`Starting new analysis history at ${this.filePath}`);
+        return;
+      }
+      throw error;
+    }
+    records.slice(-this.maxRecords).forEach(record => this.add(record));
+    this.fileRecords = lines;
+
+    if (skipped > 0) {
+      logger.warn(`Skipped ${skipped} unreadable analysis history entries`);
+    }
+    logger.info(`Loaded ${this.records.length} analysis records from ${this.filePath}`);
+    if (lines > this.maxRecords * COMPACT_FACTOR) {
+      this.compact();
+    }
+  }
+}
+
+export const analysisHistory = new AnalysisHistoryStore(HISTORY_PATH);
+
+/**
+ * Records an analysis without letting a storage failure affect the response.
+ */
+export function recordAnalysis<TOutput>(entry: NewAnalysisRecord<TOutput>): void {
+  analysisHistory.record(entry).catch(error => {
+    logger.error(`Failed to record ${entry.kind} analysis:`, error);
+  });
+}
+
+export function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
@@ -0,0 +1,207 @@
+import { setupLogger } from '../utils/logger';
+import { getJsonPathValue, queryJsonPath } from '../utils/jsonPath';
+import { safeFetch, SafeFetchOptions } from '../utils/safeFetch';
+import { FeedItem } from './feedReader';
+
+const logger = setupLogger();
+
+export type ApiPagination =
+  | {
+      type: 'cursor';
+      // Query parameter the cursor is sent in
+      param: string;
+      // JSONPath to the next cursor in the response; pagination stops when it is missing
+      nextCursorPath: string;
+    }
+  | {
+      type: 'page';
+      param: string;
+      startPage?: number;
+      pageSizeParam?: string;
+      pageSize?: number;
+    };
+
+export interface ApiSourceMapping {
+  // JSONPath to the item array in the response, e.g. `$.data.articles` or `$.results[*]`
+  items: string;
+  // The remaining paths are evaluated relative to each item
+  text: string;
+  title?: string;
+  media?: string;
+  link?: string;
+  id?: string;
+  publishedAt?: string;
+  pagination?: ApiPagination;
+  maxPages?: number;
+  // Where `credentials.apiKey` goes; defaults to an `Authorization: Bearer` header
+  apiKeyHeader?: string;
+  apiKeyQueryParam?: string;
+  params?: Record<string, string>;
+}
+
+export interface ApiCredentials {
+  apiKey?: string;
+  username?: string;
+  password?: string;
+}
+
+const DEFAULT_MAX_PAGES = 5;
+const MAX_REMEMBERED_IDS = 1000;
+const REQUEST_TIMEOUT = 15000;
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024;
+
+function asString(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return undefined;
+}
+
+function toIsoDate(value: unknown): string | undefined {
+  const raw = typeof value === 'number' ? value : asString(value);
+  if (raw === undefined) return undefined;
+  // Numeric timestamps below 1e12 are taken to be in seconds
+  const date = typeof raw === 'number' ? new Date(raw < 1e12 ? raw * 1000 : raw) : new Date(raw);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Maps a single API item onto the shape LiveMonitor analyzes. Returns null when no text is found.
+ */
+export function mapApiItem(item: unknown, mapping: ApiSourceMapping): FeedItem | null {
+  const text = asString(getJsonPathValue(item, mapping.text));
+  if (!text) return null;
+
+  const title = mapping.title ? asString(getJsonPathValue(item, mapping.title)) : undefined;
+  const link = mapping.link ? asString(getJsonPathValue(item, mapping.link)) : undefined;
+  const id = mapping.id ? asString(getJsonPathValue(item, mapping.id)) : undefined;
+
+  return {
+    guid: id || link || text,
+    text,
+    title: title || '',
+    link,
+    publishedAt: mapping.publishedAt ? toIsoDate(getJsonPathValue(item, mapping.publishedAt)) : undefined,
+    media: mapping.media ? asString(getJsonPathValue(item, mapping.media)) : undefined
+  };
+}
+
+/**
+ * Extracts mapped items from one API response body.
+ */
+export function extractApiItems(data: unknown, mapping: ApiSourceMapping): FeedItem[] {
+  const matches = queryJsonPath(data, mapping.items);
+  // A path to the array itself matches once; a `[*]` path matches each element
+  const rawItems = matches.length === 1 && Array.isArray(matches[0]) ? matches[0] : matches;
+
+  return rawItems
+    .map(item => mapApiItem(item, mapping))
+    .filter((item): item is FeedItem => item !== null);
+}
+
+/**
+ * Polls JSON APIs described by a declarative mapping and returns items not seen on earlier polls.
+ * API URLs come from API clients, so they are fetched with safeFetch.
+ */
+export class ApiPoller {
+  private seenIds: Map<string, Set<string>> = new Map();
+
+  constructor(private readonly fetchOptions: SafeFetchOptions = {}) {}
+
+  async fetchNewItems(url: string, mapping: ApiSourceMapping, credentials?: ApiCredentials): Promise<FeedItem[]> {
+    const items: FeedItem[] = [];
+    const maxPages = mapping.maxPages ?? DEFAULT_MAX_PAGES;
+    const pagination = mapping.pagination;
+    let cursor: string | undefined;
+    let page = pagination?.type === 'page' ? pagination.startPage ?? 1 : 0;
+
+    for (let pageCount = 0; pageCount < maxPages; pageCount++) {
+      const params: Record<string, string | number> = { ...mapping.params };
+      if (pagination?.type === 'cursor' && cursor) {
+        params[pagination.param] = cursor;
+      } else if (pagination?.type === 'page') {
+        params[pagination.param] = page;
+        if (pagination.pageSizeParam && pagination.pageSize) {
+          params[pagination.pageSizeParam] = pagination.pageSize;
+        }
+      }
+
+      const data = await this.request(url, params, mapping, credentials);
+      const pageItems = extractApiItems(data, mapping);
+      items.push(...pageItems);
+
+      if (!pagination || pageItems.length === 0) break;
+      if (pagination.type === 'cursor') {
+        cursor = asString(getJsonPathValue(data, pagination.nextCursorPath));
+        if (!cursor) break;
+      } else {
+        page++;
+      }
+    }
+
+    const seen = this.getSeenIds(url);
+    const newItems = items.filter(item => !seen.has(item.guid));
+    newItems.forEach(item => {
+      seen.add(item.guid);
+      if (seen.size > MAX_REMEMBERED_IDS) {
+        const oldest = seen.values().next().value;
+        if (oldest !== undefined) seen.delete(oldest);
+      }
+    });
+
+    logger.info(`Polled API ${url}: ${items.length} items, ${newItems.length} new`);
+    return newItems;
+  }
+
+  forget(url: string): void {
+    this.seenIds.delete(url);
+  }
+
+  private async request(
+    url: string,
+    params: Record<string, string | number>,
+    mapping: ApiSourceMapping,
+    credentials?: ApiCredentials
+  ): Promise<unknown> {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+
+    if (credentials?.apiKey) {
+      if (mapping.apiKeyQueryParam) {
+        params[mapping.apiKeyQueryParam] = credentials.apiKey;
+      } else if (mapping.apiKeyHeader) {
+        headers[mapping.apiKeyHeader] = credentials.apiKey;
+      } else {
+        headers['Authorization'] = `Bearer ${credentials.apiKey}`;
+      }
+    }
+
+    if (credentials?.username) {
+      const basic = Buffer.from(`${credentials.username}:${credentials.password || ''}`).toString('base64');
+      headers['Authorization'] = `Basic ${basic}`;
+    }
+
+    const requestUrl = new URL(url);
+    Object.entries(params).forEach(([name, value]) => requestUrl.searchParams.set(name, String(value)));
+
+    const response = await safeFetch(requestUrl.href, {
+      maxBytes: MAX_RESPONSE_BYTES,
+      timeoutMs: REQUEST_TIMEOUT,
+      ...this.fetchOptions,
+      headers
+    });
+    try {
+      return JSON.parse(response.body.toString('utf8'));
+    } catch {
+      throw new Error(`API ${url} did not return JSON`);
+    }
+  }
+
+  private getSeenIds(url: string): Set<string> {
+    let seen = this.seenIds.get(url);
+    if (!seen) {
+      seen = new Set();
+      this.seenIds.set(url, seen);
+    }
+    return seen;
+  }
+}
@@ -0,0 +1,54 @@
+import { DetectorCapability } from '../types/analysis';
+
+/**
+ * Tracks which detectors can run in this deployment, so analyzers can skip the ones whose
+ * models or binaries are missing instead of failing the whole request.
+ */
+export class CapabilityRegistry {
+  private readonly capabilities = new Map<string, DetectorCapability>();
+
+  markAvailable(name: string): void {
+    this.capabilities.set(name, { name, available: true });
+  }
+
+  markUnavailable(name: string, reason: string): void {
+    this.capabilities.set(name, { name, available: false, reason });
+  }
+
+  isAvailable(name: string): boolean {
+    return this.capabilities.get(name)?.available === true;
+  }
+
+  get(name: string): DetectorCapability {
+    return this.capabilities.get(name) || { name, available: false, reason: 'Detector has not been initialized' };
+  }
+
+  list(): DetectorCapability[] {
+    return Array.from(this.capabilities.values());
+  }
+}
+
+export interface WeightedSignal {
+  weight: number;
+  // null when the detector behind the signal did not run
+  score: number | null;
+}
+
+/**
+ * Weighted average over the signals that produced a score, with the missing signals' weight
+ * shared out proportionally. `coverage` is the share of the total weight that was available.
+ */
+export function renormalizedScore(signals: Record<string, WeightedSignal>): { score: number; coverage: number } {
+  const all = Object.values(signals);
+  const present = all.filter((signal): signal is { weight: number; score: number } => signal.score !== null);
+  const totalWeight = all.reduce((sum, signal) => sum + signal.weight, 0);
+  const presentWeight = present.reduce((sum, signal) => sum + signal.weight, 0);
+
+  if (presentWeight === 0) {
+    return { score: 0, coverage: 0 };
+  }
+  return {
+    score: present.reduce((sum, signal) => sum + signal.weight * signal.score, 0) / presentWeight,
+    coverage: presentWeight / totalWeight
+  };
+}
@@ -0,0 +1,119 @@
+import { tokenizeWords } from '../utils/language';
+
+export type ClaimSignal = 'number' | 'entity' | 'quote' | 'causal';
+
+export interface TextSpan {
+  text: string;
+  // Offsets into the article; article.slice(start, end) is the span's text
+  start: number;
+  end: number;
+}
+
+export interface ExtractedClaim extends TextSpan {
+  signals: ClaimSignal[];
+  // 0-1, how much the sentence looks like a checkable statement of fact
+  checkworthiness: number;
+}
+
+export interface ClaimExtractionOptions {
+  maxClaims?: number;
+  minWords?: number;
+}
+
+const SIGNAL_WEIGHTS: Record<ClaimSignal, number> = {
+  number: 0.35,
+  entity: 0.25,
+  causal: 0.25,
+  quote: 0.2
+};
+
+const DEFAULT_MAX_CLAIMS = 5;
+const DEFAULT_MIN_WORDS = 5;
+
+// A full stop after one of these does not end the sentence
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'vs', 'etc', 'inc', 'ltd', 'co', 'jr', 'sr', 'gen', 'gov', 'sen', 'rep',
+  'no', 'approx', 'dept', 'est', 'govt', 'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec'
+]);
+
+const NUMBER_WORDS = /\b(hundred|thousand|million|billion|trillion|lakh|crore|percent|per cent|dozen|half|twice|double|triple)\b|%/i;
+const CAUSAL = /\b(because|caused?|causes|causing|due to|leads? to|led to|results? in|resulted in|linked to|responsible for|as a result|kyunki|ki wajah se|ke karan)\b|क्योंकि|के कारण|की वजह से|इसलिए/i;
+const REPORTED_SPEECH = /\b(said|says|told|claimed|claims|stated|announced|according to|kaha)\b|ने कहा|के अनुसार|के मुताबिक/i;
+const QUOTED = /["“„«][^"“”„«»]{8,}["”»]/;
+// Capitalized words that do not name anything
+const NOT_ENTITIES = new Set(['I', 'I\'m', 'I\'ve', 'I\'ll', 'I\'d', 'A', 'An', 'The', 'This', 'That', 'It', 'We', 'They', 'He', 'She', 'You']);
+
+/**
+ * Splits text into sentences on terminal punctuation (including the Devanagari danda) and line
+ * breaks, keeping abbreviations like "Dr." and initials like "U.S." inside their sentence.
+ */
+export function splitSentences(text: string): TextSpan[] {
+  const sentences: TextSpan[] = [];
+  const boundary = /[.!?।]+["'”’)\]]*(?=\s|$)|\n+/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    if (match[0] === '.') {
+      const previousWord = /([\p{L}]+)$/u.exec(text.slice(start, match.index));
+      const word = previousWord ? previousWord[1] : '';
+      if (ABBREVIATIONS.has(word.toLowerCase()) || /^\p{Lu}$/u.test(word)) continue;
+    }
+    pushSentence(sentences, text, start, match.index + match[0].length);
+    start = match.index + match[0].length;
+  }
+  pushSentence(sentences, text, start, text.length);
+  return sentences;
+}
+
+function pushSentence(sentences: TextSpan[], text: string, start: number, end: number) {
+  const raw = text.slice(start, end);
+  const leading = raw.length - raw.trimStart().length;
+  const trimmed = raw.trim();
+  if (trimmed) {
+    sentences.push({ text: trimmed, start: start + leading, end: start + leading + trimmed.length });
+  }
+}
+
+// Capitalized words after the first, or acronyms anywhere; scripts without case have no signal
+function hasNamedEntity(sentence: string): boolean {
+  const words = sentence.split(/\s+/).map(word => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}'’]+$/gu, ''));
+  return words.some((word, index) =>
+    !NOT_ENTITIES.has(word) && (/^\p{Lu}{2,}$/u.test(word) || (index > 0 && /^\p{Lu}\p{Ll}+/u.test(word)))
+  );
+}
+
+export function claimSignals(sentence: string): ClaimSignal[] {
+  const signals: ClaimSignal[] = [];
+  if (/\p{Nd}/u.test(sentence) || NUMBER_WORDS.test(sentence)) signals.push('number');
+  if (hasNamedEntity(sentence)) signals.push('entity');
+  if (QUOTED.test(sentence) || REPORTED_SPEECH.test(sentence)) signals.push('quote');
+  if (CAUSAL.test(sentence)) signals.push('causal');
+  return signals;
+}
+
+/**
+ * Picks the sentences most worth fact-checking: statements (not questions) of a reasonable
+ * length that cite numbers, name people or organisations, quote someone or claim a cause. The
+ * highest scoring `maxClaims` are returned in the order they appear.
+ */
+export function extractClaims(text: string, options: ClaimExtractionOptions = {}): ExtractedClaim[] {
+  const maxClaims = options.maxClaims ?? DEFAULT_MAX_CLAIMS;
+  const minWords = options.minWords ?? DEFAULT_MIN_WORDS;
+
+  const candidates = splitSentences(text)
+    .filter(sentence => !/\?["'”’)\]]*$/.test(sentence.text) && tokenizeWords(sentence.text).length >= minWords)
+    .map(sentence => {
+      const signals = claimSignals(sentence.text);
+      const checkworthiness = Math.min(1, signals.reduce((sum, signal) => sum + SIGNAL_WEIGHTS[signal], 0));
+      return { ...sentence, signals, checkworthiness };
+    })
+    .filter(claim => claim.signals.length > 0);
+
+  return candidates
+    .map((claim, index) => ({ claim, index }))
+    .sort((a, b) => b.claim.checkworthiness - a.claim.checkworthiness || a.index - b.index)
+    .slice(0, maxClaims)
+    .sort((a, b) => a.index - b.index)
+    .map(({ claim }) => claim);
+}
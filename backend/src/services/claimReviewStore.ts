@@ -0,0 +1,301 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { editDistance } from '../utils/editDistance';
+import { isNegated, tokenizeWords } from '../utils/language';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+/**
+ * One schema.org ClaimReview, flattened to the fields fact-check lookups use.
+ */
+export interface ClaimReviewRecord {
+  // The review's own URL, which identifies it
+  url: string;
+  claim: string;
+  claimant?: string;
+  claimDate?: string;
+  title?: string;
+  publisher: { name: string; site: string };
+  reviewDate?: string;
+  rating: string;
+  // Primary language subtag, e.g. `en`
+  language?: string;
+}
+
+export interface ClaimReviewMatch {
+  record: ClaimReviewRecord;
+  // 0-1, mostly how much of the reviewed claim the query covers
+  score: number;
+}
+
+export interface ImportResult {
+  added: number;
+  skipped: number;
+}
+
+const CLAIM_REVIEW_PATH = process.env.CLAIM_REVIEW_PATH || './data/claim-reviews.jsonl';
+const DEFAULT_MIN_SCORE = 0.5;
+const DEFAULT_LIMIT = 5;
+// A query sentence is usually longer than the claim it repeats, so claim coverage counts most
+const CLAIM_COVERAGE_WEIGHT = 0.7;
+// Near-miss spellings ("vaccines" for "vaccine", typos) count for a bit less than exact words
+const FUZZY_MATCH_WEIGHT = 0.8;
+const FUZZY_MIN_LENGTH = 5;
+// A query that negates the reviewed claim (or vice versa) states the opposite, so its score is
+// scaled down below the default minimum however many words the two share
+const NEGATION_MISMATCH_WEIGHT = 0.4;
+
+// Negations carry no topic, so they are left out of the words and compared separately
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'as', 'is', 'are',
+  'was', 'were', 'be', 'been', 'it', 'its', 'this', 'that', 'these', 'those', 'has', 'have', 'had', 'will', 'would',
+  'can', 'could', 'says', 'said', 'claim', 'claims', 'there', 'their', 'they', 'he', 'she', 'his', 'her', 'not', 'no',
+  'है', 'हैं', 'था', 'थे', 'की', 'का', 'के', 'को', 'में', 'से', 'और', 'ने', 'पर', 'यह', 'कि'
+]);
+
+function contentWords(text: string): string[] {
+  return Array.from(new Set(tokenizeWords(text).filter(word => word.length > 1 && !STOPWORDS.has(word))));
+}
+
+function primaryLanguage(tag: string | undefined): string | undefined {
+  return tag ? tag.toLowerCase().split(/[-_]/)[0] : undefined;
+}
+
+function typeIncludes(node: Record<string, unknown>, type: string): boolean {
+  const value = node['@type'];
+  return value === type || (Array.isArray(value) && value.includes(type));
+}
+
+function firstNode(value: unknown): Record<string, unknown> | undefined {
+  const node = Array.isArray(value) ? value[0] : value;
+  return node && typeof node === 'object' ? node as Record<string, unknown> : undefined;
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function hostname(url: string | undefined): string | undefined {
+  try {
+    return url ? new URL(url).hostname.replace(/^www\./, '') : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Flattens a schema.org ClaimReview node, or returns null when it lacks a URL, the claim or
+ * a rating.
+ */
+export function toClaimReviewRecord(node: Record<string, unknown>): ClaimReviewRecord | null {
+  const url = text(node.url);
+  const itemReviewed = firstNode(node.itemReviewed);
+  const claim = text(node.claimReviewed) || text(itemReviewed?.name);
+  const reviewRating = firstNode(node.reviewRating);
+  const ratingValue = reviewRating?.ratingValue;
+  const rating = text(reviewRating?.alternateName) || text(reviewRating?.name) ||
+    (ratingValue !== undefined && reviewRating?.bestRating !== undefined
+      ? `${ratingValue}/${reviewRating.bestRating}`
+      : undefined);
+  if (!url || !claim || !rating) return null;
+
+  const author = firstNode(node.author);
+  const claimAuthor = itemReviewed ? itemReviewed.author : undefined;
+  const language = node.inLanguage;
+  return {
+    url,
+    claim,
+    claimant: text(claimAuthor) || text(firstNode(claimAuthor)?.name),
+    claimDate: text(itemReviewed?.datePublished),
+    title: text(node.name) || text(node.headline),
+    publisher: {
+      name: text(author?.name) || hostname(url) || 'Unknown',
+      site: hostname(text(author?.url)) || hostname(url) || ''
+    },
+    reviewDate: text(node.datePublished),
+    rating,
+    language: primaryLanguage(text(language) || text(firstNode(language)?.alternateName) || text(firstNode(language)?.name))
+  };
+}
+
+/**
+ * Reads ClaimReviews from a JSON-LD dump: a single node, an array, a `@graph`, a DataFeed (as in
+ * the Google and Data Commons fact-check feeds) or JSON lines. Nodes that are not ClaimReviews
+ * are searched for nested ones.
+ */
+export function parseClaimReviews(contents: string): { records: ClaimReviewRecord[]; skipped: number } {
+  let documents: unknown[];
+  try {
+    documents = [JSON.parse(contents)];
+  } catch {
+    documents = contents.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+  }
+
+  const records: ClaimReviewRecord[] = [];
+  let skipped = 0;
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      const node = value as Record<string, unknown>;
+      if (typeIncludes(node, 'ClaimReview')) {
+        const record = toClaimReviewRecord(node);
+        if (record) records.push(record);
+        else skipped++;
+        return;
+      }
+      Object.values(node).forEach(visit);
+    }
+  };
+  documents.forEach(visit);
+  return { records, skipped };
+}
+
+interface IndexedReview {
+  record: ClaimReviewRecord;
+  words: string[];
+  negated: boolean;
+}
+
+/**
+ * Local ClaimReview database, kept as an append-only JSONL file like the image index, so
+ * fact-checking works offline. Search finds reviews sharing content words with the query
+ * through an inverted index, then scores them with fuzzy word matching weighted by how rare
+ * each word is.
+ */
+export class ClaimReviewStore {
+  private reviews: IndexedReview[] = [];
+  private index = new Map<string, number[]>();
+  private keys = new Set<string>();
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string, private readonly minScore = DEFAULT_MIN_SCORE) {}
+
+  async size(): Promise<number> {
+    await this.load();
+    return this.reviews.length;
+  }
+
+  async search(query: string, options: { language?: string; limit?: number } = {}): Promise<ClaimReviewMatch[]> {
+    await this.load();
+    const language = primaryLanguage(options.language);
+    const queryWords = contentWords(query);
+    const queryNegated = isNegated(query);
+
+    const candidates = new Set<number>();
+    queryWords.forEach(word => (this.index.get(word) || []).forEach(position => candidates.add(position)));
+
+    return Array.from(candidates)
+      .map(position => this.reviews[position])
+      .filter(review => !language || !review.record.language || review.record.language === language)
+      .map(review => ({
+        record: review.record,
+        score: this.similarity(queryWords, review.words) * (review.negated === queryNegated ? 1 : NEGATION_MISMATCH_WEIGHT)
+      }))
+      .filter(match => match.score >= this.minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? DEFAULT_LIMIT);
+  }
+
+  /**
+   * Adds the reviews that are not stored yet (same URL and claim). Returns how many were added.
+   * Reviews only become searchable once they are written, so a failed write rejects and leaves
+   * the store as it was.
+   */
+  async add(records: ClaimReviewRecord[]): Promise<ImportResult> {
+    await this.load();
+    // Queued behind earlier writes, so concurrent imports see each other's reviews
+    const added = this.writeQueue.then(async () => {
+      const keys = new Set<string>();
+      const fresh = records.filter(record => {
+        const key = this.key(record);
+        if (this.keys.has(key) || keys.has(key)) return false;
+        keys.add(key);
+        return true;
+      });
+
+      if (fresh.length > 0) {
+        const lines = fresh.map(record => `${JSON.stringify(record)}\n`).join('');
+        await fs.appendFile(this.filePath, lines, 'utf8');
+      }
+      keys.forEach(key => this.keys.add(key));
+      fresh.forEach(record => this.indexRecord(record));
+      return { added: fresh.length, skipped: records.length - fresh.length };
+    });
+    this.writeQueue = added.then(() => undefined, () => undefined);
+    return added;
+  }
+
+  async importFile(file: string): Promise<ImportResult> {
+    const { records, skipped } = parseClaimReviews(await fs.readFile(file, 'utf8'));
+    const result = await this.add(records);
+    return { added: result.added, skipped: result.skipped + skipped };
+  }
+
+  private similarity(queryWords: string[], claimWords: string[]): number {
+    const weightOf = (word: string) => Math.log(1 + this.reviews.length / ((this.index.get(word) || []).length || 1));
+    const matchWeight = (word: string, others: string[]) => {
+      if (others.includes(word)) return 1;
+      const fuzzy = word.length >= FUZZY_MIN_LENGTH &&
+        others.some(other => other.length >= FUZZY_MIN_LENGTH && editDistance(word, other) <= 1);
+      return fuzzy ? FUZZY_MATCH_WEIGHT : 0;
+    };
+    const coverage = (words: string[], others: string[]) => {
+      const total = words.reduce((sum, word) => sum + weightOf(word), 0);
+      return total > 0 ? words.reduce((sum, word) => sum + weightOf(word) * matchWeight(word, others), 0) / total : 0;
+    };
+
+    return CLAIM_COVERAGE_WEIGHT * coverage(claimWords, queryWords) +
+      (1 - CLAIM_COVERAGE_WEIGHT) * coverage(queryWords, claimWords);
+  }
+
+  private key(record: ClaimReviewRecord): string {
+    return `${record.url}\n${record.claim}`;
+  }
+
+  private indexRecord(record: ClaimReviewRecord) {
+    const position = this.reviews.length;
+    const words = contentWords(record.claim);
+    this.reviews.push({ record, words, negated: isNegated(record.claim) });
+    words.forEach(word => {
+      const positions = this.index.get(word);
+      if (positions) positions.push(position);
+      else this.index.set(word, [position]);
+    });
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile();
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record: ClaimReviewRecord = JSON.parse(line);
+        this.keys.add(this.key(record));
+        this.indexRecord(record);
+      } catch {
+        // A crash mid-append can leave a truncated last line
+      }
+    }
+    logger.info(`Loaded ${this.reviews.length} claim reviews from ${this.filePath}`);
+  }
+}
+
+export const claimReviewStore = new ClaimReviewStore(CLAIM_REVIEW_PATH);
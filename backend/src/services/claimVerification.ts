@@ -0,0 +1,94 @@
+import { ExtractedClaim } from './claimExtractor';
+import { FactCheckClaim, factCheckService, FactCheckResult } from './factCheckService';
+import { Verdict, VERDICTS, verdictConsensus } from './verdicts';
+import { isNegated } from '../utils/language';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+export interface VerifiedClaim extends ExtractedClaim {
+  // UNPROVEN covers claims with no matching fact-check and ratings we cannot interpret
+  verdict: Verdict;
+  // 0 (false) to 1 (true), or null when the verdict is not on the truth scale
+  truth: number | null;
+  // Fact-checkers whose reviews were combined, and the share of them that reached the verdict
+  reviewCount: number;
+  agreement: number;
+  // Textual rating and publisher of a fact-check that reached the verdict
+  rating: string | null;
+  publisher: string | null;
+  factChecks: FactCheckClaim[];
+  // Reviews of the opposite statement, such as a debunked claim the sentence itself refutes.
+  // They are context only and take no part in the verdict.
+  relatedFactChecks: FactCheckClaim[];
+}
+
+export interface ClaimRollup {
+  checked: number;
+  rated: number;
+  verdicts: Record<Verdict, number>;
+  // How far the article's fake probability moves, from -0.2 (all claims true) to 0.4 (all false)
+  fakeShift: number;
+}
+
+export interface ClaimChecker {
+  verifyClaim(query: string, languageCode?: string): Promise<FactCheckResult>;
+}
+
+// Fake shift of a claim rated false and of one rated true; verdicts in between shift proportionally
+const FALSE_SHIFT = 0.4;
+const TRUE_SHIFT = -0.2;
+
+/**
+ * Queries the fact-check service for each claim on its own, so one article can carry verdicts
+ * on several claims. A claim whose lookup fails is left unverified, and so is one whose matching
+ * reviews all rate the negation of what the sentence says.
+ */
+export async function verifyClaims(
+  claims: ExtractedClaim[],
+  languageCode: string,
+  checker: ClaimChecker = factCheckService
+): Promise<VerifiedClaim[]> {
+  return Promise.all(claims.map(async claim => {
+    let result: FactCheckResult | null = null;
+    try {
+      result = await checker.verifyClaim(claim.text, languageCode);
+    } catch (error: unknown) {
+      logger.error('Fact-check lookup failed for claim:', error instanceof Error ? error.message : error);
+    }
+
+    const matches = result?.isVerifiable ? result.claims : [];
+    const negated = isNegated(claim.text);
+    const factChecks = matches.filter(match => isNegated(match.text) === negated);
+    const consensus = verdictConsensus(factChecks);
+    return {
+      ...claim,
+      verdict: consensus.verdict,
+      truth: consensus.truth,
+      reviewCount: consensus.reviews.length,
+      agreement: consensus.agreement,
+      rating: consensus.rating,
+      publisher: consensus.publisher,
+      factChecks,
+      relatedFactChecks: matches.filter(match => isNegated(match.text) !== negated)
+    };
+  }));
+}
+
+/**
+ * Combines per-claim verdicts into one shift of the article's fake probability: the mean shift
+ * of the claims whose verdict is on the truth scale, weighted by how check-worthy each claim is.
+ */
+export function rollUpVerdicts(claims: VerifiedClaim[]): ClaimRollup {
+  const verdicts = VERDICTS.reduce((counts, verdict) => ({ ...counts, [verdict]: 0 }), {} as Record<Verdict, number>);
+  claims.forEach(claim => verdicts[claim.verdict]++);
+
+  const rated = claims.filter((claim): claim is VerifiedClaim & { truth: number } => claim.truth !== null);
+  const totalWeight = rated.reduce((sum, claim) => sum + claim.checkworthiness, 0);
+  const shift = (truth: number) => FALSE_SHIFT + (TRUE_SHIFT - FALSE_SHIFT) * truth;
+  const fakeShift = totalWeight > 0
+    ? rated.reduce((sum, claim) => sum + shift(claim.truth) * claim.checkworthiness, 0) / totalWeight
+    : 0;
+
+  return { checked: claims.length, rated: rated.length, verdicts, fakeShift };
+}
@@ -0,0 +1,182 @@
+import { X509Certificate } from 'crypto';
+import { decodeCbor } from '../utils/cbor';
+import { ContentCredentialsSummary } from '../types/analysis';
+
+interface JumbfBox {
+  type: string;
+  label?: string;
+  children: JumbfBox[];
+  payload?: Buffer;
+}
+
+const JPEG_APP11 = 0xeb;
+const JPEG_START_OF_SCAN = 0xda;
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+// IPTC digital source types that mark fully or partly AI-generated media
+const AI_SOURCE_TYPE = /trainedAlgorithmicMedia|compositeWithTrainedAlgorithmicMedia|algorithmicMedia/i;
+
+/**
+ * JPEG stores the JUMBF manifest store in APP11 segments. Large stores span several segments
+ * that share a box instance number and repeat the 8-byte box header after the first packet.
+ */
+function extractJpegJumbf(image: Buffer): Buffer | null {
+  const packets: Buffer[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= image.length && image[offset] === 0xff) {
+    const marker = image[offset + 1];
+    if (marker === JPEG_START_OF_SCAN) break;
+    const length = image.readUInt16BE(offset + 2);
+    const segment = image.subarray(offset + 4, offset + 2 + length);
+
+    if (marker === JPEG_APP11 && segment.toString('latin1', 0, 2) === 'JP') {
+      const sequence = segment.readUInt32BE(4);
+      const payload = segment.subarray(8);
+      packets.push(sequence > 1 ? payload.subarray(8) : payload);
+    }
+    offset += 2 + length;
+  }
+
+  return packets.length > 0 ? Buffer.concat(packets) : null;
+}
+
+// PNG keeps the manifest store in a single caBX chunk
+function extractPngJumbf(image: Buffer): Buffer | null {
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= image.length) {
+    const length = image.readUInt32BE(offset);
+    const type = image.toString('latin1', offset + 4, offset + 8);
+    if (type === 'caBX') {
+      return image.subarray(offset + 8, offset + 8 + length);
+    }
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+  return null;
+}
+
+function parseBoxes(data: Buffer): JumbfBox[] {
+  const boxes: JumbfBox[] = [];
+  let offset = 0;
+
+  while (offset + 8 <= data.length) {
+    let length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    let headerLength = 8;
+    if (length === 1) {
+      length = Number(data.readBigUInt64BE(offset + 8));
+      headerLength = 16;
+    } else if (length === 0) {
+      length = data.length - offset;
+    }
+    if (length < headerLength || offset + length > data.length) {
+      throw new Error(`Malformed JUMBF box "${type}"`);
+    }
+
+    const content = data.subarray(offset + headerLength, offset + length);
+    if (type === 'jumb') {
+      const [description, ...children] = parseBoxes(content);
+      boxes.push({ type, label: description?.label, children });
+    } else if (type === 'jumd') {
+      // 16-byte content type UUID, a toggles byte, then the label when toggle bit 1 is set
+      const toggles = content[16];
+      const labelEnd = content.indexOf(0, 17);
+      const label = toggles & 0x02 ? content.toString('utf8', 17, labelEnd === -1 ? content.length : labelEnd) : undefined;
+      boxes.push({ type, label, children: [] });
+    } else {
+      boxes.push({ type, children: [], payload: content });
+    }
+    offset += length;
+  }
+
+  return boxes;
+}
+
+function child(box: JumbfBox | undefined, label: string): JumbfBox | undefined {
+  return box?.children.find(candidate => candidate.label === label || candidate.label?.startsWith(`${label}.v`));
+}
+
+function contentOf(box: JumbfBox | undefined): unknown {
+  const content = box?.children.find(candidate => candidate.payload);
+  if (!content?.payload) return undefined;
+  if (content.type === 'cbor') return decodeCbor(content.payload);
+  if (content.type === 'json') return JSON.parse(content.payload.toString('utf8'));
+  return undefined;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function agentName(agent: unknown): string | undefined {
+  if (typeof agent === 'string') return agent;
+  const name = asRecord(agent).name;
+  return typeof name === 'string' ? name : undefined;
+}
+
+// COSE_Sign1 is [protected, unprotected, payload, signature]; x5chain (label 33) holds the signing certificate
+function signerOf(signatureBox: JumbfBox | undefined): string | undefined {
+  const sign1 = contentOf(signatureBox);
+  if (!Array.isArray(sign1)) return undefined;
+
+  const [protectedHeader, unprotectedHeader] = sign1;
+  const headers = [
+    Buffer.isBuffer(protectedHeader) && protectedHeader.length > 0 ? asRecord(decodeCbor(protectedHeader)) : {},
+    asRecord(unprotectedHeader)
+  ];
+  const chain = headers.map(header => header['33']).find(Boolean);
+  const leaf = Array.isArray(chain) ? chain[0] : chain;
+  if (!Buffer.isBuffer(leaf)) return undefined;
+
+  try {
+    const subject = new X509Certificate(leaf).subject;
+    const field = (name: string) => subject.split('\n').find(line => line.startsWith(`${name}=`))?.slice(name.length + 1);
+    return field('O') || field('CN');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the C2PA (Content Credentials) manifest store embedded in a JPEG or PNG and summarizes
+ * its active manifest. Returns null when the image carries no manifest store. The claim signature
+ * is not cryptographically validated, so the signer is informational only.
+ */
+export function readContentCredentials(image: Buffer): ContentCredentialsSummary | null {
+  const isJpeg = image[0] === 0xff && image[1] === 0xd8;
+  const isPng = image.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE);
+  const jumbf = isJpeg ? extractJpegJumbf(image) : isPng ? extractPngJumbf(image) : null;
+  if (!jumbf) return null;
+
+  const store = parseBoxes(jumbf).find(box => box.type === 'jumb' && box.label === 'c2pa');
+  if (!store || store.children.length === 0) return null;
+
+  // The last manifest in the store is the active one
+  const manifest = store.children[store.children.length - 1];
+  const claim = asRecord(contentOf(child(manifest, 'c2pa.claim')));
+  const assertions = child(manifest, 'c2pa.assertions');
+
+  const actionEntries = (assertions?.children || [])
+    .filter(box => box.label?.startsWith('c2pa.actions'))
+    .flatMap(box => {
+      const actions = asRecord(contentOf(box)).actions;
+      return Array.isArray(actions) ? actions.map(asRecord) : [];
+    });
+
+  const generatorInfo = Array.isArray(claim.claim_generator_info)
+    ? claim.claim_generator_info[0]
+    : claim.claim_generator_info;
+
+  return {
+    manifestCount: store.children.length,
+    activeManifest: manifest.label || '',
+    claimGenerator: typeof claim.claim_generator === 'string' ? claim.claim_generator : agentName(generatorInfo),
+    title: typeof claim['dc:title'] === 'string' ? claim['dc:title'] : undefined,
+    signer: signerOf(child(manifest, 'c2pa.signature')),
+    actions: actionEntries.map(entry => String(entry.action)).filter(action => action !== 'undefined'),
+    softwareAgents: Array.from(new Set(
+      actionEntries.map(entry => agentName(entry.softwareAgent)).filter((agent): agent is string => !!agent)
+    )),
+    generatedByAI: actionEntries.some(entry => AI_SOURCE_TYPE.test(String(entry.digitalSourceType || '')))
+  };
+}
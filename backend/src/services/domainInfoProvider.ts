@@ -0,0 +1,243 @@
+import axios from 'axios';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { contentKey, createCache, TtlCache } from '../utils/cache';
+import { parseCsv } from '../utils/csv';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+export interface DomainRegistration {
+  domain: string;
+  registrationDate?: string;
+  lastUpdated?: string;
+  expirationDate?: string;
+  registrar?: string;
+  owner?: string;
+  // Name of the provider that supplied the record
+  source: string;
+}
+
+/**
+ * Looks up registration data for a registrable domain. Implementations return null when
+ * they have no record for the domain and throw only on unexpected failures.
+ */
+export interface DomainInfoProvider {
+  readonly name: string;
+  lookup(domain: string): Promise<DomainRegistration | null>;
+}
+
+const RDAP_TIMEOUT = 8000;
+// RDAP records are a few kilobytes; a server sending more is not answering the query
+const RDAP_MAX_BYTES = 1024 * 1024;
+const RDAP_CACHE_TTL = 24 * 60 * 60 * 1000;
+// Misses are retried sooner in case the registry was only briefly unavailable
+const RDAP_MISS_TTL = 60 * 60 * 1000;
+
+const rdapCache = createCache<DomainRegistration | null>('domainInfo', RDAP_CACHE_TTL);
+
+function toIsoDate(value: unknown): string | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+interface RdapEvent {
+  eventAction?: string;
+  eventDate?: string;
+}
+
+interface RdapEntity {
+  roles?: string[];
+  vcardArray?: [string, [string, unknown, string, unknown][]];
+  entities?: RdapEntity[];
+}
+
+interface RdapDomainResponse {
+  events?: RdapEvent[];
+  entities?: RdapEntity[];
+}
+
+// vCard entries are [name, params, type, value]; registries often redact the registrant's name but keep the org
+function vcardName(entity: RdapEntity): string | undefined {
+  const entries = entity.vcardArray?.[1] || [];
+  for (const field of ['org', 'fn']) {
+    const raw = entries.find(([name]) => name === field)?.[3];
+    const value = Array.isArray(raw) ? raw.join(' ') : raw;
+    if (typeof value === 'string' && value.trim() && !/redacted/i.test(value)) {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+function findEntity(entities: RdapEntity[] | undefined, role: string): RdapEntity | undefined {
+  for (const entity of entities || []) {
+    if (entity.roles?.includes(role)) return entity;
+    const nested = findEntity(entity.entities, role);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+/**
+ * Queries an RDAP server (the JSON successor to WHOIS). The default base URL is the rdap.org
+ * bootstrap service, which redirects to the registry responsible for the domain's TLD.
+ */
+export class RdapDomainInfoProvider implements DomainInfoProvider {
+  readonly name = 'rdap';
+
+  constructor(
+    private readonly baseUrl: string = 'https://rdap.org',
+    private readonly cache: TtlCache<DomainRegistration | null> = rdapCache
+  ) {}
+
+  async lookup(domain: string): Promise<DomainRegistration | null> {
+    const baseUrl = this.baseUrl.replace(/\/$/, '');
+    return this.cache.getOrCompute(contentKey(baseUrl, domain), async () => {
+      const response = await axios.get(`${baseUrl}/domain/${encodeURIComponent(domain)}`, {
+        headers: { Accept: 'application/rdap+json, application/json' },
+        timeout: RDAP_TIMEOUT,
+        maxContentLength: RDAP_MAX_BYTES,
+        validateStatus: (status: number) => status === 200 || status === 404
+      });
+      return response.status === 404 ? null : this.parse(domain, response.data as RdapDomainResponse);
+    }, value => (value ? RDAP_CACHE_TTL : RDAP_MISS_TTL));
+  }
+
+  private parse(domain: string, data: RdapDomainResponse): DomainRegistration {
+    const eventDate = (action: string) =>
+      toIsoDate(data.events?.find(event => event.eventAction === action)?.eventDate);
+    const registrar = findEntity(data.entities, 'registrar');
+    const registrant = findEntity(data.entities, 'registrant');
+
+    return {
+      domain,
+      registrationDate: eventDate('registration'),
+      lastUpdated: eventDate('last changed'),
+      expirationDate: eventDate('expiration'),
+      registrar: registrar ? vcardName(registrar) : undefined,
+      owner: registrant ? vcardName(registrant) : undefined,
+      source: this.name
+    };
+  }
+}
+
+/**
+ * Serves registration data from a local snapshot so verification works offline. The file is either
+ * JSON (an array of records, or an object keyed by domain) or CSV with a header row naming the
+ * columns `domain`, `registrationDate`, `lastUpdated`, `expirationDate`, `registrar` and `owner`.
+ */
+export class SnapshotDomainInfoProvider implements DomainInfoProvider {
+  readonly name = 'snapshot';
+  private records: Promise<Map<string, DomainRegistration>> | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  async lookup(domain: string): Promise<DomainRegistration | null> {
+    const records = await this.load();
+    return records.get(domain) || null;
+  }
+
+  private load(): Promise<Map<string, DomainRegistration>> {
+    if (!this.records) {
+      this.records = this.readFile();
+    }
+    return this.records;
+  }
+
+  private async readFile(): Promise<Map<string, DomainRegistration>> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        logger.info(`No domain snapshot at ${this.filePath}; snapshot lookups will return no data`);
+        return new Map();
+      }
+      throw error;
+    }
+
+    const rows: Record<string, unknown>[] = path.extname(this.filePath).toLowerCase() === '.csv'
+      ? parseCsv(contents)
+      : this.parseJson(contents);
+
+    const records = new Map<string, DomainRegistration>();
+    for (const row of rows) {
+      const domain = typeof row.domain === 'string' ? row.domain.trim().toLowerCase() : '';
+      if (!domain) continue;
+
+      const text = (key: string) => typeof row[key] === 'string' && row[key] ? String(row[key]) : undefined;
+      records.set(domain, {
+        domain,
+        registrationDate: toIsoDate(row.registrationDate),
+        lastUpdated: toIsoDate(row.lastUpdated),
+        expirationDate: toIsoDate(row.expirationDate),
+        registrar: text('registrar'),
+        owner: text('owner'),
+        source: this.name
+      });
+    }
+
+    logger.info(`Loaded ${records.size} domain records from ${this.filePath}`);
+    return records;
+  }
+
+  private parseJson(contents: string): Record<string, unknown>[] {
+    const data = JSON.parse(contents);
+    if (Array.isArray(data)) return data;
+    if (data && typeof data === 'object') {
+      return Object.entries(data).map(([domain, record]) => ({ domain, ...(record as object) }));
+    }
+    throw new Error(`Domain snapshot ${this.filePath} must be a JSON array or object`);
+  }
+}
+
+/**
+ * Tries each provider in order and returns the first record found. A provider that fails
+ * (e.g. RDAP while offline) is logged and skipped.
+ */
+export class ChainedDomainInfoProvider implements DomainInfoProvider {
+  readonly name: string;
+
+  constructor(private readonly providers: DomainInfoProvider[]) {
+    this.name = providers.map(provider => provider.name).join(',');
+  }
+
+  async lookup(domain: string): Promise<DomainRegistration | null> {
+    for (const provider of this.providers) {
+      try {
+        const record = await provider.lookup(domain);
+        if (record) return record;
+      } catch (error: unknown) {
+        logger.warn(`Domain lookup via ${provider.name} failed for ${domain}:`,
+          error instanceof Error ? error.message : error);
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Builds the provider chain from DOMAIN_INFO_PROVIDERS (comma-separated, default `snapshot,rdap`).
+ * Set it to `snapshot` to run fully offline.
+ */
+export function createDomainInfoProvider(): DomainInfoProvider {
+  const names = (process.env.DOMAIN_INFO_PROVIDERS || 'snapshot,rdap')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers = names.map((name): DomainInfoProvider => {
+    switch (name) {
+      case 'rdap':
+        return new RdapDomainInfoProvider(process.env.RDAP_BASE_URL);
+      case 'snapshot':
+        return new SnapshotDomainInfoProvider(process.env.DOMAIN_SNAPSHOT_PATH || './data/domain-snapshot.json');
+      default:
+        throw new Error(`Unknown domain info provider: ${name}`);
+    }
+  });
+
+  return new ChainedDomainInfoProvider(providers);
+}
@@ -0,0 +1,178 @@
+import sharp from 'sharp';
+
+export interface ErrorLevelAnalysis {
+  // 0-1 likelihood that part of the image was compressed differently from the rest
+  score: number;
+  // JPEG quality the image was recompressed at
+  quality: number;
+  meanError: number;
+  maxError: number;
+  // Share of blocks whose error level, for their amount of detail, stands out from the rest of the image
+  outlierBlockRatio: number;
+  // PNG heatmap of the error levels, brightest where the recompression changed the most
+  heatmap: Buffer;
+}
+
+export interface ErrorLevelOptions {
+  quality?: number;
+  blockSize?: number;
+  heatmapMaxSize?: number;
+  maxInputPixels?: number;
+  maxAnalysisPixels?: number;
+}
+
+const DEFAULT_QUALITY = 90;
+const DEFAULT_BLOCK_SIZE = 16;
+const DEFAULT_HEATMAP_MAX_SIZE = 512;
+// Images claiming more pixels than this are refused before decoding (decompression bombs)
+const MAX_INPUT_PIXELS = 100_000_000;
+// Larger images are scaled down before the raw decode, which holds several full-size buffers
+const MAX_ANALYSIS_PIXELS = 24_000_000;
+// Detailed areas always change more on recompression than smooth ones, so a block's error is taken
+// relative to its detail (mean gradient) plus this floor, which keeps flat areas from dividing by ~0
+const DETAIL_FLOOR = 8;
+// Blocks flatter than this (sky, studio backdrops) barely change and are left out of the median
+// the others are compared with, since they would pull it towards 0
+const MIN_REFERENCE_DETAIL = 2;
+// A block is an outlier when its relative error is this many times that median
+const OUTLIER_FACTOR = 2;
+// ...and its mean error clears this absolute level, so near-lossless images do not turn noise into outliers
+const MIN_OUTLIER_ERROR = 0.5;
+// An outlier share of this size (a pasted region covering a tenth of the image) scores 1
+const FULL_SCORE_OUTLIER_RATIO = 0.1;
+
+async function decodeRgb(
+  input: Buffer,
+  maxInputPixels = MAX_INPUT_PIXELS,
+  maxAnalysisPixels = MAX_ANALYSIS_PIXELS
+): Promise<{ data: Buffer; width: number; height: number }> {
+  const { width = 0, height = 0 } = await sharp(input, { limitInputPixels: maxInputPixels }).metadata();
+  const scale = Math.min(1, Math.sqrt(maxAnalysisPixels / Math.max(1, width * height)));
+  // Fitting inside a square keeps the scale the same whichever way EXIF orientation turns the image
+  const side = Math.floor(Math.max(width, height) * scale);
+  const image = sharp(input, { limitInputPixels: maxInputPixels }).rotate();
+  if (scale < 1) {
+    image.resize({ width: side, height: side, fit: 'inside' });
+  }
+  const { data, info } = await image
+    .removeAlpha()
+    .toColourspace('srgb')
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Black -> red -> yellow -> white, the usual ELA palette
+function heatColor(value: number): [number, number, number] {
+  const scaled = value * 3;
+  return [
+    Math.min(255, scaled),
+    Math.max(0, Math.min(255, scaled - 255)),
+    Math.max(0, Math.min(255, scaled - 510))
+  ];
+}
+
+/**
+ * Error Level Analysis: recompresses the image as JPEG at a known quality and measures how much
+ * each pixel changes. Regions that were edited or pasted in after the last save usually recompress
+ * differently from the rest of the image and stand out as bright blocks in the heatmap.
+ *
+ * The score is a heuristic, not a verdict: it rises with the share of blocks whose error level,
+ * for the amount of detail in the block, is well above the image's median. Textured areas of an
+ * unedited photo change more than its sky, but not more than their detail accounts for.
+ *
+ * Images over MAX_ANALYSIS_PIXELS are scaled down first, which weakens the trace of their original
+ * compression; images claiming over MAX_INPUT_PIXELS are rejected without being decoded.
+ */
+export async function performErrorLevelAnalysis(
+  imageBuffer: Buffer,
+  options: ErrorLevelOptions = {}
+): Promise<ErrorLevelAnalysis> {
+  const quality = options.quality ?? DEFAULT_QUALITY;
+  const blockSize = options.blockSize ?? DEFAULT_BLOCK_SIZE;
+
+  const original = await decodeRgb(imageBuffer, options.maxInputPixels, options.maxAnalysisPixels);
+  const { width, height } = original;
+  const recompressed = await decodeRgb(
+    await sharp(original.data, { raw: { width, height, channels: 3 } }).jpeg({ quality }).toBuffer()
+  );
+
+  // Per-pixel error is the largest channel difference; detail is the largest difference to the
+  // right and lower neighbours in the original
+  const errors = new Uint8Array(width * height);
+  const detail = new Uint8Array(width * height);
+  let maxError = 0;
+  let totalError = 0;
+  for (let pixel = 0; pixel < errors.length; pixel++) {
+    const offset = pixel * 3;
+    const error = Math.max(
+      Math.abs(original.data[offset] - recompressed.data[offset]),
+      Math.abs(original.data[offset + 1] - recompressed.data[offset + 1]),
+      Math.abs(original.data[offset + 2] - recompressed.data[offset + 2])
+    );
+    errors[pixel] = error;
+    const right = pixel % width < width - 1 ? offset + 3 : offset;
+    const below = pixel < (height - 1) * width ? offset + width * 3 : offset;
+    let gradient = 0;
+    for (let channel = 0; channel < 3; channel++) {
+      const value = original.data[offset + channel];
+      gradient = Math.max(gradient,
+        Math.abs(value - original.data[right + channel]), Math.abs(value - original.data[below + channel]));
+    }
+    detail[pixel] = gradient;
+    totalError += error;
+    if (error > maxError) maxError = error;
+  }
+
+  const blocks: { error: number; detail: number; relativeError: number }[] = [];
+  for (let top = 0; top < height; top += blockSize) {
+    for (let left = 0; left < width; left += blockSize) {
+      const bottom = Math.min(top + blockSize, height);
+      const right = Math.min(left + blockSize, width);
+      let errorSum = 0;
+      let detailSum = 0;
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+          errorSum += errors[y * width + x];
+          detailSum += detail[y * width + x];
+        }
+      }
+      const pixelCount = (bottom - top) * (right - left);
+      const error = errorSum / pixelCount;
+      const blockDetail = detailSum / pixelCount;
+      blocks.push({ error, detail: blockDetail, relativeError: error / (blockDetail + DETAIL_FLOOR) });
+    }
+  }
+
+  const detailed = blocks.filter(block => block.detail >= MIN_REFERENCE_DETAIL);
+  const reference = median((detailed.length > 0 ? detailed : blocks).map(block => block.relativeError));
+  const outlierBlockRatio = blocks
+    .filter(block => block.relativeError > reference * OUTLIER_FACTOR && block.error > MIN_OUTLIER_ERROR).length / blocks.length;
+
+  // Scale so the strongest error is fully bright, as ELA viewers do
+  const brightness = maxError > 0 ? 255 / maxError : 0;
+  const pixels = Buffer.alloc(width * height * 3);
+  errors.forEach((error, pixel) => {
+    pixels.set(heatColor(error * brightness), pixel * 3);
+  });
+  const heatmapMaxSize = options.heatmapMaxSize ?? DEFAULT_HEATMAP_MAX_SIZE;
+  const heatmap = await sharp(pixels, { raw: { width, height, channels: 3 } })
+    .resize({ width: heatmapMaxSize, height: heatmapMaxSize, fit: 'inside', withoutEnlargement: true })
+    .png()
+    .toBuffer();
+
+  return {
+    score: Math.round(Math.min(1, outlierBlockRatio / FULL_SCORE_OUTLIER_RATIO) * 1000) / 1000,
+    quality,
+    meanError: Math.round((totalError / errors.length) * 1000) / 1000,
+    maxError,
+    outlierBlockRatio: Math.round(outlierBlockRatio * 1000) / 1000,
+    heatmap
+  };
+}
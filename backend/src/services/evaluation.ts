@@ -0,0 +1,237 @@
+import { classificationMetrics, ClassifierMetrics, LabeledText, NewsLabel } from './textClassifier';
+
+/**
+ * An analyzer under evaluation, reduced to the probability it gives that a text is fake.
+ */
+export interface EvaluatedAnalyzer {
+  name: string;
+  initialize?(): Promise<void>;
+  scoreText(text: string): Promise<number>;
+}
+
+// FAKE is the positive class
+export interface ConfusionMatrix {
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  fractionFake: number;
+}
+
+export interface AnalyzerEvaluation {
+  analyzer: string;
+  status: 'evaluated' | 'skipped';
+  // Why a skipped analyzer could not run
+  reason?: string;
+  metrics?: ClassifierMetrics;
+  confusionMatrix?: ConfusionMatrix;
+  // null when the dataset has only one class
+  rocAuc?: number | null;
+  calibration?: CalibrationBin[];
+  // Ids (or row numbers) of the examples the analyzer got wrong
+  misclassified?: string[];
+}
+
+export interface EvaluationReport {
+  dataset: string;
+  generatedAt: string;
+  examples: number;
+  analyzers: AnalyzerEvaluation[];
+}
+
+export interface BaselineEntry {
+  accuracy: number;
+  f1: number;
+  rocAuc: number | null;
+}
+
+export interface EvaluationBaseline {
+  dataset: string;
+  analyzers: Record<string, BaselineEntry>;
+}
+
+export type BaselineMetric = keyof BaselineEntry;
+
+export interface MetricChange {
+  metric: BaselineMetric;
+  baseline: number;
+  // null when the analyzer was skipped, or ROC-AUC could not be computed
+  value: number | null;
+  delta: number | null;
+  regressed: boolean;
+}
+
+export interface BaselineComparison {
+  analyzer: string;
+  // false when the analyzer was skipped in this run
+  evaluated: boolean;
+  changes: MetricChange[];
+  regressed: boolean;
+}
+
+export function confusionMatrix(scores: number[], labels: NewsLabel[], threshold = 0.5): ConfusionMatrix {
+  const matrix = { truePositives: 0, falsePositives: 0, trueNegatives: 0, falseNegatives: 0 };
+  scores.forEach((score, index) => {
+    const predictedFake = score > threshold;
+    const actualFake = labels[index] === 'FAKE';
+    if (predictedFake && actualFake) matrix.truePositives++;
+    else if (predictedFake) matrix.falsePositives++;
+    else if (actualFake) matrix.falseNegatives++;
+    else matrix.trueNegatives++;
+  });
+  return matrix;
+}
+
+/**
+ * Area under the ROC curve from the rank-sum statistic, with tied scores sharing their
+ * average rank.
+ */
+export function rocAuc(scores: number[], labels: NewsLabel[]): number | null {
+  const positives = labels.filter(label => label === 'FAKE').length;
+  const negatives = labels.length - positives;
+  if (positives === 0 || negatives === 0) return null;
+
+  const order = scores.map((score, index) => ({ score, index })).sort((a, b) => a.score - b.score);
+  const ranks = new Array<number>(scores.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].score === order[start].score) end++;
+    const averageRank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) ranks[order[i].index] = averageRank;
+    start = end + 1;
+  }
+
+  const positiveRankSum = labels.reduce((sum, label, index) => sum + (label === 'FAKE' ? ranks[index] : 0), 0);
+  return (positiveRankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+/**
+ * Reliability curve over equal-width score bins: for a calibrated analyzer the share of fake
+ * examples in each bin matches the mean score. Empty bins are left out.
+ */
+export function calibrationCurve(scores: number[], labels: NewsLabel[], bins = 10): CalibrationBin[] {
+  const totals = Array.from({ length: bins }, () => ({ count: 0, scoreSum: 0, fakeCount: 0 }));
+  scores.forEach((score, index) => {
+    const bin = totals[Math.min(bins - 1, Math.max(0, Math.floor(score * bins)))];
+    bin.count++;
+    bin.scoreSum += score;
+    if (labels[index] === 'FAKE') bin.fakeCount++;
+  });
+
+  return totals
+    .map((bin, index) => ({
+      lower: index / bins,
+      upper: (index + 1) / bins,
+      count: bin.count,
+      meanPredicted: bin.count > 0 ? bin.scoreSum / bin.count : 0,
+      fractionFake: bin.count > 0 ? bin.fakeCount / bin.count : 0
+    }))
+    .filter(bin => bin.count > 0);
+}
+
+/**
+ * Scores every example with the analyzer. An analyzer that cannot initialize or score (a
+ * missing model, say) is reported as skipped rather than failing the whole evaluation.
+ */
+export async function evaluateAnalyzer(analyzer: EvaluatedAnalyzer, dataset: LabeledText[]): Promise<AnalyzerEvaluation> {
+  const scores: number[] = [];
+  try {
+    await analyzer.initialize?.();
+    for (const example of dataset) {
+      scores.push(await analyzer.scoreText(example.text));
+    }
+  } catch (error: unknown) {
+    return {
+      analyzer: analyzer.name,
+      status: 'skipped',
+      reason: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+
+  const labels = dataset.map(example => example.label);
+  const misclassified: string[] = [];
+  dataset.forEach((example, index) => {
+    if ((scores[index] > 0.5) !== (example.label === 'FAKE')) misclassified.push(example.id || `row ${index + 1}`);
+  });
+
+  return {
+    analyzer: analyzer.name,
+    status: 'evaluated',
+    metrics: classificationMetrics(scores, labels),
+    confusionMatrix: confusionMatrix(scores, labels),
+    rocAuc: rocAuc(scores, labels),
+    calibration: calibrationCurve(scores, labels),
+    misclassified
+  };
+}
+
+export async function evaluate(
+  datasetName: string,
+  dataset: LabeledText[],
+  analyzers: EvaluatedAnalyzer[]
+): Promise<EvaluationReport> {
+  const evaluations: AnalyzerEvaluation[] = [];
+  // One at a time, since the models share the CPU
+  for (const analyzer of analyzers) {
+    evaluations.push(await evaluateAnalyzer(analyzer, dataset));
+  }
+  return { dataset: datasetName, generatedAt: new Date().toISOString(), examples: dataset.length, analyzers: evaluations };
+}
+
+export function toBaseline(report: EvaluationReport): EvaluationBaseline {
+  const analyzers: Record<string, BaselineEntry> = {};
+  report.analyzers.forEach(evaluation => {
+    if (evaluation.status !== 'evaluated' || !evaluation.metrics) return;
+    analyzers[evaluation.analyzer] = {
+      accuracy: evaluation.metrics.accuracy,
+      f1: evaluation.metrics.f1,
+      rocAuc: evaluation.rocAuc ?? null
+    };
+  });
+  return { dataset: report.dataset, analyzers };
+}
+
+/**
+ * Compares accuracy, F1 and ROC-AUC with the baseline for every analyzer it lists. A drop in any
+ * of them larger than `tolerance` is a regression, and so is skipping an analyzer the baseline
+ * has results for: a missing model must not pass the gate unnoticed.
+ */
+export function compareWithBaseline(
+  report: EvaluationReport,
+  baseline: EvaluationBaseline,
+  tolerance = 0.001
+): BaselineComparison[] {
+  if (baseline.dataset !== report.dataset) {
+    throw new Error(`Baseline is for dataset ${baseline.dataset}, not ${report.dataset}`);
+  }
+
+  return Object.entries(baseline.analyzers).map(([analyzer, entry]) => {
+    const evaluation = report.analyzers.find(candidate => candidate.analyzer === analyzer);
+    const current = evaluation?.status === 'evaluated' && evaluation.metrics
+      ? { accuracy: evaluation.metrics.accuracy, f1: evaluation.metrics.f1, rocAuc: evaluation.rocAuc ?? null }
+      : null;
+
+    const changes: MetricChange[] = [];
+    (['accuracy', 'f1', 'rocAuc'] as BaselineMetric[]).forEach(metric => {
+      const recorded = entry[metric];
+      if (recorded === null || recorded === undefined) return;
+      const value = current ? current[metric] : null;
+      const delta = value === null ? null : value - recorded;
+      changes.push({ metric, baseline: recorded, value, delta, regressed: delta === null || delta < -tolerance });
+    });
+
+    return {
+      analyzer,
+      evaluated: current !== null,
+      changes,
+      regressed: current === null || changes.some(change => change.regressed)
+    };
+  });
+}
@@ -0,0 +1,100 @@
+import axios from 'axios';
+import { claimReviewStore, ClaimReviewRecord, ClaimReviewStore } from './claimReviewStore';
+import { FactCheckClaim, FactCheckResponse } from './factCheckService';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+/**
+ * Finds published fact-checks of a claim. Implementations return the matching reviews, best
+ * first, or an empty array when there are none, and throw only on unexpected failures.
+ */
+export interface FactCheckProvider {
+  readonly name: string;
+  search(query: string, languageCode: string): Promise<FactCheckClaim[]>;
+}
+
+const GOOGLE_API_URL = 'https://factchecktools.googleapis.com/v1alpha1/claims:search';
+const GOOGLE_PAGE_SIZE = 5;
+// A stalled request would otherwise hold up the analysis waiting on this claim
+const GOOGLE_TIMEOUT = 5000;
+
+export class GoogleFactCheckProvider implements FactCheckProvider {
+  readonly name = 'google';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly apiUrl = GOOGLE_API_URL,
+    private readonly timeoutMs = GOOGLE_TIMEOUT
+  ) {}
+
+  async search(query: string, languageCode: string): Promise<FactCheckClaim[]> {
+    const response = await axios.get<FactCheckResponse>(this.apiUrl, {
+      params: {
+        query,
+        key: this.apiKey,
+        languageCode,
+        pageSize: GOOGLE_PAGE_SIZE
+      },
+      timeout: this.timeoutMs
+    });
+    return response.data.claims || [];
+  }
+}
+
+export function toFactCheckClaim(record: ClaimReviewRecord): FactCheckClaim {
+  return {
+    text: record.claim,
+    claimant: record.claimant || '',
+    claimDate: record.claimDate || '',
+    claimReview: [{
+      publisher: record.publisher,
+      url: record.url,
+      title: record.title || '',
+      reviewDate: record.reviewDate || '',
+      textualRating: record.rating,
+      languageCode: record.language || ''
+    }]
+  };
+}
+
+// Searches the local ClaimReview database imported with `npm run import-claim-reviews`
+export class LocalFactCheckProvider implements FactCheckProvider {
+  readonly name = 'local';
+
+  constructor(private readonly store: ClaimReviewStore = claimReviewStore) {}
+
+  async search(query: string, languageCode: string): Promise<FactCheckClaim[]> {
+    const matches = await this.store.search(query, { language: languageCode });
+    return matches.map(match => toFactCheckClaim(match.record));
+  }
+}
+
+/**
+ * Builds the providers named in FACT_CHECK_PROVIDERS (comma-separated, default `local,google`),
+ * in the order they are tried. The Google provider is left out when FACT_CHECK_API_KEY is unset,
+ * so `local` alone works offline.
+ */
+export function createFactCheckProviders(): FactCheckProvider[] {
+  const names = (process.env.FACT_CHECK_PROVIDERS || 'local,google')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return names.reduce<FactCheckProvider[]>((providers, name) => {
+    switch (name) {
+      case 'google':
+        if (process.env.FACT_CHECK_API_KEY) {
+          providers.push(new GoogleFactCheckProvider(process.env.FACT_CHECK_API_KEY));
+        } else {
+          logger.warn('FACT_CHECK_API_KEY is not set. Skipping the Google fact-check provider.');
+        }
+        return providers;
+      case 'local':
+        providers.push(new LocalFactCheckProvider());
+        return providers;
+      default:
+        throw new Error(`Unknown fact-check provider: ${name}`);
+    }
+  }, []);
+}
@@ -1,10 +1,14 @@
 import axios from 'axios';
+import { createFactCheckProviders, FactCheckProvider } from './factCheckProviders';
+import { Verdict, verdictConsensus } from './verdicts';
+import { contentKey, createCache, TtlCache } from '../utils/cache';
 import { setupLogger } from '../utils/logger';
 
 const logger = setupLogger();
 
-const API_KEY = process.env.FACT_CHECK_API_KEY;
-const API_URL = 'https://factchecktools.googleapis.com/v1alpha1/claims:search';
+const FACT_CHECK_CACHE_TTL = 24 * 60 * 60 * 1000;
+// Claims nobody had reviewed may get a review soon, so misses are cached for less time
+const FACT_CHECK_MISS_TTL = 60 * 60 * 1000;
 
 export interface FactCheckClaim {
   text: string;
@@ -31,56 +35,87 @@ export interface FactCheckResponse {
 export interface FactCheckResult {
   isVerifiable: boolean;
   rating: string | null;
+  // Consensus of the reviews of all matched claims
+  verdict?: Verdict;
   claims: FactCheckClaim[];
+  // Provider the claims came from
+  provider?: string;
   error?: string;
 }
 
-class FactCheckService {
-  async verifyClaim(query: string): Promise<FactCheckResult> {
-    if (!API_KEY) {
-      logger.warn('FACT_CHECK_API_KEY is not set. Skipping fact check.');
+/**
+ * Looks claims up with each fact-check provider in turn and returns the first one's matches.
+ * A provider that fails is logged and skipped. With a cache, repeated lookups of a claim skip
+ * the providers; lookups where a provider failed are not cached, since it may have had a match.
+ */
+export class FactCheckService {
+  constructor(
+    private readonly providers: FactCheckProvider[],
+    private readonly cache: TtlCache<FactCheckResult> | null = null
+  ) {}
+
+  // languageCode is the BCP-47 language of the claim, e.g. en-US or hi
+  async verifyClaim(query: string, languageCode = 'en-US'): Promise<FactCheckResult> {
+    if (!this.cache) return this.lookUp(query, languageCode);
+    return this.cache.getOrCompute(
+      contentKey(languageCode, query.trim()),
+      () => this.lookUp(query, languageCode),
+      result => result.isVerifiable ? FACT_CHECK_CACHE_TTL : result.rating === 'No results' ? FACT_CHECK_MISS_TTL : 0
+    );
+  }
+
+  private async lookUp(query: string, languageCode: string): Promise<FactCheckResult> {
+    if (this.providers.length === 0) {
       return {
         isVerifiable: false,
         rating: 'Not Available',
         claims: [],
-        error: 'API key not configured'
+        error: 'No fact-check providers configured'
       };
     }
 
-    try {
-      const response = await axios.get<FactCheckResponse>(API_URL, {
-        params: {
-          query,
-          key: API_KEY,
-          languageCode: 'en-US',
-          pageSize: 5
+    const failed: string[] = [];
+    for (const provider of this.providers) {
+      try {
+        const claims = await provider.search(query, languageCode);
+        if (claims.length > 0) {
+          const consensus = verdictConsensus(claims);
+          return {
+            isVerifiable: true,
+            rating: consensus.rating || 'Unrated',
+            verdict: consensus.verdict,
+            claims,
+            provider: provider.name
+          };
         }
-      });
-
-      const { claims } = response.data;
-
-      if (!claims || claims.length === 0) {
-        return { isVerifiable: false, rating: 'No results', claims: [] };
+      } catch (error: unknown) {
+        failed.push(provider.name);
+        const details = axios.isAxiosError(error) ? error.response?.data || error.message : error instanceof Error ? error.message : error;
+        logger.error(`Fact check via ${provider.name} failed:`, details);
       }
+    }
 
-      // Simple rating logic: use the rating of the first result
-      const topRating = claims[0].claimReview[0]?.textualRating || 'Unrated';
-
+    if (failed.length === this.providers.length) {
       return {
-        isVerifiable: true,
-        rating: topRating,
-        claims
+        isVerifiable: false,
+        rating: 'Error',
+        claims: [],
+        error: 'Failed to communicate with the fact-check providers'
       };
-    } catch (error: any) {
-      logger.error('Error calling Fact Check API:', error.response?.data || error.message);
+    }
+    if (failed.length > 0) {
       return {
         isVerifiable: false,
-        rating: 'Error',
+        rating: 'Incomplete',
         claims: [],
-        error: 'Failed to communicate with Fact Check API'
+        error: `No matches, but these fact-check providers failed: ${failed.join(', ')}`
       };
     }
+    return { isVerifiable: false, rating: 'No results', claims: [] };
   }
 }
 
-export const factCheckService = new FactCheckService(); 
\ No newline at end of file
+export const factCheckService = new FactCheckService(
+  createFactCheckProviders(),
+  createCache<FactCheckResult>('factChecks', FACT_CHECK_CACHE_TTL)
+);
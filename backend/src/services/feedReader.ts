@@ -0,0 +1,187 @@
+import { JSDOM } from 'jsdom';
+import { setupLogger } from '../utils/logger';
+import { safeFetch, SafeFetchOptions } from '../utils/safeFetch';
+
+const logger = setupLogger();
+
+export interface FeedItem {
+  guid: string;
+  text: string;
+  title: string;
+  link?: string;
+  publishedAt?: string;
+  media?: string;
+}
+
+interface FeedState {
+  etag?: string;
+  lastModified?: string;
+  seenGuids: Set<string>;
+}
+
+const MAX_REMEMBERED_GUIDS = 1000;
+const REQUEST_TIMEOUT = 15000;
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+
+// Direct children only, matched on local name so namespaced and default-namespace feeds parse alike
+function children(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === localName);
+}
+
+function childText(parent: Element, ...localNames: string[]): string | undefined {
+  for (const name of localNames) {
+    const text = children(parent, name)[0]?.textContent?.trim();
+    if (text) return text;
+  }
+  return undefined;
+}
+
+function stripHtml(html: string): string {
+  const fragment = JSDOM.fragment(`<div>${html}</div>`);
+  return (fragment.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+function toIsoDate(value?: string): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function findImage(item: Element): string | undefined {
+  for (const name of ['content', 'thumbnail']) {
+    const media = children(item, name).find(el =>
+      el.namespaceURI === 'http://search.yahoo.com/mrss/' &&
+      el.getAttribute('url') &&
+      (name === 'thumbnail' || el.getAttribute('medium') === 'image' || el.getAttribute('type')?.startsWith('image/'))
+    );
+    if (media) return media.getAttribute('url') || undefined;
+  }
+
+  const enclosure = children(item, 'enclosure').find(el => el.getAttribute('type')?.startsWith('image/'));
+  if (enclosure) return enclosure.getAttribute('url') || undefined;
+
+  const atomEnclosure = children(item, 'link').find(el =>
+    el.getAttribute('rel') === 'enclosure' && el.getAttribute('type')?.startsWith('image/')
+  );
+  return atomEnclosure?.getAttribute('href') || undefined;
+}
+
+function parseRSSItem(item: Element): FeedItem {
+  const title = stripHtml(childText(item, 'title') || '');
+  const link = childText(item, 'link');
+  const body = childText(item, 'encoded', 'description') || '';
+
+  return {
+    guid: childText(item, 'guid') || item.getAttribute('rdf:about') || link || title,
+    text: stripHtml(body),
+    title,
+    link,
+    publishedAt: toIsoDate(childText(item, 'pubDate', 'date')),
+    media: findImage(item)
+  };
+}
+
+function parseAtomEntry(entry: Element): FeedItem {
+  const title = stripHtml(childText(entry, 'title') || '');
+  const links = children(entry, 'link');
+  const alternate = links.find(el => !el.getAttribute('rel') || el.getAttribute('rel') === 'alternate');
+  const link = alternate?.getAttribute('href') || undefined;
+
+  return {
+    guid: childText(entry, 'id') || link || title,
+    text: stripHtml(childText(entry, 'content', 'summary') || ''),
+    title,
+    link,
+    publishedAt: toIsoDate(childText(entry, 'published', 'updated')),
+    media: findImage(entry)
+  };
+}
+
+/**
+ * Parses an RSS 2.0, Atom 1.0 or RSS 1.0 (RDF) document into feed items.
+ */
+export function parseFeed(xml: string): FeedItem[] {
+  let document: Document;
+  try {
+    document = new JSDOM(xml, { contentType: 'text/xml' }).window.document;
+  } catch (error: unknown) {
+    throw new Error(`Invalid feed: ${error instanceof Error ? error.message : 'document is not well-formed XML'}`);
+  }
+  const root = document.documentElement;
+
+  switch (root.localName) {
+    case 'rss': {
+      const channel = children(root, 'channel')[0];
+      return channel ? children(channel, 'item').map(parseRSSItem) : [];
+    }
+    case 'RDF':
+      return children(root, 'item').map(parseRSSItem);
+    case 'feed':
+      return children(root, 'entry').map(parseAtomEntry);
+    default:
+      throw new Error(`Unsupported feed format: <${root.localName}>`);
+  }
+}
+
+/**
+ * Polls feeds with conditional GET and only returns items that have not been seen before.
+ * Feed URLs come from API clients, so they are fetched with safeFetch.
+ */
+export class FeedReader {
+  private states: Map<string, FeedState> = new Map();
+
+  constructor(private readonly fetchOptions: SafeFetchOptions = {}) {}
+
+  async fetchNewItems(url: string): Promise<FeedItem[]> {
+    const state = this.getState(url);
+    const headers: Record<string, string> = {
+      Accept: 'application/rss+xml, application/atom+xml, application/rdf+xml, application/xml;q=0.9, text/xml;q=0.8'
+    };
+    if (state.etag) headers['If-None-Match'] = state.etag;
+    if (state.lastModified) headers['If-Modified-Since'] = state.lastModified;
+
+    const response = await safeFetch(url, {
+      maxBytes: MAX_FEED_BYTES,
+      timeoutMs: REQUEST_TIMEOUT,
+      ...this.fetchOptions,
+      headers
+    });
+
+    if (response.status === 304) {
+      logger.debug(`Feed not modified: ${url}`);
+      return [];
+    }
+
+    if (response.headers['etag']) state.etag = response.headers['etag'];
+    if (response.headers['last-modified']) state.lastModified = response.headers['last-modified'];
+
+    const items = parseFeed(response.body.toString('utf8'));
+    const newItems = items.filter(item => !state.seenGuids.has(item.guid));
+    newItems.forEach(item => this.remember(state, item.guid));
+
+    logger.info(`Fetched feed ${url}: ${items.length} items, ${newItems.length} new`);
+    return newItems;
+  }
+
+  forget(url: string): void {
+    this.states.delete(url);
+  }
+
+  private getState(url: string): FeedState {
+    let state = this.states.get(url);
+    if (!state) {
+      state = { seenGuids: new Set() };
+      this.states.set(url, state);
+    }
+    return state;
+  }
+
+  private remember(state: FeedState, guid: string): void {
+    state.seenGuids.add(guid);
+    // Sets iterate in insertion order, so the first entry is the oldest
+    if (state.seenGuids.size > MAX_REMEMBERED_GUIDS) {
+      const oldest = state.seenGuids.values().next().value;
+      if (oldest !== undefined) state.seenGuids.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ImageSighting } from '../types/analysis';
+import { hammingDistance, perceptualHashes, PerceptualHashes } from '../utils/perceptualHash';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+export interface ImageIndexEntry extends PerceptualHashes {
+  // Where the image was found, usually a URL
+  source: string;
+  firstSeen: string;
+}
+
+export interface SeedResult {
+  added: number;
+  skipped: number;
+}
+
+const IMAGE_INDEX_PATH = process.env.IMAGE_INDEX_PATH || './data/image-index.jsonl';
+// Resizes, recompression and light edits stay well inside this; unrelated images rarely come within 20
+const DEFAULT_MAX_DISTANCE = 10;
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|webp|gif|tiff?|avif)$/i;
+// Optional file in a seed folder mapping file names to { source, firstSeen }
+const SEED_MANIFEST = 'sources.json';
+const MAX_SIGHTING_WARNINGS = 3;
+
+/**
+ * Perceptual hash index of images seen before, kept as an append-only JSONL file like the
+ * analysis history. Lookups scan every entry, which is fine for a local corpus of tens of
+ * thousands of images.
+ */
+export class PerceptualImageIndex {
+  private entries: ImageIndexEntry[] = [];
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly maxDistance = DEFAULT_MAX_DISTANCE
+  ) {}
+
+  /**
+   * Finds earlier sightings of an image, oldest first. Both hashes must agree, which keeps
+   * images that merely share a layout from matching.
+   */
+  async findMatches(hashes: PerceptualHashes, options: { excludeSource?: string } = {}): Promise<ImageSighting[]> {
+    await this.load();
+    return this.entries
+      .filter(entry => entry.source !== options.excludeSource)
+      .map(entry => ({ entry, distance: hammingDistance(entry.pHash, hashes.pHash) }))
+      .filter(({ entry, distance }) =>
+        distance <= this.maxDistance && hammingDistance(entry.dHash, hashes.dHash) <= this.maxDistance
+      )
+      .map(({ entry, distance }) => ({ source: entry.source, firstSeen: entry.firstSeen, distance }))
+      .sort((a, b) => a.firstSeen.localeCompare(b.firstSeen));
+  }
+
+  /**
+   * Adds an image unless the same source already holds a matching one. Returns whether it was added.
+   */
+  async add(hashes: PerceptualHashes, sighting: { source: string; firstSeen?: string }): Promise<boolean> {
+    await this.load();
+    const known = (await this.findMatches(hashes)).some(match => match.source === sighting.source);
+    if (known) return false;
+
+    const entry: ImageIndexEntry = {
+      ...hashes,
+      source: sighting.source,
+      firstSeen: sighting.firstSeen || new Date().toISOString()
+    };
+    this.entries.push(entry);
+
+    const line = `${JSON.stringify(entry)}\n`;
+    this.writeQueue = this.writeQueue
+      .then(() => fs.appendFile(this.filePath, line, 'utf8'))
+      .catch(error => logger.error('Failed to persist image index entry:', error));
+    await this.writeQueue;
+    return true;
+  }
+
+  /**
+   * Indexes every image in a folder. A sources.json file in the folder can map file names to
+   * { "source": "https://...", "firstSeen": "2019-03-01" }; otherwise the file's own path and
+   * modification time are used.
+   */
+  async seedFromFolder(folder: string): Promise<SeedResult> {
+    const manifest = await readSeedManifest(folder);
+    const result: SeedResult = { added: 0, skipped: 0 };
+
+    for (const name of (await fs.readdir(folder)).filter(file => IMAGE_EXTENSIONS.test(file)).sort()) {
+      const file = path.join(folder, name);
+      try {
+        const known = manifest[name] || {};
+        const firstSeen = known.firstSeen ? new Date(known.firstSeen) : (await fs.stat(file)).mtime;
+        const added = await this.add(await perceptualHashes(await fs.readFile(file)), {
+          source: known.source || `file://${path.resolve(file)}`,
+          firstSeen: firstSeen.toISOString()
+        });
+        result[added ? 'added' : 'skipped']++;
+      } catch (error: unknown) {
+        logger.warn(`Skipping ${file}:`, error instanceof Error ? error.message : error);
+        result.skipped++;
+      }
+    }
+
+    return result;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readFile();
+    }
+    return this.loading;
+  }
+
+  private async readFile(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        this.entries.push(JSON.parse(line));
+      } catch {
+        // A crash mid-append can leave a truncated last line
+      }
+    }
+    logger.info(`Loaded ${this.entries.length} image index entries from ${this.filePath}`);
+  }
+}
+
+async function readSeedManifest(folder: string): Promise<Record<string, { source?: string; firstSeen?: string }>> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(folder, SEED_MANIFEST), 'utf8'));
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+export const imageIndex = new PerceptualImageIndex(IMAGE_INDEX_PATH);
+
+export function sightingWarnings(sightings: ImageSighting[]): string[] {
+  return sightings.slice(0, MAX_SIGHTING_WARNINGS).map(sighting =>
+    `Image previously seen on ${sighting.source} at ${sighting.firstSeen.slice(0, 10)}`
+  );
+}
@@ -0,0 +1,274 @@
+import { EventEmitter } from 'events';
+import fsSync, { promises as fs } from 'fs';
+import path from 'path';
+import {
+  DEFAULT_LANGUAGE,
+  LexiconCategory,
+  LexiconPack,
+  LexiconSource,
+  LexiconTerm,
+  normalizeTerm,
+  parseLexiconPack,
+  termKey
+} from '../models/lexicons';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+export const LEXICON_PATH = process.env.LEXICON_PATH || './lexicons';
+const LEXICON_OVERRIDES_PATH = process.env.LEXICON_OVERRIDES_PATH || './data/lexicon-overrides.json';
+// Editors often write a file in several steps, so reloads wait for changes to settle
+const RELOAD_DEBOUNCE_MS = 200;
+
+export class LexiconError extends Error {
+  constructor(message: string, readonly reason: 'invalid_term' | 'not_found') {
+    super(message);
+    this.name = 'LexiconError';
+  }
+}
+
+export interface LexiconPackSummary {
+  name: string;
+  version: number;
+  language: string;
+  file: string;
+  termCount: number;
+}
+
+export interface LexiconTermFilter {
+  category?: LexiconCategory;
+  language?: string;
+  enabled?: boolean;
+}
+
+export type TermReference = Pick<LexiconTerm, 'term' | 'category'> & { language?: string };
+
+// Admin changes, kept apart from the packs so a pack upgrade does not lose them
+interface LexiconOverrides {
+  added: LexiconTerm[];
+  // Keyed by termKey()
+  changed: Record<string, { enabled?: boolean; weight?: number }>;
+}
+
+/**
+ * Lexicon terms from every pack file in a directory, plus admin overrides. Packs are read on
+ * first use and again whenever `reload()` runs or, once `watch()` is called, whenever a pack
+ * or the overrides file changes. A reload that fails keeps the terms already loaded.
+ */
+export class LexiconStore extends EventEmitter implements LexiconSource {
+  private loadedTerms: LexiconTerm[] = [];
+  private loadedPacks: LexiconPackSummary[] = [];
+  private loaded = false;
+  private currentRevision = 0;
+  private watchers: fsSync.FSWatcher[] = [];
+  private reloadTimer: NodeJS.Timeout | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly packDir: string, private readonly overridesPath: string) {
+    super();
+  }
+
+  get revision(): number {
+    this.ensureLoaded();
+    return this.currentRevision;
+  }
+
+  packs(): LexiconPackSummary[] {
+    this.ensureLoaded();
+    return this.loadedPacks;
+  }
+
+  list(filter: LexiconTermFilter = {}): LexiconTerm[] {
+    this.ensureLoaded();
+    return this.loadedTerms.filter(term =>
+      (filter.category === undefined || term.category === filter.category) &&
+      (filter.language === undefined || term.language === filter.language.toLowerCase()) &&
+      (filter.enabled === undefined || term.enabled === filter.enabled)
+    );
+  }
+
+  activeTerms(language: string = DEFAULT_LANGUAGE): LexiconTerm[] {
+    return this.list({ language, enabled: true });
+  }
+
+  /**
+   * Re-reads the packs and overrides. Returns false, keeping the previous terms, when any of
+   * them cannot be parsed.
+   */
+  reload(): boolean {
+    try {
+      const packs = this.readPacks();
+      const overrides = this.readOverrides();
+      this.apply(packs, overrides);
+      logger.info(`Loaded ${this.loadedTerms.length} lexicon terms from ${packs.length} packs`);
+      return true;
+    } catch (error: unknown) {
+      logger.error('Failed to reload lexicons, keeping the previous terms:', error instanceof Error ? error.message : error);
+      return false;
+    } finally {
+      this.loaded = true;
+    }
+  }
+
+  watch(): void {
+    if (this.watchers.length > 0) return;
+    this.ensureLoaded();
+
+    const scheduleReload = () => {
+      if (this.reloadTimer) clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => {
+        this.reloadTimer = null;
+        if (this.reload()) this.emit('reload', this.currentRevision);
+      }, RELOAD_DEBOUNCE_MS);
+    };
+
+    // The overrides file may not exist yet, so its directory is watched instead
+    const overridesDir = path.dirname(this.overridesPath);
+    fsSync.mkdirSync(overridesDir, { recursive: true });
+    const watchDir = (dir: string, matches: (file: string) => boolean) => {
+      try {
+        const watcher = fsSync.watch(dir, { persistent: false }, (_event, file) => {
+          if (!file || matches(file.toString())) scheduleReload();
+        });
+        watcher.on('error', error => logger.warn(`Stopped watching ${dir}:`, error.message));
+        this.watchers.push(watcher);
+      } catch (error: unknown) {
+        logger.warn(`Cannot watch ${dir} for lexicon changes:`, error instanceof Error ? error.message : error);
+      }
+    };
+    watchDir(this.packDir, file => file.endsWith('.json'));
+    watchDir(overridesDir, file => file === path.basename(this.overridesPath));
+  }
+
+  close(): void {
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers = [];
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+  }
+
+  async addTerm(raw: Record<string, unknown>): Promise<LexiconTerm> {
+    this.ensureLoaded();
+    const term = normalizeTerm({ ...raw, enabled: true }, { language: DEFAULT_LANGUAGE, source: 'admin' });
+    if (typeof term === 'string') {
+      throw new LexiconError(term, 'invalid_term');
+    }
+
+    return this.queueWrite(async () => {
+      const key = termKey(term);
+      if (this.loadedTerms.some(candidate => termKey(candidate) === key)) {
+        // Adding a term that is already known re-enables it with the new weight
+        return this.changeTerm(term, key, { enabled: true, weight: term.weight });
+      }
+
+      const overrides = this.readOverrides();
+      overrides.added.push(term);
+      await this.writeOverrides(overrides);
+      return term;
+    });
+  }
+
+  async updateTerm(reference: TermReference, changes: { enabled?: boolean; weight?: number }): Promise<LexiconTerm> {
+    this.ensureLoaded();
+    if (changes.enabled !== undefined && typeof changes.enabled !== 'boolean') {
+      throw new LexiconError('enabled must be a boolean', 'invalid_term');
+    }
+    if (changes.weight !== undefined && (typeof changes.weight !== 'number' || !(changes.weight > 0 && changes.weight <= 1))) {
+      throw new LexiconError('weight must be a number above 0 and at most 1', 'invalid_term');
+    }
+    if (changes.enabled === undefined && changes.weight === undefined) {
+      throw new LexiconError('Nothing to change: set enabled or weight', 'invalid_term');
+    }
+
+    const key = termKey({ ...reference, language: (reference.language || DEFAULT_LANGUAGE).toLowerCase() });
+    return this.queueWrite(() => this.changeTerm(reference, key, changes));
+  }
+
+  // Runs read-modify-write updates of the overrides file one at a time, so none is lost
+  private queueWrite<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private async changeTerm(reference: TermReference, key: string, changes: { enabled?: boolean; weight?: number }): Promise<LexiconTerm> {
+    const existing = this.loadedTerms.find(candidate => termKey(candidate) === key);
+    if (!existing) {
+      throw new LexiconError(`Unknown lexicon term "${reference.term}" in ${reference.category}`, 'not_found');
+    }
+
+    const overrides = this.readOverrides();
+    overrides.changed[key] = {
+      ...overrides.changed[key],
+      ...(changes.enabled !== undefined && { enabled: changes.enabled }),
+      ...(changes.weight !== undefined && { weight: changes.weight })
+    };
+    await this.writeOverrides(overrides);
+    return this.loadedTerms.find(candidate => termKey(candidate) === key) || existing;
+  }
+
+  private ensureLoaded() {
+    if (!this.loaded) this.reload();
+  }
+
+  private readPacks(): { pack: LexiconPack; file: string }[] {
+    const files = fsSync.readdirSync(this.packDir).filter(file => file.endsWith('.json')).sort();
+    return files.map(file => ({
+      pack: parseLexiconPack(fsSync.readFileSync(path.join(this.packDir, file), 'utf8'), file),
+      file
+    }));
+  }
+
+  private readOverrides(): LexiconOverrides {
+    let contents: string;
+    try {
+      contents = fsSync.readFileSync(this.overridesPath, 'utf8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { added: [], changed: {} };
+      throw error;
+    }
+    const data = JSON.parse(contents);
+    const added = (Array.isArray(data.added) ? data.added : []).map((raw: Record<string, unknown>) => {
+      const term = normalizeTerm(raw, { language: DEFAULT_LANGUAGE, source: 'admin' });
+      if (typeof term === 'string') {
+        throw new Error(`Lexicon overrides ${this.overridesPath}: ${term}`);
+      }
+      return term;
+    });
+    return { added, changed: data.changed || {} };
+  }
+
+  private async writeOverrides(overrides: LexiconOverrides) {
+    await fs.mkdir(path.dirname(this.overridesPath), { recursive: true });
+    // Write then rename, so the watcher never reads a half-written file
+    const tempPath = `${this.overridesPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(overrides, null, 2) + '\n', 'utf8');
+    await fs.rename(tempPath, this.overridesPath);
+    this.apply(this.readPacks(), overrides);
+  }
+
+  private apply(packs: { pack: LexiconPack; file: string }[], overrides: LexiconOverrides) {
+    // Later packs and admin additions replace earlier definitions of the same term
+    const byKey = new Map<string, LexiconTerm>();
+    packs.forEach(({ pack }) => pack.terms.forEach(term => byKey.set(termKey(term), term)));
+    overrides.added.forEach(term => byKey.set(termKey(term), term));
+    Object.entries(overrides.changed).forEach(([key, change]) => {
+      const term = byKey.get(key);
+      if (term) byKey.set(key, { ...term, ...change });
+    });
+
+    this.loadedTerms = Array.from(byKey.values());
+    this.loadedPacks = packs.map(({ pack, file }) => ({
+      name: pack.name,
+      version: pack.version,
+      language: pack.language,
+      file,
+      termCount: pack.terms.length
+    }));
+    this.currentRevision++;
+  }
+}
+
+export const lexiconStore = new LexiconStore(LEXICON_PATH, LEXICON_OVERRIDES_PATH);
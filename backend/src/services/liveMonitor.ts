@@ -1,15 +1,21 @@
 import { setupLogger } from '../utils/logger';
 import { EventEmitter } from 'events';
 import { SourceVerifier } from './sourceVerification';
-import { MediaAnalyzer } from './mediaAnalysis';
-import { analyzeText } from '../models/modelLoader';
-import { AnalysisResult } from '../types/analysis';
+import { MediaAnalysisService } from './mediaAnalysis';
+import { textAnalyzer, TextAnalysisResult } from './textAnalyzer';
+import { TextClassifierNotTrainedError } from './textClassifier';
+import { FeedReader, FeedItem } from './feedReader';
+import { ApiPoller, ApiSourceMapping } from './apiPoller';
+import { isIP } from 'net';
+import { isBlockedAddress, safeLookup, SafeFetchError } from '../utils/safeFetch';
 // @ts-ignore
 import WebSocket from 'ws';
 
 const logger = setupLogger();
 
-interface MonitoringSource {
+const MAX_WEBSOCKET_MESSAGE_BYTES = 1024 * 1024;
+
+export interface MonitoringSource {
   url: string;
   type: 'rss' | 'api' | 'websocket';
   updateInterval?: number;
@@ -18,35 +24,55 @@ interface MonitoringSource {
     username?: string;
     password?: string;
   };
+  // Required for 'api' sources: where the items and their fields live in the JSON response
+  mapping?: ApiSourceMapping;
 }
 
-interface MonitoringAlert {
+export interface MonitoringAlert {
   source: string;
   content: string;
-  analysisResult: AnalysisResult;
+  title?: string;
+  link?: string;
+  analysisResult: TextAnalysisResult;
   timestamp: string;
   severity: 'low' | 'medium' | 'high';
   type: 'fake_news' | 'manipulation' | 'misinformation';
 }
 
+export interface MonitoredContent {
+  source: string;
+  title?: string;
+  link?: string;
+  publishedAt?: string;
+  prediction: 'REAL' | 'FAKE';
+  confidence: number;
+  alerted: boolean;
+  timestamp: string;
+}
+
 export class LiveMonitor extends EventEmitter {
   private sources: Map<string, MonitoringSource>;
   private activeConnections: Map<string, WebSocket | NodeJS.Timeout>;
   private sourceVerifier: SourceVerifier;
-  private mediaAnalyzer: MediaAnalyzer;
+  private mediaAnalyzer: MediaAnalysisService;
+  private feedReader: FeedReader;
+  private apiPoller: ApiPoller;
   private isMonitoring: boolean;
 
-  constructor() {
+  constructor(sourceVerifier: SourceVerifier = new SourceVerifier()) {
     super();
     this.sources = new Map();
     this.activeConnections = new Map();
-    this.sourceVerifier = new SourceVerifier();
-    this.mediaAnalyzer = new MediaAnalyzer();
+    this.sourceVerifier = sourceVerifier;
+    this.mediaAnalyzer = new MediaAnalysisService();
+    this.feedReader = new FeedReader();
+    this.apiPoller = new ApiPoller();
     this.isMonitoring = false;
   }
 
   async initialize(): Promise<void> {
     try {
+      await this.sourceVerifier.initialize();
       await this.mediaAnalyzer.initialize();
       logger.info('Live monitor initialized successfully');
     } catch (error) {
@@ -57,6 +83,10 @@ export class LiveMonitor extends EventEmitter {
 
   async addSource(source: MonitoringSource): Promise<void> {
     try {
+      if (source.type === 'api' && !source.mapping) {
+        throw new Error('API sources require a field mapping');
+      }
+
       // Verify source before adding
       const verification = await this.sourceVerifier.verifySource(source.url);
       if (verification.credibilityScore < 0.3) {
@@ -75,6 +105,31 @@ export class LiveMonitor extends EventEmitter {
     }
   }
 
+  async removeSource(url: string): Promise<boolean> {
+    if (!this.sources.has(url)) {
+      return false;
+    }
+
+    this.disconnectSource(url);
+    this.sources.delete(url);
+    this.feedReader.forget(url);
+    this.apiPoller.forget(url);
+    logger.info(`Removed monitoring source: ${url}`);
+    return true;
+  }
+
+  getSources(): MonitoringSource[] {
+    return Array.from(this.sources.values());
+  }
+
+  getSource(url: string): MonitoringSource | undefined {
+    return this.sources.get(url);
+  }
+
+  isActive(): boolean {
+    return this.isMonitoring;
+  }
+
   async startMonitoring(): Promise<void> {
     try {
       this.isMonitoring = true;
@@ -96,13 +151,8 @@ export class LiveMonitor extends EventEmitter {
       this.isMonitoring = false;
       logger.info('Stopping live monitoring...');
 
-      for (const [url, connection] of this.activeConnections) {
-        if (connection instanceof WebSocket) {
-          connection.close();
-        } else {
-          clearInterval(connection);
-        }
-        this.activeConnections.delete(url);
+      for (const url of Array.from(this.activeConnections.keys())) {
+        this.disconnectSource(url);
       }
 
       this.emit('monitoring_stopped');
@@ -112,6 +162,18 @@ export class LiveMonitor extends EventEmitter {
     }
   }
 
+  private disconnectSource(url: string): void {
+    const connection = this.activeConnections.get(url);
+    if (!connection) return;
+
+    if (connection instanceof WebSocket) {
+      connection.close();
+    } else {
+      clearInterval(connection);
+    }
+    this.activeConnections.delete(url);
+  }
+
   private async connectToSource(source: MonitoringSource): Promise<void> {
     try {
       switch (source.type) {
@@ -134,14 +196,23 @@ export class LiveMonitor extends EventEmitter {
   }
 
   private async setupWebSocketConnection(source: MonitoringSource): Promise<void> {
-    const ws = new WebSocket(source.url);
+    // Same rules as safeFetch: no private or reserved addresses, checked when connecting
+    const allowPrivateNetworks = process.env.FETCH_ALLOW_PRIVATE_NETWORKS === 'true';
+    const hostname = new URL(source.url).hostname.replace(/^\[|\]$/g, '');
+    if (!allowPrivateNetworks && isIP(hostname) && isBlockedAddress(hostname)) {
+      throw new SafeFetchError(`${hostname} is a private or reserved address`, 'blocked_address');
+    }
+    const ws = new WebSocket(source.url, {
+      lookup: allowPrivateNetworks ? undefined : safeLookup,
+      maxPayload: MAX_WEBSOCKET_MESSAGE_BYTES
+    });
 
     ws.on('message', async (data: WebSocket.Data) => {
       try {
         const content = this.parseWebSocketMessage(data);
         await this.analyzeContent(source.url, content);
       } catch (error) {
-        logger.error(`Error processing WebSocket message from ${source.url}:`, error);
+        this.reportSourceError(source.url, `Error processing WebSocket message from ${source.url}:`, error);
       }
     });
 
@@ -161,7 +232,7 @@ export class LiveMonitor extends EventEmitter {
           await this.analyzeContent(source.url, item);
         }
       } catch (error) {
-        logger.error(`Error polling RSS feed ${source.url}:`, error);
+        this.reportSourceError(source.url, `Error polling RSS feed ${source.url}:`, error);
       }
     }, source.updateInterval || 300000); // Default: 5 minutes
 
@@ -171,28 +242,44 @@ export class LiveMonitor extends EventEmitter {
   private async setupAPIPolling(source: MonitoringSource): Promise<void> {
     const interval = setInterval(async () => {
       try {
-        const data = await this.fetchAPIData(source);
-        await this.analyzeContent(source.url, data);
+        const items = await this.fetchAPIData(source);
+        for (const item of items) {
+          await this.analyzeContent(source.url, item);
+        }
       } catch (error) {
-        logger.error(`Error polling API ${source.url}:`, error);
+        this.reportSourceError(source.url, `Error polling API ${source.url}:`, error);
       }
     }, source.updateInterval || 60000); // Default: 1 minute
 
     this.activeConnections.set(source.url, interval);
   }
 
+  private reportSourceError(sourceUrl: string, message: string, error: unknown): void {
+    logger.error(message, error);
+    this.emit('source_error', { source: sourceUrl, error });
+  }
+
+  // Without a trained classifier there is no verdict to report, so the rest of the batch is
+  // skipped and the failure is reported for the source instead
   private async analyzeContent(sourceUrl: string, content: any): Promise<void> {
+    if (typeof content?.text !== 'string' || !content.text.trim()) {
+      return;
+    }
+
     try {
-      // Analyze text content
-      const textAnalysis = await analyzeText(content.text);
+      const textAnalysis = await textAnalyzer.analyzeText(content.text);
+      let alerted = false;
 
       // Check for media content
       if (content.media) {
-        const mediaAnalysis = await this.mediaAnalyzer.analyzeImage(content.media);
+        const mediaAnalysis = await this.mediaAnalyzer.analyzeImage({ url: content.media });
         if (mediaAnalysis.isManipulated) {
+          alerted = true;
           this.emitAlert({
             source: sourceUrl,
             content: content.text,
+            title: content.title,
+            link: content.link,
             analysisResult: textAnalysis,
             timestamp: new Date().toISOString(),
             severity: 'high',
@@ -203,16 +290,34 @@ export class LiveMonitor extends EventEmitter {
 
       // Check text analysis results
       if (textAnalysis.confidence > 0.8 && textAnalysis.prediction === 'FAKE') {
+        alerted = true;
         this.emitAlert({
           source: sourceUrl,
           content: content.text,
+          title: content.title,
+          link: content.link,
           analysisResult: textAnalysis,
           timestamp: new Date().toISOString(),
           severity: 'high',
           type: 'fake_news'
         });
       }
+
+      const analyzed: MonitoredContent = {
+        source: sourceUrl,
+        title: content.title,
+        link: content.link,
+        publishedAt: content.publishedAt,
+        prediction: textAnalysis.prediction,
+        confidence: textAnalysis.confidence,
+        alerted,
+        timestamp: new Date().toISOString()
+      };
+      this.emit('content_analyzed', analyzed);
     } catch (error) {
+      if (error instanceof TextClassifierNotTrainedError) {
+        throw error;
+      }
       logger.error(`Error analyzing content from ${sourceUrl}:`, error);
     }
   }
@@ -229,13 +334,14 @@ export class LiveMonitor extends EventEmitter {
     return data;
   }
 
-  private async fetchRSSFeed(url: string): Promise<any[]> {
-    // Implement RSS feed fetching
-    return [];
+  private async fetchRSSFeed(url: string): Promise<FeedItem[]> {
+    return this.feedReader.fetchNewItems(url);
   }
 
-  private async fetchAPIData(source: MonitoringSource): Promise<any> {
-    // Implement API data fetching
-    return {};
+  private async fetchAPIData(source: MonitoringSource): Promise<FeedItem[]> {
+    if (!source.mapping) {
+      throw new Error(`No field mapping configured for API source ${source.url}`);
+    }
+    return this.apiPoller.fetchNewItems(source.url, source.mapping, source.credentials);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,171 @@
+import { domainToUnicode } from 'url';
+import { editDistance } from '../utils/editDistance';
+import { DomainParts, splitDomain } from '../utils/domainName';
+
+export type LookalikeTechnique =
+  | 'homoglyph'
+  | 'embedded_domain'
+  | 'tld_swap'
+  | 'typosquat'
+  | 'combosquat'
+  | 'brand_in_subdomain';
+
+export interface LookalikeMatch {
+  // The trusted domain being imitated
+  imitatedDomain: string;
+  technique: LookalikeTechnique;
+  // Unicode form of the checked domain, so punycode (xn--) hosts read as they appear to users
+  displayDomain: string;
+  detail: string;
+}
+
+// Characters that render like ASCII letters. Diacritics are stripped separately via NFKD.
+const CONFUSABLES: Record<string, string> = {
+  // Cyrillic
+  'а': 'a', 'с': 'c', 'ԁ': 'd', 'е': 'e', 'һ': 'h', 'і': 'i', 'ј': 'j', 'к': 'k', 'ӏ': 'l',
+  'о': 'o', 'р': 'p', 'ԛ': 'q', 'ѕ': 's', 'ս': 'u', 'ѵ': 'v', 'ԝ': 'w', 'х': 'x', 'у': 'y',
+  // Greek
+  'α': 'a', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u',
+  'χ': 'x', 'ω': 'w',
+  // Latin lookalikes
+  'ı': 'i', 'ɡ': 'g', 'ℓ': 'l', 'ß': 'b',
+  // Digits commonly swapped for letters
+  '0': 'o', '1': 'l', '3': 'e', '5': 's'
+};
+
+// Applied after single-character folding; `i` and `l` are merged because many fonts draw them alike
+const CONFUSABLE_SEQUENCES: [RegExp, string][] = [
+  [/rn/g, 'm'],
+  [/vv/g, 'w'],
+  [/i/g, 'l']
+];
+
+// Brand names shorter than this only match as a whole hyphen-separated token (`bbc-news`)
+const MIN_SUBSTRING_BRAND_LENGTH = 7;
+const MIN_BRAND_LENGTH = 3;
+
+// Words squatters glue straight onto a brand (`reutersnews`). Any other letters next to the brand
+// make it part of a longer name (`thehindubusinessline`) rather than a combosquat.
+const COMBO_AFFIXES = new Set([
+  'news', 'live', 'today', 'daily', 'online', 'official', 'breaking', 'update', 'updates', 'tv', 'world', 'india'
+]);
+
+// Domains run by the same publisher as a trusted domain, which share its brand without imitating it
+const SIBLING_DOMAINS: Record<string, string[]> = {
+  'thehindu.com': ['thehindubusinessline.com'],
+  'npr.org': ['npr.com'],
+  'ndtv.com': ['ndtv.in', 'ndtvprofit.com'],
+  'bbc.com': ['bbc.co.uk', 'bbci.co.uk'],
+  'reuters.com': ['reutersagency.com', 'thomsonreuters.com']
+};
+
+/**
+ * Reduces a string to a "skeleton" in which visually confusable characters collapse together,
+ * so `reuters.com`, `rеuters.com` (Cyrillic е) and `reuter5.com` share the same skeleton.
+ */
+export function toSkeleton(value: string): string {
+  const folded = Array.from(value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase())
+    .map(char => CONFUSABLES[char] ?? char)
+    .join('');
+  return CONFUSABLE_SEQUENCES.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), folded);
+}
+
+// The brand is the outlet's own label, which for hosted outlets like `zeenews.india.com` is the leftmost one
+function brandOf(trusted: DomainParts): string {
+  return trusted.subdomainLabels[0] ?? trusted.name;
+}
+
+function isSameOrSubdomain(domain: string, trusted: string): boolean {
+  return domain === trusted || domain.endsWith(`.${trusted}`);
+}
+
+// Names of 3-4 letters are one edit away from countless unrelated sites (`ntv` and `ndtv`)
+function maxTypoDistance(length: number): number {
+  if (length >= 9) return 2;
+  if (length >= 5) return 1;
+  return 0;
+}
+
+// True when the brand stands as its own token in the label: between label edges, hyphens or digits,
+// or next to one of the usual combosquat words
+function containsBrandToken(label: string, brand: string): boolean {
+  const isBoundary = (rest: string, edge: string) => rest === '' || /[-0-9]/.test(edge) || COMBO_AFFIXES.has(rest);
+  for (let start = label.indexOf(brand); start !== -1; start = label.indexOf(brand, start + 1)) {
+    const before = label.slice(0, start);
+    const after = label.slice(start + brand.length);
+    if (isBoundary(before, before.slice(-1)) && isBoundary(after, after.charAt(0))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function checkAgainst(candidate: DomainParts, displayDomain: string, trustedDomain: string): LookalikeMatch | null {
+  const trusted = splitDomain(trustedDomain);
+  const brand = brandOf(trusted);
+  const match = (technique: LookalikeTechnique, detail: string): LookalikeMatch => ({
+    imitatedDomain: trustedDomain,
+    technique,
+    displayDomain,
+    detail
+  });
+
+  const unicodeParts = splitDomain(displayDomain);
+  const nameSkeleton = toSkeleton(unicodeParts.name);
+  if (toSkeleton(displayDomain) === toSkeleton(trustedDomain) ||
+      (nameSkeleton === toSkeleton(brand) && unicodeParts.name !== brand)) {
+    return match('homoglyph', `${displayDomain} uses look-alike characters to imitate ${trustedDomain}`);
+  }
+
+  if (candidate.domain.startsWith(`${trustedDomain}.`) || candidate.domain.startsWith(`${trustedDomain}-`)) {
+    return match('embedded_domain', `${displayDomain} embeds the trusted domain ${trustedDomain} in a different site`);
+  }
+
+  if (candidate.name === brand && candidate.subdomainLabels.length === 0) {
+    return match('tld_swap', `${displayDomain} reuses the name of ${trustedDomain} under a different suffix`);
+  }
+
+  const typoDistance = Math.min(
+    editDistance(candidate.domain, trustedDomain),
+    candidate.subdomainLabels.length === 0 ? editDistance(candidate.name, brand) : Infinity
+  );
+  if (typoDistance > 0 && typoDistance <= maxTypoDistance(brand.length)) {
+    return match('typosquat', `${displayDomain} is a misspelling of ${trustedDomain}`);
+  }
+
+  if (brand.length >= MIN_BRAND_LENGTH) {
+    const containsBrand = (label: string) => label.split('-').includes(brand) ||
+      (brand.length >= MIN_SUBSTRING_BRAND_LENGTH && containsBrandToken(label, brand));
+
+    if (candidate.name !== brand && containsBrand(candidate.name)) {
+      return match('combosquat', `${displayDomain} combines the ${brand} brand with other words to imitate ${trustedDomain}`);
+    }
+
+    if (candidate.subdomainLabels.some(containsBrand)) {
+      return match('brand_in_subdomain',
+        `${displayDomain} places the ${brand} brand in a subdomain of an unrelated site to imitate ${trustedDomain}`);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether `domain` (lowercase hostname, punycode or Unicode) imitates one of the trusted domains.
+ * Domains that are a trusted domain, a sibling of one (SIBLING_DOMAINS) or a subdomain of either never match.
+ */
+export function detectLookalike(domain: string, trustedDomains: Iterable<string>): LookalikeMatch | null {
+  const trustedList = Array.from(trustedDomains);
+  const displayDomain = domainToUnicode(domain) || domain;
+  const ownDomains = trustedList.flatMap(trusted => [trusted, ...(SIBLING_DOMAINS[trusted] || [])]);
+  if (ownDomains.some(own => isSameOrSubdomain(domain, own) || isSameOrSubdomain(displayDomain, own))) {
+    return null;
+  }
+
+  const candidate = splitDomain(domain);
+  for (const trusted of trustedList) {
+    const match = checkAgainst(candidate, displayDomain, trusted);
+    if (match) return match;
+  }
+  return null;
+}
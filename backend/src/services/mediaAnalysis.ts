@@ -1,332 +1,476 @@
-import * as tf from '@tensorflow/tfjs-node';
-import { MediaAnalysisResult } from '../types/analysis';
-import { setupLogger } from '../utils/logger';
-import sharp from 'sharp';
-import path from 'path';
-
-const logger = setupLogger();
-
-export class MediaAnalyzer {
-  private imageModel: any = null;
-  private deepfakeModel: any = null;
-  private faceDetectionModel: any = null;
-  private readonly MODEL_PATH = process.env.MODEL_PATH || './models';
-
-  async initialize() {
-    try {
-      // Load image manipulation detection model
-      this.imageModel = await tf.loadGraphModel(
-        `file://${path.join(this.MODEL_PATH, 'image_manipulation/model.json')}`
-      );
-
-      // Load deepfake detection model
-      this.deepfakeModel = await tf.loadGraphModel(
-        `file://${path.join(this.MODEL_PATH, 'deepfake_detection/model.json')}`
-      );
-
-      // Load face detection model
-      this.faceDetectionModel = await tf.loadGraphModel(
-        `file://${path.join(this.MODEL_PATH, 'face_detection/model.json')}`
-      );
-
-      logger.info('Media analysis models loaded successfully');
-    } catch (error) {
-      logger.error('Error loading media analysis models:', error);
-      throw error;
-    }
-  }
-
-  async analyzeImage(imageUrl: string): Promise<MediaAnalysisResult> {
-    try {
-      // Download and process image
-      const response = await fetch(imageUrl);
-      const imageBuffer = await response.arrayBuffer();
-      
-      // Process image with sharp for metadata and basic analysis
-      const image = sharp(Buffer.from(imageBuffer));
-      const metadata = await image.metadata();
-
-      // Convert image to tensor
-      const tensor = tf.node.decodeImage(Buffer.from(imageBuffer));
-      const preprocessed = this.preprocessImage(tensor as any);
-
-      // Run manipulation detection
-      const predictions = await this.detectImageManipulation(preprocessed);
-
-      // Error Level Analysis (ELA)
-      const elaScore = await this.performELA(Buffer.from(imageBuffer));
-
-      // Object detection for context verification
-      const detectedObjects = await this.detectObjects(preprocessed);
-
-      // Face analysis
-      const faceAnalysis = await this.analyzeFaces(preprocessed);
-
-      // Metadata analysis
-      const metadataAnalysis = await this.analyzeMetadata(metadata);
-
-      tensor.dispose();
-      preprocessed.dispose();
-
-      // Calculate final manipulation score with weighted factors
-      const finalManipulationScore = this.calculateFinalManipulationScore({
-        modelScore: predictions.manipulationScore,
-        elaScore,
-        faceAnalysis,
-        metadataAnalysis
-      });
-
-      return {
-        type: 'image',
-        isManipulated: finalManipulationScore > 0.7,
-        manipulationScore: finalManipulationScore,
-        detectedObjects,
-        metadata: {
-          ...metadata,
-          analyzedAt: new Date().toISOString()
-        },
-        errorLevel: elaScore,
-        confidence: Math.max(...Array.from(predictions.confidence as any as number[])),
-        faceAnalysis,
-        warnings: [],
-        verificationStatus: finalManipulationScore > 0.7 ? 'manipulated' : 'verified'
-      };
-    } catch (error) {
-      logger.error('Image analysis failed:', error);
-      throw error;
-    }
-  }
-
-  async analyzeVideo(videoUrl: string): Promise<MediaAnalysisResult> {
-    try {
-      // Download video
-      const response = await fetch(videoUrl);
-      const videoBuffer = await response.arrayBuffer();
-      
-      // Extract frames from video
-      const frames = await this.extractVideoFrames(Buffer.from(videoBuffer));
-      
-      // Analyze each frame for inconsistencies
-      const frameAnalysis = await Promise.all(
-        frames.map(frame => this.analyzeVideoFrame(frame))
-      );
-
-      // Detect face inconsistencies across frames
-      const faceAnalysis = await this.analyzeFaceConsistency(frames);
-
-      // Analyze audio if present
-      const audioAnalysis = await this.analyzeAudio(Buffer.from(videoBuffer));
-
-      // Analyze video metadata
-      const metadataAnalysis = await this.analyzeVideoMetadata(Buffer.from(videoBuffer));
-
-      // Aggregate results with improved confidence calculation
-      const inconsistentFrames = frameAnalysis
-        .map((analysis, index) => analysis.manipulationScore > 0.7 ? index : -1)
-        .filter(index => index !== -1);
-
-      const confidence = this.calculateVideoConfidence({
-        frameAnalysis,
-        faceAnalysis,
-        audioAnalysis,
-        metadataAnalysis
-      });
-
-      return {
-        type: 'video',
-        isManipulated: confidence > 0.8,
-        isDeepfake: confidence > 0.8,
-        manipulationScore: confidence,
-        confidence,
-        inconsistentFrames,
-        faceAnalysis,
-        metadata: {
-          totalFrames: frames.length,
-          analyzedFrames: frameAnalysis.length,
-          analyzedAt: new Date().toISOString()
-        },
-        warnings: [],
-        verificationStatus: confidence > 0.8 ? 'manipulated' : 'verified'
-      };
-    } catch (error) {
-      logger.error('Video analysis failed:', error);
-      throw error;
-    }
-  }
-
-  private preprocessImage(tensor: any): any {
-    // Implement image preprocessing
-    return tensor;
-  }
-
-  private async detectImageManipulation(tensor: any) {
-    if (!this.imageModel) {
-      throw new Error('Image manipulation model not initialized');
-    }
-
-    const prediction = await this.imageModel.predict(
-      tensor.expandDims(0)
-    ) as any;
-
-    const score = await prediction.data();
-    prediction.dispose();
-
-    return {
-      manipulationScore: score[0],
-      confidence: Math.max(...Array.from(score as any as number[]))
-    };
-  }
-
-  private async analyzeVideoFrame(frame: any) {
-    return this.detectImageManipulation(frame);
-  }
-
-  private async analyzeFaceConsistency(frames: any[]) {
-    return {
-      detected: false,
-      anomalies: []
-    };
-  }
-
-  private calculateVideoConfidence({
-    frameAnalysis,
-    faceAnalysis,
-    audioAnalysis,
-    metadataAnalysis
-  }: {
-    frameAnalysis: any[];
-    faceAnalysis: any;
-    audioAnalysis: any;
-    metadataAnalysis: any;
-  }): number {
-    const weights = {
-      frames: 0.4,
-      faces: 0.3,
-      audio: 0.2,
-      metadata: 0.1
-    };
-
-    const frameScore = frameAnalysis.reduce((sum, analysis) => 
-      sum + analysis.confidence, 0) / frameAnalysis.length;
-
-    const faceScore = faceAnalysis.anomalies.length > 0 ? 0.8 : 0.2;
-    const audioScore = audioAnalysis.suspicious ? 0.7 : 0.3;
-    const metadataScore = metadataAnalysis.suspicious ? 0.7 : 0.3;
-
-    return (
-      weights.frames * frameScore +
-      weights.faces * faceScore +
-      weights.audio * audioScore +
-      weights.metadata * metadataScore
-    );
-  }
-
-  private async analyzeMetadata(metadata: any) {
-    return {
-      suspicious: false
-    };
-  }
-
-  private async analyzeAudio(videoBuffer: Buffer) {
-    return {
-      suspicious: false
-    };
-  }
-
-  private async analyzeVideoMetadata(videoBuffer: Buffer) {
-    return {
-      suspicious: false
-    };
-  }
-
-  private async extractVideoFrames(videoBuffer: Buffer): Promise<any[]> {
-    // Implement video frame extraction
-    return [];
-  }
-
-  private async detectObjects(tensor: any): Promise<string[]> {
-    // Implement object detection
-    return [];
-  }
-
-  private async performELA(imageBuffer: Buffer): Promise<number> {
-    // Implement Error Level Analysis
-    return 0;
-  }
-
-  private calculateFinalManipulationScore({
-    modelScore,
-    elaScore,
-    faceAnalysis,
-    metadataAnalysis
-  }: {
-    modelScore: number;
-    elaScore: number;
-    faceAnalysis: any;
-    metadataAnalysis: any;
-  }): number {
-    const weights = {
-      model: 0.4,
-      ela: 0.2,
-      face: 0.25,
-      metadata: 0.15
-    };
-
-    const faceScore = faceAnalysis.anomalies.length > 0 ? 0.8 : 0.2;
-    const metadataScore = metadataAnalysis.suspicious ? 0.7 : 0.3;
-
-    return (
-      weights.model * modelScore +
-      weights.ela * elaScore +
-      weights.face * faceScore +
-      weights.metadata * metadataScore
-    );
-  }
-
-  private async analyzeFaces(tensor: any) {
-    if (!this.faceDetectionModel) {
-      throw new Error('Face detection model not initialized');
-    }
-
-    const prediction = await this.faceDetectionModel.predict(
-      tensor.expandDims(0)
-    ) as any;
-
-    const faceData = await prediction.data();
-    prediction.dispose();
-
-    const anomalies: string[] = [];
-    
-    if (this.hasUnrealisticProportions(new Float32Array(faceData))) {
-      anomalies.push('Unrealistic face proportions detected');
-    }
-    
-    if (this.hasInconsistentLighting(new Float32Array(faceData))) {
-      anomalies.push('Inconsistent lighting detected');
-    }
-    
-    if (this.hasUnnaturalSkinTexture(new Float32Array(faceData))) {
-      anomalies.push('Unnatural skin texture detected');
-    }
-
-    return {
-      detected: faceData.length > 0,
-      anomalies
-    };
-  }
-
-  private hasUnrealisticProportions(faceData: Float32Array): boolean {
-    // Implement logic to check for unrealistic face proportions
-    return false;
-  }
-
-  private hasInconsistentLighting(faceData: Float32Array): boolean {
-    // Implement logic to check for inconsistent lighting
-    return false;
-  }
-
-  private hasUnnaturalSkinTexture(faceData: Float32Array): boolean {
-    // Implement logic to check for unnatural skin texture
-    return false;
-  }
+import { DetectorCapability, MediaAnalysisResult, MetadataForensics } from '../types/analysis';
+import { setupLogger } from '../utils/logger';
+import sharp from 'sharp';
+import path from 'path';
+import { existsSync, promises as fs } from 'fs';
+import { CapabilityRegistry, renormalizedScore } from './capabilityRegistry';
+import { ErrorLevelAnalysis, performErrorLevelAnalysis } from './errorLevelAnalysis';
+import { analyzeImageMetadata, MetadataContext } from './metadataForensics';
+import { imageIndex, PerceptualImageIndex, sightingWarnings } from './imageIndex';
+import { perceptualHashes } from '../utils/perceptualHash';
+import { safeFetch } from '../utils/safeFetch';
+import { checkFfmpeg, ExtractedFrames, extractVideoFrames, frameExtractionOptionsFromEnv, VideoFrame } from './videoFrames';
+
+const logger = setupLogger();
+
+// Resolved at runtime so the service still loads where tfjs-node is not installed
+const TFJS_NODE = '@tensorflow/tfjs-node';
+
+// The parts of tfjs-node this service uses
+interface TensorflowNode {
+  loadGraphModel(url: string): Promise<unknown>;
+  node: { decodeImage(contents: Uint8Array, channels?: number): { dispose(): void } };
+  tensor3d(values: Uint8Array, shape: [number, number, number], dtype?: string): { dispose(): void };
+}
+
+// Checks that need no model files and always run
+const BUILT_IN_CHECKS = ['error_level_analysis', 'metadata_forensics', 'previous_sightings'];
+const MODEL_DETECTORS = ['image_manipulation', 'deepfake_detection', 'face_detection'];
+// Video detectors that have no implementation yet; they stay unavailable rather than add fixed scores
+const UNIMPLEMENTED_VIDEO_CHECKS = ['face_consistency', 'audio_analysis', 'video_metadata'];
+// Same limit as uploads
+const MAX_MEDIA_BYTES = 10 * 1024 * 1024;
+// Share of the detector weight that must have run before a result is called manipulated or verified.
+// Error level analysis and metadata alone (0.35) flag too many ordinary photos to decide on their own.
+const MIN_VERDICT_COVERAGE = 0.5;
+
+// Media to analyze: raw bytes, a local file or an http(s) URL to download
+export type MediaInput = Buffer | { path: string } | { url: string };
+
+/**
+ * What the media routes and the live monitor analyze with: the real pipeline, or the
+ * simulated one when demo mode is switched on.
+ */
+export interface MediaAnalysisPipeline {
+  initialize(): Promise<void>;
+  analyzeImage(input: MediaInput, context?: MetadataContext): Promise<MediaAnalysisResult>;
+  analyzeVideo(input: MediaInput): Promise<MediaAnalysisResult>;
+  getCapabilities(): DetectorCapability[];
+}
+
+async function loadMedia(input: MediaInput, kind: 'image' | 'video'): Promise<{ buffer: Buffer; url?: string }> {
+  if (Buffer.isBuffer(input)) {
+    return { buffer: input };
+  }
+  if ('path' in input) {
+    return { buffer: await fs.readFile(input.path) };
+  }
+
+  // URLs come from users, so they go through the SSRF-safe fetcher
+  const { body } = await safeFetch(input.url, { expect: kind, maxBytes: MAX_MEDIA_BYTES });
+  return { buffer: body, url: input.url };
+}
+
+/**
+ * Deterministic media analysis. Error level analysis, metadata forensics and the perceptual
+ * hash index always run; the tfjs models run when tfjs-node and their files are present.
+ */
+export class MediaAnalysisService implements MediaAnalysisPipeline {
+  private tf: TensorflowNode | null = null;
+  private imageModel: any = null;
+  private deepfakeModel: any = null;
+  private faceDetectionModel: any = null;
+  private readonly MODEL_PATH = process.env.MODEL_PATH || './models';
+  private readonly capabilities = new CapabilityRegistry();
+
+  constructor(private readonly index: PerceptualImageIndex = imageIndex) {
+    BUILT_IN_CHECKS.forEach(check => this.capabilities.markAvailable(check));
+    UNIMPLEMENTED_VIDEO_CHECKS.forEach(check => this.capabilities.markUnavailable(check, 'Not implemented yet'));
+  }
+
+  /**
+   * Loads whichever models are present under MODEL_PATH. A missing or broken model only
+   * disables its own detector; the analysis runs with the rest.
+   */
+  async initialize() {
+    try {
+      await checkFfmpeg(frameExtractionOptionsFromEnv().ffmpegPath);
+      this.capabilities.markAvailable('frame_extraction');
+    } catch (error: unknown) {
+      this.capabilities.markUnavailable('frame_extraction', error instanceof Error ? error.message : 'ffmpeg could not be run');
+      logger.warn('ffmpeg is not available; videos are analyzed without their frames');
+    }
+
+    try {
+      this.tf = (await import(TFJS_NODE)) as TensorflowNode;
+    } catch {
+      MODEL_DETECTORS.forEach(name => this.capabilities.markUnavailable(name, '@tensorflow/tfjs-node is not installed'));
+      logger.warn('@tensorflow/tfjs-node is not installed; media analysis is running without its models');
+      return;
+    }
+
+    [this.imageModel, this.deepfakeModel, this.faceDetectionModel] = await Promise.all([
+      this.loadModel('image_manipulation'),
+      this.loadModel('deepfake_detection'),
+      this.loadModel('face_detection')
+    ]);
+
+    const unavailable = this.capabilities.list().filter(capability => !capability.available);
+    if (unavailable.length > 0) {
+      logger.warn(`Media analysis running without: ${unavailable.map(capability => capability.name).join(', ')}`);
+    } else {
+      logger.info('Media analysis models loaded successfully');
+    }
+  }
+
+  getCapabilities(): DetectorCapability[] {
+    return this.capabilities.list();
+  }
+
+  private async loadModel(name: string): Promise<any> {
+    const modelPath = path.join(this.MODEL_PATH, name, 'model.json');
+    if (!existsSync(modelPath)) {
+      this.capabilities.markUnavailable(name, `Model not found at ${modelPath}`);
+      return null;
+    }
+
+    try {
+      const model = await (this.tf as TensorflowNode).loadGraphModel(`file://${modelPath}`);
+      this.capabilities.markAvailable(name);
+      return model;
+    } catch (error: unknown) {
+      logger.error(`Error loading ${name} model:`, error);
+      this.capabilities.markUnavailable(
+        name,
+        `Model failed to load: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return null;
+    }
+  }
+
+  private runChecks(names: string[]): { ran: string[]; skipped: DetectorCapability[] } {
+    return {
+      ran: names.filter(name => this.capabilities.isAvailable(name)),
+      skipped: names.filter(name => !this.capabilities.isAvailable(name)).map(name => this.capabilities.get(name))
+    };
+  }
+
+  async analyzeImage(input: MediaInput, context: MetadataContext = {}): Promise<MediaAnalysisResult> {
+    try {
+      const { buffer: imageBuffer, url } = await loadMedia(input, 'image');
+      
+      // Process image with sharp for metadata and basic analysis
+      const metadata = await sharp(imageBuffer).metadata();
+
+      const checks = this.runChecks([...BUILT_IN_CHECKS, 'image_manipulation', 'face_detection']);
+      const canRun = (name: string) => checks.ran.includes(name);
+
+      // Model-based detectors, for whichever models are loaded
+      let predictions: { manipulationScore: number; confidence: number } | null = null;
+      let faceAnalysis: { detected: boolean; anomalies: string[] } | null = null;
+      let detectedObjects: string[] = [];
+      if (canRun('image_manipulation') || canRun('face_detection')) {
+        // Convert image to tensor
+        const tensor = (this.tf as TensorflowNode).node.decodeImage(imageBuffer, 3);
+        const preprocessed = this.preprocessImage(tensor as any);
+        try {
+          if (canRun('image_manipulation')) {
+            predictions = await this.detectImageManipulation(preprocessed);
+          }
+          if (canRun('face_detection')) {
+            faceAnalysis = await this.analyzeFaces(preprocessed);
+          }
+          // Object detection for context verification
+          detectedObjects = await this.detectObjects(preprocessed);
+        } finally {
+          tensor.dispose();
+          preprocessed.dispose();
+        }
+      }
+
+      // Error Level Analysis (ELA)
+      const ela = await this.performELA(imageBuffer);
+      const elaScore = ela.score;
+
+      // Metadata analysis
+      const metadataAnalysis = await this.analyzeMetadata(imageBuffer, context);
+
+      // Earlier appearances of the same picture, e.g. an old photo recirculated as breaking news.
+      // The index only grows through npm run seed-images; submitted images are looked up, never added.
+      const previousSightings = await this.index.findMatches(await perceptualHashes(imageBuffer), { excludeSource: url });
+
+      // Calculate final manipulation score with weighted factors
+      const { score: finalManipulationScore, coverage } = this.calculateFinalManipulationScore({
+        modelScore: predictions ? predictions.manipulationScore : null,
+        elaScore,
+        faceAnalysis,
+        metadataAnalysis
+      });
+
+      const conclusive = coverage >= MIN_VERDICT_COVERAGE;
+      const isManipulated = conclusive && finalManipulationScore > 0.7;
+
+      const warnings: string[] = [];
+      if (!conclusive) {
+        warnings.push(`Only ${Math.round(coverage * 100)}% of the detectors could run, so the result is inconclusive`);
+      }
+      if (elaScore > 0.5) {
+        warnings.push('Error level analysis found regions that recompress differently from the rest of the image');
+      }
+      metadataAnalysis.findings
+        .filter(finding => finding.severity !== 'low')
+        .forEach(finding => warnings.push(finding.detail));
+      warnings.push(...sightingWarnings(previousSightings));
+
+      return {
+        type: 'image',
+        isManipulated,
+        manipulationScore: finalManipulationScore,
+        detectedObjects,
+        metadata: {
+          dimensions: metadata.width && metadata.height
+            ? { width: metadata.width, height: metadata.height }
+            : undefined,
+          format: metadata.format,
+          size: imageBuffer.length,
+          created: metadataAnalysis.created,
+          modified: metadataAnalysis.modified,
+          analyzedAt: new Date().toISOString()
+        },
+        errorLevel: elaScore,
+        errorLevelAnalysis: {
+          score: ela.score,
+          quality: ela.quality,
+          meanError: ela.meanError,
+          maxError: ela.maxError,
+          outlierBlockRatio: ela.outlierBlockRatio,
+          heatmap: `data:image/png;base64,${ela.heatmap.toString('base64')}`
+        },
+        // Without the manipulation model, confidence reflects how much of the pipeline ran
+        confidence: predictions ? predictions.confidence : coverage,
+        faceAnalysis: faceAnalysis || undefined,
+        metadataForensics: metadataAnalysis,
+        previousSightings,
+        checksRun: checks.ran,
+        checksSkipped: checks.skipped,
+        warnings,
+        verificationStatus: !conclusive ? 'inconclusive' : isManipulated ? 'manipulated' : 'verified'
+      };
+    } catch (error) {
+      logger.error('Image analysis failed:', error);
+      throw error;
+    }
+  }
+
+  async analyzeVideo(input: MediaInput): Promise<MediaAnalysisResult> {
+    try {
+      const { buffer: videoBuffer } = await loadMedia(input, 'video');
+      
+      const checks = this.runChecks(['frame_extraction', 'image_manipulation', ...UNIMPLEMENTED_VIDEO_CHECKS]);
+      const canRun = (name: string) => checks.ran.includes(name);
+
+      // Sample frames from the video; without ffmpeg there are none and the frame checks score nothing
+      const { frames, durationSeconds, frameRate }: ExtractedFrames = canRun('frame_extraction')
+        ? await this.extractVideoFrames(videoBuffer)
+        : { frames: [] };
+
+      // Analyze each frame for inconsistencies, one at a time to keep tensor memory bounded
+      const frameAnalysis: { manipulationScore: number; confidence: number }[] = [];
+      if (canRun('image_manipulation')) {
+        for (const frame of frames) {
+          frameAnalysis.push(await this.analyzeVideoFrame(frame));
+        }
+      }
+
+      const faceAnalysis = canRun('face_consistency') ? await this.analyzeFaceConsistency(frames) : null;
+      const audioAnalysis = canRun('audio_analysis') ? await this.analyzeAudio(videoBuffer) : null;
+      const metadataAnalysis = canRun('video_metadata') ? await this.analyzeVideoMetadata(videoBuffer) : null;
+
+      const inconsistentFrames = frames.filter((frame, index) => (frameAnalysis[index]?.manipulationScore ?? 0) > 0.7);
+
+      const { score: confidence, coverage } = this.calculateVideoConfidence({
+        frameAnalysis,
+        faceAnalysis,
+        audioAnalysis,
+        metadataAnalysis
+      });
+      const conclusive = coverage >= MIN_VERDICT_COVERAGE;
+      const isManipulated = conclusive && confidence > 0.8;
+
+      const warnings: string[] = [];
+      if (canRun('frame_extraction') && frames.length === 0) {
+        warnings.push('No frames could be extracted from the video');
+      }
+      if (!conclusive) {
+        warnings.push(`Only ${Math.round(coverage * 100)}% of the detectors could run, so the result is inconclusive`);
+      }
+
+      return {
+        type: 'video',
+        isManipulated,
+        isDeepfake: isManipulated,
+        manipulationScore: confidence,
+        confidence,
+        inconsistentFrames: inconsistentFrames.map(frame => frame.index),
+        inconsistentFrameTimestamps: inconsistentFrames.map(frame => frame.timestamp),
+        faceAnalysis: faceAnalysis || undefined,
+        checksRun: checks.ran,
+        checksSkipped: checks.skipped,
+        metadata: {
+          totalFrames: durationSeconds && frameRate ? Math.round(durationSeconds * frameRate) : frames.length,
+          analyzedFrames: frameAnalysis.length,
+          durationSeconds,
+          analyzedAt: new Date().toISOString()
+        },
+        warnings,
+        verificationStatus: !conclusive ? 'inconclusive' : isManipulated ? 'manipulated' : 'verified'
+      };
+    } catch (error) {
+      logger.error('Video analysis failed:', error);
+      throw error;
+    }
+  }
+
+  private preprocessImage(tensor: any): any {
+    // Implement image preprocessing
+    return tensor;
+  }
+
+  private async detectImageManipulation(tensor: any) {
+    const prediction = await this.imageModel.predict(
+      tensor.expandDims(0)
+    ) as any;
+
+    const score = await prediction.data();
+    prediction.dispose();
+
+    return {
+      manipulationScore: score[0],
+      confidence: Math.max(...Array.from(score as any as number[]))
+    };
+  }
+
+  private async analyzeVideoFrame(frame: VideoFrame) {
+    const tensor = (this.tf as TensorflowNode).tensor3d(new Uint8Array(frame.data), [frame.height, frame.width, frame.channels], 'int32');
+    try {
+      return await this.detectImageManipulation(this.preprocessImage(tensor));
+    } finally {
+      tensor.dispose();
+    }
+  }
+
+  private async analyzeFaceConsistency(frames: VideoFrame[]) {
+    return {
+      detected: false,
+      anomalies: []
+    };
+  }
+
+  // Detectors that did not run pass null (and frames none) and their weight is shared among the rest
+  private calculateVideoConfidence({
+    frameAnalysis,
+    faceAnalysis,
+    audioAnalysis,
+    metadataAnalysis
+  }: {
+    frameAnalysis: { manipulationScore: number; confidence: number }[];
+    faceAnalysis: { anomalies: string[] } | null;
+    audioAnalysis: { suspicious: boolean } | null;
+    metadataAnalysis: { suspicious: boolean } | null;
+  }): { score: number; coverage: number } {
+    const frameScore = frameAnalysis.length > 0
+      ? frameAnalysis.reduce((sum, analysis) => sum + analysis.manipulationScore, 0) / frameAnalysis.length
+      : null;
+
+    return renormalizedScore({
+      frames: { weight: 0.4, score: frameScore },
+      faces: { weight: 0.3, score: faceAnalysis ? (faceAnalysis.anomalies.length > 0 ? 0.8 : 0.2) : null },
+      audio: { weight: 0.2, score: audioAnalysis ? (audioAnalysis.suspicious ? 0.7 : 0.3) : null },
+      metadata: { weight: 0.1, score: metadataAnalysis ? (metadataAnalysis.suspicious ? 0.7 : 0.3) : null }
+    });
+  }
+
+  private async analyzeMetadata(imageBuffer: Buffer, context: MetadataContext): Promise<MetadataForensics> {
+    return analyzeImageMetadata(imageBuffer, context);
+  }
+
+  private async analyzeAudio(videoBuffer: Buffer) {
+    return {
+      suspicious: false
+    };
+  }
+
+  private async analyzeVideoMetadata(videoBuffer: Buffer) {
+    return {
+      suspicious: false
+    };
+  }
+
+  private async extractVideoFrames(videoBuffer: Buffer): Promise<ExtractedFrames> {
+    return extractVideoFrames(videoBuffer, frameExtractionOptionsFromEnv());
+  }
+
+  private async detectObjects(tensor: any): Promise<string[]> {
+    // Implement object detection
+    return [];
+  }
+
+  private async performELA(imageBuffer: Buffer): Promise<ErrorLevelAnalysis> {
+    return performErrorLevelAnalysis(imageBuffer);
+  }
+
+  // Detectors that did not run pass null and their weight is shared among the rest
+  private calculateFinalManipulationScore({
+    modelScore,
+    elaScore,
+    faceAnalysis,
+    metadataAnalysis
+  }: {
+    modelScore: number | null;
+    elaScore: number;
+    faceAnalysis: { anomalies: string[] } | null;
+    metadataAnalysis: MetadataForensics;
+  }): { score: number; coverage: number } {
+    const faceScore = faceAnalysis ? (faceAnalysis.anomalies.length > 0 ? 0.8 : 0.2) : null;
+
+    return renormalizedScore({
+      model: { weight: 0.4, score: modelScore },
+      ela: { weight: 0.2, score: elaScore },
+      face: { weight: 0.25, score: faceScore },
+      metadata: { weight: 0.15, score: metadataAnalysis.score }
+    });
+  }
+
+  private async analyzeFaces(tensor: any) {
+    const prediction = await this.faceDetectionModel.predict(
+      tensor.expandDims(0)
+    ) as any;
+
+    const faceData = await prediction.data();
+    prediction.dispose();
+
+    const anomalies: string[] = [];
+    
+    if (this.hasUnrealisticProportions(new Float32Array(faceData))) {
+      anomalies.push('Unrealistic face proportions detected');
+    }
+    
+    if (this.hasInconsistentLighting(new Float32Array(faceData))) {
+      anomalies.push('Inconsistent lighting detected');
+    }
+    
+    if (this.hasUnnaturalSkinTexture(new Float32Array(faceData))) {
+      anomalies.push('Unnatural skin texture detected');
+    }
+
+    return {
+      detected: faceData.length > 0,
+      anomalies
+    };
+  }
+
+  private hasUnrealisticProportions(faceData: Float32Array): boolean {
+    // Implement logic to check for unrealistic face proportions
+    return false;
+  }
+
+  private hasInconsistentLighting(faceData: Float32Array): boolean {
+    // Implement logic to check for inconsistent lighting
+    return false;
+  }
+
+  private hasUnnaturalSkinTexture(faceData: Float32Array): boolean {
+    // Implement logic to check for unnatural skin texture
+    return false;
+  }
 } 
\ No newline at end of file
@@ -1,83 +0,0 @@
-export interface MediaAnalysisResult {
-  type: 'image' | 'video';
-  isManipulated: boolean;
-  manipulationScore: number;
-  confidence: number;
-  detectedObjects?: string[];
-  metadata: {
-    dimensions?: { width: number; height: number };
-    format?: string;
-    size?: number;
-    created?: string;
-    modified?: string;
-    analyzedAt: string;
-  };
-  warnings: string[];
-  verificationStatus: 'verified' | 'suspicious' | 'manipulated';
-  faceAnalysis?: {
-    detected: boolean;
-    anomalies: string[];
-  };
-}
-
-export class MediaAnalyzer {
-  async initialize() {
-    // Placeholder for future model initialization
-    return Promise.resolve();
-  }
-
-  async analyzeImage(buffer: Buffer): Promise<MediaAnalysisResult> {
-    try {
-      // Mock image analysis for now
-      const mockAnalysis = this.generateMockAnalysis('image');
-      
-      // Add image-specific analysis
-      mockAnalysis.detectedObjects = ['person', 'background', 'objects'];
-      mockAnalysis.metadata.dimensions = { width: 1920, height: 1080 };
-      
-      return mockAnalysis;
-    } catch (error) {
-      console.error('Image analysis failed:', error);
-      throw new Error('Failed to analyze image');
-    }
-  }
-
-  async analyzeVideo(buffer: Buffer): Promise<MediaAnalysisResult> {
-    try {
-      // Mock video analysis for now
-      const mockAnalysis = this.generateMockAnalysis('video');
-      
-      // Add video-specific analysis
-      mockAnalysis.faceAnalysis = {
-        detected: true,
-        anomalies: ['inconsistent lighting', 'frame discontinuity']
-      };
-      
-      return mockAnalysis;
-    } catch (error) {
-      console.error('Video analysis failed:', error);
-      throw new Error('Failed to analyze video');
-    }
-  }
-
-  private generateMockAnalysis(type: 'image' | 'video'): MediaAnalysisResult {
-    const manipulationScore = Math.random();
-    const isManipulated = manipulationScore > 0.7;
-    
-    return {
-      type,
-      isManipulated,
-      manipulationScore,
-      confidence: Math.random() * 0.3 + 0.7, // Random between 0.7 and 1.0
-      metadata: {
-        format: type === 'image' ? 'jpeg' : 'mp4',
-        size: Math.floor(Math.random() * 10 * 1024 * 1024), // Random size up to 10MB
-        created: new Date().toISOString(),
-        modified: new Date().toISOString(),
-        analyzedAt: new Date().toISOString()
-      },
-      warnings: isManipulated ? ['Potential manipulation detected'] : [],
-      verificationStatus: isManipulated ? 'manipulated' : 'verified'
-    };
-  }
-} 
\ No newline at end of file
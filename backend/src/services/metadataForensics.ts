@@ -0,0 +1,192 @@
+import * as exifr from 'exifr';
+import { readContentCredentials } from './contentCredentials';
+import { ContentCredentialsSummary, MetadataFinding, MetadataForensics } from '../types/analysis';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+export interface ClaimedLocation {
+  latitude: number;
+  longitude: number;
+  // How far the photo's GPS position may be from the claimed location, default 100 km
+  radiusKm?: number;
+  name?: string;
+}
+
+export interface MetadataContext {
+  claimedLocation?: ClaimedLocation;
+}
+
+const EDITING_SOFTWARE = /photoshop|lightroom|gimp|affinity|pixelmator|snapseed|facetune|picsart|canva|paint\.net|luminar|capture one|meitu|polarr|fotor|photoscape|krita/i;
+const AI_GENERATORS = /midjourney|dall[-\s·]?e|stable diffusion|firefly|imagen|novelai|leonardo\.ai|dreamstudio|comfyui|automatic1111/i;
+// Edits recorded in Content Credentials beyond creation and re-saving
+const C2PA_EDIT_ACTIONS = /c2pa\.(edited|filtered|color_adjustments|cropped|resized|drawing|placed|removed|transcoded)/;
+
+const BASELINE_SCORE = 0.2;
+const SEVERITY_WEIGHTS: Record<MetadataFinding['severity'], number> = { low: 0.1, medium: 0.25, high: 0.5 };
+const SUSPICIOUS_THRESHOLD = 0.5;
+const DEFAULT_LOCATION_RADIUS_KM = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value;
+  if (typeof value !== 'string') return undefined;
+  // EXIF writes dates as "2024:05:01 10:00:00"
+  const normalized = value.replace(/^(\d{4}):(\d{2}):(\d{2})/, '$1-$2-$3');
+  const date = new Date(normalized);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function distanceKm(a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+// Software names can sit in EXIF, XMP CreatorTool or the XMP edit history
+function softwareNames(tags: Record<string, unknown>): string[] {
+  const names = [tags.Software, tags.CreatorTool, tags.ProcessingSoftware, tags.HistorySoftwareAgent];
+  const history = Array.isArray(tags.History) ? tags.History : [];
+  history.forEach(entry => names.push((entry as Record<string, unknown>)?.softwareAgent));
+  return Array.from(new Set(names.filter((name): name is string => typeof name === 'string' && !!name.trim())));
+}
+
+function isJpeg(image: Buffer): boolean {
+  return image[0] === 0xff && image[1] === 0xd8;
+}
+
+function checkTimestamps(tags: Record<string, unknown>, findings: MetadataFinding[]): { created?: Date; modified?: Date } {
+  const captured = toDate(tags.DateTimeOriginal) || toDate(tags.CreateDate) || toDate(tags.DateCreated);
+  const modified = toDate(tags.ModifyDate) || toDate(tags.MetadataDate);
+
+  if (captured && captured.getTime() > Date.now() + DAY_MS) {
+    findings.push({
+      type: 'timestamp_inconsistency',
+      severity: 'high',
+      detail: `Capture date ${captured.toISOString()} is in the future`
+    });
+  }
+
+  if (captured && modified) {
+    const gap = modified.getTime() - captured.getTime();
+    if (gap < -60 * 1000) {
+      findings.push({
+        type: 'timestamp_inconsistency',
+        severity: 'medium',
+        detail: 'Modification date is earlier than the capture date'
+      });
+    } else if (gap > DAY_MS) {
+      findings.push({
+        type: 'timestamp_inconsistency',
+        severity: 'low',
+        detail: `File was modified ${Math.round(gap / DAY_MS)} days after it was captured`
+      });
+    }
+  }
+
+  return { created: captured, modified };
+}
+
+function checkContentCredentials(credentials: ContentCredentialsSummary, findings: MetadataFinding[]): void {
+  if (credentials.generatedByAI) {
+    const agents = credentials.softwareAgents.join(', ') || credentials.claimGenerator || 'an AI model';
+    findings.push({
+      type: 'ai_generator',
+      severity: 'high',
+      detail: `Content Credentials declare the image as AI-generated (${agents})`
+    });
+  }
+
+  const edits = Array.from(new Set(credentials.actions.filter(action => C2PA_EDIT_ACTIONS.test(action))));
+  if (edits.length > 0) {
+    findings.push({
+      type: 'content_credentials_edits',
+      severity: 'low',
+      detail: `Content Credentials record edits: ${edits.map(action => action.replace('c2pa.', '')).join(', ')}`
+    });
+  }
+}
+
+/**
+ * Metadata forensics for an image: EXIF/XMP/IPTC via exifr plus any C2PA Content Credentials.
+ * Flags editing software, AI generators, stripped metadata, inconsistent timestamps and GPS
+ * positions far from where the image is claimed to have been taken.
+ */
+export async function analyzeImageMetadata(image: Buffer, context: MetadataContext = {}): Promise<MetadataForensics> {
+  const findings: MetadataFinding[] = [];
+
+  let tags: Record<string, unknown> = {};
+  try {
+    tags = (await exifr.parse(image, { tiff: true, exif: true, gps: true, xmp: true, iptc: true, mergeOutput: true })) || {};
+  } catch (error: unknown) {
+    logger.warn('Failed to parse image metadata:', error instanceof Error ? error.message : error);
+  }
+
+  let contentCredentials: ContentCredentialsSummary | null = null;
+  try {
+    contentCredentials = readContentCredentials(image);
+  } catch (error: unknown) {
+    findings.push({
+      type: 'content_credentials_unreadable',
+      severity: 'medium',
+      detail: `Content Credentials are present but could not be read: ${error instanceof Error ? error.message : 'unknown error'}`
+    });
+  }
+
+  const software = softwareNames(tags);
+  const aiTool = software.find(name => AI_GENERATORS.test(name));
+  const editor = software.find(name => EDITING_SOFTWARE.test(name));
+  if (aiTool) {
+    findings.push({ type: 'ai_generator', severity: 'high', detail: `Metadata names an AI image generator: ${aiTool}` });
+  }
+  if (editor) {
+    findings.push({ type: 'editing_software', severity: 'medium', detail: `Image was saved by editing software: ${editor}` });
+  }
+
+  const camera = [tags.Make, tags.Model].filter(value => typeof value === 'string').join(' ').trim() || undefined;
+  if (isJpeg(image) && !camera && !tags.DateTimeOriginal && !contentCredentials) {
+    findings.push({
+      type: 'stripped_metadata',
+      severity: 'low',
+      detail: 'No camera metadata found; it may have been stripped by an editor or a re-upload'
+    });
+  }
+
+  const { created, modified } = checkTimestamps(tags, findings);
+
+  const gps = typeof tags.latitude === 'number' && typeof tags.longitude === 'number'
+    ? { latitude: tags.latitude, longitude: tags.longitude }
+    : undefined;
+  const claimed = context.claimedLocation;
+  if (gps && claimed) {
+    const distance = distanceKm(gps, claimed);
+    if (distance > (claimed.radiusKm ?? DEFAULT_LOCATION_RADIUS_KM)) {
+      findings.push({
+        type: 'location_mismatch',
+        severity: 'high',
+        detail: `Photo GPS position is ${Math.round(distance)} km from the claimed location${claimed.name ? ` (${claimed.name})` : ''}`
+      });
+    }
+  }
+
+  if (contentCredentials) {
+    checkContentCredentials(contentCredentials, findings);
+  }
+
+  const score = Math.min(1, findings.reduce((sum, finding) => sum + SEVERITY_WEIGHTS[finding.severity], BASELINE_SCORE));
+
+  return {
+    suspicious: score >= SUSPICIOUS_THRESHOLD,
+    score: Math.round(score * 1000) / 1000,
+    findings,
+    created: created?.toISOString(),
+    modified: modified?.toISOString(),
+    software: software[0],
+    camera,
+    gps,
+    contentCredentials
+  };
+}
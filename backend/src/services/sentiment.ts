@@ -0,0 +1,68 @@
+import fs from 'fs';
+import path from 'path';
+import natural from 'natural';
+import { DEFAULT_LANGUAGE } from '../models/lexicons';
+import { LEXICON_PATH } from './lexiconStore';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+/**
+ * AFINN-style word scores from -5 (very negative) to 5 (very positive), one file per language
+ * in <LEXICON_PATH>/sentiment/<language>.json. English uses the AFINN list that ships with natural.
+ */
+interface SentimentLexiconFile {
+  language: string;
+  version: number;
+  scores: Record<string, number>;
+}
+
+export class SentimentScorer {
+  private readonly english = new natural.SentimentAnalyzer('English', natural.PorterStemmer, 'afinn');
+  // null marks a language with no lexicon, so the file is only looked for once
+  private readonly lexicons = new Map<string, Map<string, number> | null>();
+
+  constructor(private readonly lexiconDir: string) {}
+
+  /**
+   * Mean word score of the tokens, between -5 and 5, or null when there is no sentiment
+   * lexicon for the language.
+   */
+  score(tokens: string[], language: string): number | null {
+    if (language === DEFAULT_LANGUAGE) {
+      return tokens.length > 0 ? this.english.getSentiment(tokens) : 0;
+    }
+
+    const lexicon = this.lexicon(language);
+    if (!lexicon) return null;
+    if (tokens.length === 0) return 0;
+    const total = tokens.reduce((sum, token) => sum + (lexicon.get(token.normalize('NFC')) || 0), 0);
+    return total / tokens.length;
+  }
+
+  private lexicon(language: string): Map<string, number> | null {
+    if (!this.lexicons.has(language)) {
+      this.lexicons.set(language, this.readLexicon(language));
+    }
+    return this.lexicons.get(language) || null;
+  }
+
+  private readLexicon(language: string): Map<string, number> | null {
+    const filePath = path.join(this.lexiconDir, `${language}.json`);
+    try {
+      const data: SentimentLexiconFile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      const scores = Object.entries(data.scores || {})
+        .filter(([, score]) => typeof score === 'number' && score >= -5 && score <= 5)
+        .map(([word, score]): [string, number] => [word.normalize('NFC').toLowerCase(), score]);
+      logger.info(`Loaded ${scores.length} ${language} sentiment scores from ${filePath}`);
+      return new Map(scores);
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error(`Failed to load sentiment lexicon ${filePath}:`, error instanceof Error ? error.message : error);
+      }
+      return null;
+    }
+  }
+}
+
+export const sentimentScorer = new SentimentScorer(path.join(LEXICON_PATH, 'sentiment'));
@@ -1,12 +1,22 @@
 import { setupLogger } from '../utils/logger';
-import * as tf from '@tensorflow/tfjs';
 import natural from 'natural';
 import { TfIdf } from 'natural';
 import * as use from '@tensorflow-models/universal-sentence-encoder';
-import { factCheckService, FactCheckResult } from './factCheckService';
+import { extractClaims } from './claimExtractor';
+import { ClaimRollup, rollUpVerdicts, VerifiedClaim, verifyClaims } from './claimVerification';
+import { embedText, loadClassifier, predictFakeProbabilities, SentenceEncoder, TEXT_CLASSIFIER_DIR } from './textClassifier';
+import { DEFAULT_LANGUAGE, LexiconCategory } from '../models/lexicons';
+import { lexiconStore } from './lexiconStore';
+import { sentimentScorer } from './sentiment';
+import { verdictLabel } from './verdicts';
+import { DetectedLanguage, detectLanguage, factCheckLanguageCode, tokenizeWords } from '../utils/language';
+import { RiskPatternDetector, RiskPatternResult } from '../models/riskPatternDetector';
 
 const logger = setupLogger();
 
+// Share of the final confidence that comes from the calibrated risk patterns rather than the classifier
+const RISK_PATTERN_WEIGHT = 0.25;
+
 export interface TextAnalysisResult {
   prediction: 'REAL' | 'FAKE';
   confidence: number;
@@ -15,63 +25,51 @@ export interface TextAnalysisResult {
     reliability: number;
     characterCount: number;
     mlMetrics: {
-      modelConfidence: number;
+      // null when the ML model failed and was left out of the blend
+      modelConfidence: number | null;
+      // 0-10, higher is more credible
       credibilityScore: number;
       readabilityScore: number;
       sourceTrustworthiness: number;
+      // 0-100 from most negative to most positive; null when the language has no sentiment lexicon
+      sentimentScore: number | null;
     };
-    analysisMethod: 'USE + Logistic Regression + Fact-Check';
+    analysisMethod: 'USE + Logistic Regression + Risk Patterns + Fact-Check';
   };
   reasoning: string[];
   suspiciousIndicators: string[];
-  factCheck: FactCheckResult | null;
+  language: DetectedLanguage;
+  riskPatterns: RiskPatternResult;
+  // Check-worthy sentences, each looked up and rated on its own
+  claims: VerifiedClaim[];
+  claimSummary: ClaimRollup;
+}
+
+export interface TextAnalyzerOptions {
+  // Default TEXT_CLASSIFIER_DIR, where npm run train-text saves the classifier
+  classifierDir?: string;
+  // Default the universal-sentence-encoder; the classifier must have been trained on the same encoder
+  loadEncoder?: () => Promise<SentenceEncoder>;
 }
 
-class TextAnalyzer {
+export class TextAnalyzer {
   private tfidf: any;
   private tokenizer: any;
-  private sentimentAnalyzer: any;
   // @ts-ignore
   private useModel: any = null;
   private classifier: any = null;
+  private riskDetector = new RiskPatternDetector();
   private initialized = false;
 
-  constructor() {
+  constructor(private readonly options: TextAnalyzerOptions = {}) {
     this.tfidf = new TfIdf();
     this.tokenizer = new natural.WordTokenizer();
-    this.sentimentAnalyzer = new natural.SentimentAnalyzer('English', natural.PorterStemmer, 'afinn');
     
     // Initialize with known fake news patterns
     this.tfidf.addDocument('fake news clickbait shocking unbelievable conspiracy secret scandal');
     this.tfidf.addDocument('verified fact checked confirmed source evidence research study');
   }
 
-  private sensationalistWords = new Set([
-    'shocking', 'bombshell', 'you won\'t believe',
-    'mind-blowing', 'unbelievable', 'breaking news',
-    'explosive', 'secret', 'conspiracy'
-  ]);
-
-  private clickbaitPhrases = new Set([
-    'doctors hate', 'one weird trick',
-    'what happens next will', 'this simple trick',
-    'you won\'t believe', 'shocking truth',
-    'miracle cure', 'secret they don\'t want you to know'
-  ]);
-
-  private credibilityIndicators = new Set([
-    'according to research', 'studies show',
-    'experts say', 'sources confirm',
-    'data indicates', 'evidence suggests',
-    'analysis reveals', 'research demonstrates'
-  ]);
-
-  private emotiveWords = new Set([
-    'outrageous', 'terrifying', 'horrific',
-    'devastating', 'miraculous', 'incredible',
-    'amazing', 'shocking', 'scandalous'
-  ]);
-
   private calculateTfIdfScore(text: string): number {
     const tokens = this.tokenizer.tokenize(text.toLowerCase());
     let score = 0;
@@ -84,25 +82,38 @@ class TextAnalyzer {
     return score / (tokens?.length || 1);
   }
 
-  private calculateSentimentScore(text: string): number {
-    const tokens = this.tokenizer.tokenize(text.toLowerCase());
-    if (!tokens) return 0;
-    const score = this.sentimentAnalyzer.getSentiment(tokens);
+  // natural's tokenizer drops everything outside the Latin alphabet, so other languages keep
+  // their own letters and combining marks
+  private tokenize(text: string, language: string): string[] {
+    return language === DEFAULT_LANGUAGE ? this.tokenizer.tokenize(text.toLowerCase()) || [] : tokenizeWords(text);
+  }
+
+  private calculateSentimentScore(text: string, language: string): number | null {
+    const score = sentimentScorer.score(this.tokenize(text, language), language);
+    if (score === null) return null;
     return (score + 5) / 10; // Normalize to 0-1 range
   }
 
-  private calculateCredibilityScore(text: string): number {
+  // Terms for the language plus the English ones, which code-mixed text also uses
+  private lexiconTerms(category: LexiconCategory, language: string) {
+    const terms = language === DEFAULT_LANGUAGE
+      ? lexiconStore.activeTerms(language)
+      : lexiconStore.activeTerms(language).concat(lexiconStore.activeTerms(DEFAULT_LANGUAGE));
+    return terms.filter(term => term.category === category);
+  }
+
+  private calculateCredibilityScore(text: string, language: string): number {
     const lowerText = text.toLowerCase();
     let score = 0.5; // Start at neutral
 
     // Check credibility indicators
-    this.credibilityIndicators.forEach(indicator => {
-      if (lowerText.includes(indicator)) score += 0.1;
+    this.lexiconTerms('credibility', language).forEach(indicator => {
+      if (lowerText.includes(indicator.term)) score += indicator.weight;
     });
 
     // Check suspicious patterns
-    this.sensationalistWords.forEach(word => {
-      if (lowerText.includes(word)) score -= 0.1;
+    this.lexiconTerms('emotive', language).forEach(word => {
+      if (lowerText.includes(word.term)) score -= 0.1;
     });
 
     return Math.max(0, Math.min(1, score));
@@ -110,7 +121,7 @@ class TextAnalyzer {
 
   private calculateReadabilityScore(text: string): number {
     const words = text.split(/\s+/).length;
-    const sentences = text.split(/[.!?]+/).length;
+    const sentences = text.split(/[.!?।]+/).length;
     const characters = text.length;
     
     // Simple Flesch-Kincaid readability calculation
@@ -121,110 +132,109 @@ class TextAnalyzer {
     return Math.min(100, Math.max(0, 206.835 - (1.015 * avgSentenceLength) - (84.6 * avgWordLength)));
   }
 
-  private calculateSourceTrustworthiness(text: string): number {
+  private calculateSourceTrustworthiness(text: string, language: string): number {
     let score = 50; // Base score
     
     // Check for credible source indicators
-    this.credibilityIndicators.forEach(indicator => {
-      if (text.toLowerCase().includes(indicator)) {
-        score += 10;
+    this.lexiconTerms('credibility', language).forEach(indicator => {
+      if (text.toLowerCase().includes(indicator.term)) {
+        score += indicator.weight * 100;
       }
     });
 
     return Math.min(100, Math.max(0, score)) / 100;
   }
 
-  private calculateBlendedScore(mlConfidence: number, factCheckResult: FactCheckResult | null): number {
-    if (!factCheckResult || !factCheckResult.isVerifiable || factCheckResult.rating === 'No results' || factCheckResult.rating === 'Unrated') {
-      return mlConfidence;
-    }
-
-    let factCheckModifier = 0;
-    const rating = factCheckResult.rating?.toLowerCase();
-
-    if (rating?.includes('false') || rating?.includes('untrue')) {
-      factCheckModifier = -0.4; // Strong penalty for false ratings
-    } else if (rating?.includes('misleading') || rating?.includes('mixture')) {
-      factCheckModifier = -0.2;
-    } else if (rating?.includes('true') || rating?.includes('accurate')) {
-      factCheckModifier = 0.2;
-    }
+  // Without an ML confidence the risk patterns score the text alone. Both inputs are probabilities
+  // of FAKE, so the risk patterns are blended in calibrated form rather than as the raw risk score.
+  private calculateBlendedScore(mlConfidence: number | null, riskProbability: number, claimSummary: ClaimRollup): number {
+    const textScore = mlConfidence === null
+      ? riskProbability
+      : mlConfidence * (1 - RISK_PATTERN_WEIGHT) + riskProbability * RISK_PATTERN_WEIGHT;
 
-    // Blend the scores, ensuring it stays within the 0-1 range
-    const blendedScore = mlConfidence + factCheckModifier;
+    // Claims rated false push the article towards FAKE, claims rated true towards REAL
+    const blendedScore = textScore + claimSummary.fakeShift;
     return Math.max(0, Math.min(1, blendedScore));
   }
 
+  /**
+   * Loads the classifier trained by `npm run train-text` before the sentence encoder, so a
+   * missing model fails with TextClassifierNotTrainedError without downloading anything.
+   */
   async initialize() {
     if (!this.initialized) {
-      this.useModel = await use.load();
-      this.classifier = tf.sequential();
-      this.classifier.add(tf.layers.dense({ inputShape: [512], units: 1, activation: 'sigmoid' }));
-      this.classifier.compile({ optimizer: 'adam', loss: 'binaryCrossentropy', metrics: ['accuracy'] });
+      this.classifier = await loadClassifier(this.options.classifierDir ?? TEXT_CLASSIFIER_DIR);
+      this.useModel = this.options.loadEncoder ? await this.options.loadEncoder() : await use.load();
       this.initialized = true;
     }
   }
 
-  async analyzeText(text: string): Promise<TextAnalysisResult> {
+  /**
+   * `language` overrides detection with an ISO 639-1 code such as `hi`, for callers that
+   * already know it.
+   */
+  async analyzeText(text: string, options: { language?: string } = {}): Promise<TextAnalysisResult> {
     await this.initialize();
     const startTime = Date.now();
     let prediction = 'REAL';
-    let mlConfidence = 0.5;
+    let mlConfidence: number | null = null;
     let reasoning: string[] = [];
     let suspiciousIndicators: string[] = [];
-    let factCheckResult: FactCheckResult | null = null;
+
+    const detected = detectLanguage(text);
+    const language: DetectedLanguage = options.language
+      ? { code: options.language.toLowerCase(), script: detected.script, confidence: 1 }
+      : detected;
+    if (language.code !== DEFAULT_LANGUAGE) {
+      reasoning.push(`Language: ${language.code} (${language.script} script)`);
+    }
 
     let readabilityScore = this.calculateReadabilityScore(text);
-    let sourceTrustworthiness = this.calculateSourceTrustworthiness(text);
+    let sourceTrustworthiness = this.calculateSourceTrustworthiness(text, language.code);
+    const sentimentScore = this.calculateSentimentScore(text, language.code);
+
+    const riskPatterns = this.riskDetector.analyze(text, language.code);
+    reasoning.push(`Risk pattern score: ${(riskPatterns.riskScore * 100).toFixed(1)}%`);
+    suspiciousIndicators.push(...riskPatterns.analysis);
 
     try {
-      if (this.useModel && this.classifier) {
-        const embeddings = await this.useModel.embed([text]);
-        const predTensor = this.classifier.predict(embeddings) as any;
-        const predValue = (await predTensor.data())[0];
-        mlConfidence = predValue;
-        reasoning.push(`Internal ML model confidence: ${(mlConfidence * 100).toFixed(1)}%`);
-        predTensor.dispose();
-        embeddings.dispose();
-      } else {
-        // Rule-based fallback if ML model is not available
-        reasoning.push('ML model not available, using rule-based analysis.');
-        mlConfidence = 0.5;
-        // Simple rule: if text contains many sensationalist words, lower confidence
-        const lowerText = text.toLowerCase();
-        let penalty = 0;
-        this.sensationalistWords.forEach(word => {
-          if (lowerText.includes(word)) penalty += 0.1;
-        });
-        mlConfidence = Math.max(0, 1 - penalty);
-        if (penalty > 0) {
-          reasoning.push(`Sensationalist language detected, confidence reduced by ${penalty * 100}%`);
-          suspiciousIndicators.push('Sensationalist language present');
-        }
+      const embeddings = await embedText(this.useModel, text);
+      const [probability] = await predictFakeProbabilities(this.classifier, embeddings);
+      mlConfidence = probability;
+      reasoning.push(`Internal ML model confidence: ${(probability * 100).toFixed(1)}%`);
+      if (language.code !== DEFAULT_LANGUAGE) {
+        reasoning.push('The sentence encoder was trained on English, so the model confidence is less reliable for this language.');
       }
+      embeddings.dispose();
     } catch (error: any) {
         logger.error('Error during ML model analysis:', error);
-        reasoning.push('Internal ML model analysis failed.');
+        reasoning.push('Internal ML model analysis failed, so the score rests on the risk patterns and fact-checks.');
         suspiciousIndicators.push('The internal ML model could not process the text.');
-        mlConfidence = 0; // Set to lowest confidence on failure
     }
 
-    try {
-        // Perform external fact-checking
-        factCheckResult = await factCheckService.verifyClaim(text);
-        if (factCheckResult.isVerifiable && factCheckResult.rating && factCheckResult.claims[0]?.claimReview[0]?.publisher.name) {
-            reasoning.push(`External Fact-Check: '${factCheckResult.rating}' from ${factCheckResult.claims[0].claimReview[0].publisher.name}`);
-        } else {
-            reasoning.push('External fact-check could not be completed or found no results.');
-        }
-    } catch (error: any) {
-        logger.error('Error during fact-checking:', error);
-        reasoning.push('External fact-checking service failed.');
-        suspiciousIndicators.push('Could not connect to external fact-checking service.');
+    // Perform external fact-checking, one query per check-worthy claim
+    const claims = await verifyClaims(extractClaims(text), factCheckLanguageCode(language.code));
+    const claimSummary = rollUpVerdicts(claims);
+    if (claims.length === 0) {
+      reasoning.push('No check-worthy claims found for external fact-checking.');
+    } else if (claimSummary.rated === 0) {
+      reasoning.push(`External fact-check found no ratings for ${claims.length} check-worthy claims.`);
     }
+    claims.filter(claim => claim.verdict !== 'UNPROVEN').forEach(claim => {
+      const label = verdictLabel(claim.verdict);
+      const consensus = claim.reviewCount > 1
+        ? ` (${Math.round(claim.agreement * claim.reviewCount)} of ${claim.reviewCount} fact-checkers agree)`
+        : '';
+      reasoning.push(`External Fact-Check: ${label}${consensus}, '${claim.rating}' from ${claim.publisher || 'unknown publisher'} for "${claim.text}"`);
+      if (claim.verdict === 'SATIRE') {
+        suspiciousIndicators.push(`Claim traced to satire by fact-checkers: "${claim.text}"`);
+      } else if (claim.truth !== null && claim.truth <= 0.5) {
+        suspiciousIndicators.push(`Claim rated ${label} by fact-checkers: "${claim.text}"`);
+      }
+    });
 
     // Blend the scores
-    const finalConfidence = this.calculateBlendedScore(mlConfidence, factCheckResult);
+    const finalConfidence = this.calculateBlendedScore(mlConfidence, riskPatterns.fakeProbability, claimSummary);
     prediction = finalConfidence > 0.5 ? 'FAKE' : 'REAL';
 
     const processingTime = Date.now() - startTime;
@@ -233,19 +243,23 @@ class TextAnalyzer {
       confidence: finalConfidence,
       metrics: {
         processingTime,
-        reliability: finalConfidence * 10,
+        reliability: (1 - finalConfidence) * 10,
         characterCount: text.length,
         mlMetrics: {
-          modelConfidence: mlConfidence * 100,
-          credibilityScore: finalConfidence * 10,
+          modelConfidence: mlConfidence === null ? null : mlConfidence * 100,
+          credibilityScore: (1 - finalConfidence) * 10,
           readabilityScore: readabilityScore, // Always provide calculated value
-          sourceTrustworthiness: sourceTrustworthiness * 100 // Always provide calculated value
+          sourceTrustworthiness: sourceTrustworthiness * 100, // Always provide calculated value
+          sentimentScore: sentimentScore === null ? null : sentimentScore * 100
         },
-        analysisMethod: 'USE + Logistic Regression + Fact-Check'
+        analysisMethod: 'USE + Logistic Regression + Risk Patterns + Fact-Check'
       },
       reasoning,
       suspiciousIndicators,
-      factCheck: factCheckResult,
+      language,
+      riskPatterns,
+      claims,
+      claimSummary
     };
   }
 }
@@ -0,0 +1,296 @@
+import * as tf from '@tensorflow/tfjs';
+import type { io, Tensor2D } from '@tensorflow/tfjs-core';
+import type { LayersModel } from '@tensorflow/tfjs-layers';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { contentKey, createCache, TtlCache } from '../utils/cache';
+import { parseCsv } from '../utils/csv';
+import { tokenizeWords } from '../utils/language';
+
+export type NewsLabel = 'REAL' | 'FAKE';
+
+export interface LabeledText {
+  id?: string;
+  text: string;
+  label: NewsLabel;
+}
+
+export interface ClassifierMetrics {
+  accuracy: number;
+  // FAKE is the positive class
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+// The part of the universal-sentence-encoder model used here
+export interface SentenceEncoder {
+  // Keeps other encoders' embeddings apart in the cache; the universal-sentence-encoder has none
+  name?: string;
+  embed(texts: string[]): Promise<Tensor2D>;
+}
+
+export interface TrainingOptions {
+  epochs?: number;
+  batchSize?: number;
+  // Share of the corpus held out for evaluation
+  holdout?: number;
+  seed?: number;
+}
+
+export interface TrainingReport {
+  model: LayersModel;
+  trainSize: number;
+  testSize: number;
+  metrics: ClassifierMetrics;
+}
+
+export const EMBEDDING_SIZE = 512;
+export const TEXT_CLASSIFIER_DIR = path.join(process.env.MODEL_PATH || './models', 'text_classifier');
+
+const MODEL_FILE = 'model.json';
+const WEIGHTS_FILE = 'weights.bin';
+const EMBED_BATCH_SIZE = 32;
+// The encoder always gives a text the same embedding, so only memory limits how long one is kept
+const EMBEDDING_CACHE_TTL = 7 * 24 * 60 * 60 * 1000;
+
+const embeddingCache = createCache<number[]>('embeddings', EMBEDDING_CACHE_TTL);
+
+/**
+ * A hashed bag of words, normalized to unit length. Much weaker than the universal-sentence-encoder,
+ * but deterministic and offline, so the evaluation can run the analyzer with a committed classifier.
+ */
+export const hashingEncoder: SentenceEncoder = {
+  name: 'hashing',
+  async embed(texts: string[]) {
+    return tf.tensor2d(texts.map(text => {
+      const vector = new Array<number>(EMBEDDING_SIZE).fill(0);
+      tokenizeWords(text).forEach(word => {
+        // FNV-1a over the UTF-16 code units
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < word.length; i++) {
+          hash = Math.imul(hash ^ word.charCodeAt(i), 0x01000193) >>> 0;
+        }
+        vector[hash % EMBEDDING_SIZE] += 1;
+      });
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      return vector.map(value => value / norm);
+    }), [texts.length, EMBEDDING_SIZE]);
+  }
+};
+
+export class TextClassifierNotTrainedError extends Error {
+  constructor(readonly modelDir: string) {
+    super(`No trained text classifier at ${path.join(modelDir, MODEL_FILE)}. Train one with npm run train-text -- <corpus>`);
+    this.name = 'TextClassifierNotTrainedError';
+  }
+}
+
+function toLabel(value: unknown): NewsLabel | null {
+  const label = String(value ?? '').trim().toLowerCase();
+  if (label === 'fake' || label === '1' || label === 'true') return 'FAKE';
+  if (label === 'real' || label === '0' || label === 'false') return 'REAL';
+  return null;
+}
+
+/**
+ * Reads a labeled corpus from CSV (a header row with `text` and `label` columns) or JSONL
+ * (one `{ "text", "label" }` object per line), with an optional `id`. Labels are REAL/FAKE,
+ * case-insensitive, or 0/1 with 1 meaning fake.
+ */
+export async function loadLabeledCorpus(filePath: string): Promise<LabeledText[]> {
+  const contents = await fs.readFile(filePath, 'utf8');
+  const rows: Record<string, unknown>[] = path.extname(filePath).toLowerCase() === '.csv'
+    ? parseCsv(contents)
+    : contents.split(/\r?\n/).filter(line => line.trim()).map(line => JSON.parse(line));
+
+  return rows.map((row, index) => {
+    const label = toLabel(row.label);
+    const text = typeof row.text === 'string' ? row.text.trim() : '';
+    if (!label || !text) {
+      throw new Error(`Corpus ${filePath} row ${index + 1} needs a text and a REAL/FAKE label`);
+    }
+    return row.id ? { id: String(row.id), text, label } : { text, label };
+  });
+}
+
+/**
+ * Shuffles with a seeded generator and splits off the last `holdout` share, so a corpus
+ * always produces the same train and test sets.
+ */
+export function splitHoldout<T>(items: T[], holdout = 0.2, seed = 42): { train: T[]; test: T[] } {
+  let state = seed >>> 0;
+  const random = () => {
+    // mulberry32
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  const testSize = Math.round(shuffled.length * holdout);
+  return { train: shuffled.slice(0, shuffled.length - testSize), test: shuffled.slice(shuffled.length - testSize) };
+}
+
+/**
+ * Scores are the classifier's probability that a text is fake.
+ */
+export function classificationMetrics(scores: number[], labels: NewsLabel[], threshold = 0.5): ClassifierMetrics {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  let correct = 0;
+
+  scores.forEach((score, index) => {
+    const predictedFake = score > threshold;
+    const actualFake = labels[index] === 'FAKE';
+    if (predictedFake === actualFake) correct++;
+    if (predictedFake && actualFake) truePositives++;
+    if (predictedFake && !actualFake) falsePositives++;
+    if (!predictedFake && actualFake) falseNegatives++;
+  });
+
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0;
+  return {
+    accuracy: scores.length > 0 ? correct / scores.length : 0,
+    precision,
+    recall,
+    f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    support: scores.length
+  };
+}
+
+export async function embedTexts(encoder: SentenceEncoder, texts: string[]): Promise<Tensor2D> {
+  const batches: Tensor2D[] = [];
+  for (let start = 0; start < texts.length; start += EMBED_BATCH_SIZE) {
+    batches.push(await encoder.embed(texts.slice(start, start + EMBED_BATCH_SIZE)));
+  }
+  const embeddings = tf.concat(batches) as Tensor2D;
+  batches.forEach(batch => batch.dispose());
+  return embeddings;
+}
+
+// Embeds one text, reusing the embedding of an identical text embedded before
+export async function embedText(
+  encoder: SentenceEncoder,
+  text: string,
+  cache: TtlCache<number[]> = embeddingCache
+): Promise<Tensor2D> {
+  const values = await cache.getOrCompute(contentKey(encoder.name || 'universal-sentence-encoder', text), async () => {
+    const embedding = await encoder.embed([text]);
+    const vector = Array.from(await embedding.data());
+    embedding.dispose();
+    return vector;
+  });
+  return tf.tensor2d([values]);
+}
+
+// Logistic regression over sentence embeddings: one sigmoid unit
+export function createClassifier(): LayersModel {
+  const model = tf.sequential();
+  model.add(tf.layers.dense({ inputShape: [EMBEDDING_SIZE], units: 1, activation: 'sigmoid' }));
+  model.compile({ optimizer: tf.train.adam(0.01), loss: 'binaryCrossentropy', metrics: ['accuracy'] });
+  return model;
+}
+
+export async function predictFakeProbabilities(model: LayersModel, embeddings: Tensor2D): Promise<number[]> {
+  const predictions = model.predict(embeddings) as Tensor2D;
+  const scores = Array.from(await predictions.data());
+  predictions.dispose();
+  return scores;
+}
+
+/**
+ * Embeds the corpus, fits the classifier on the training split and evaluates it on the
+ * held-out split.
+ */
+export async function trainClassifier(
+  corpus: LabeledText[],
+  encoder: SentenceEncoder,
+  options: TrainingOptions = {}
+): Promise<TrainingReport> {
+  const { train, test } = splitHoldout(corpus, options.holdout ?? 0.2, options.seed);
+  if (train.length === 0 || test.length === 0) {
+    throw new Error(`Corpus of ${corpus.length} examples is too small to split into training and test sets`);
+  }
+
+  const model = createClassifier();
+  const trainEmbeddings = await embedTexts(encoder, train.map(example => example.text));
+  const trainLabels = tf.tensor2d(train.map(example => [example.label === 'FAKE' ? 1 : 0]));
+  try {
+    await model.fit(trainEmbeddings, trainLabels, {
+      epochs: options.epochs ?? 30,
+      batchSize: options.batchSize ?? 32,
+      shuffle: true,
+      verbose: 0
+    });
+  } finally {
+    trainEmbeddings.dispose();
+    trainLabels.dispose();
+  }
+
+  const testEmbeddings = await embedTexts(encoder, test.map(example => example.text));
+  const scores = await predictFakeProbabilities(model, testEmbeddings);
+  testEmbeddings.dispose();
+
+  return {
+    model,
+    trainSize: train.length,
+    testSize: test.length,
+    metrics: classificationMetrics(scores, test.map(example => example.label))
+  };
+}
+
+/**
+ * Writes the model in the tfjs layers format (model.json plus weights.bin), the same layout
+ * tf.loadLayersModel('file://...') reads under tfjs-node.
+ */
+export async function saveClassifier(model: LayersModel, modelDir = TEXT_CLASSIFIER_DIR): Promise<void> {
+  await model.save(tf.io.withSaveHandler(async (artifacts: io.ModelArtifacts) => {
+    const weightData = artifacts.weightData
+      ? tf.io.CompositeArrayBuffer.join(artifacts.weightData)
+      : new ArrayBuffer(0);
+    const modelJson = {
+      format: artifacts.format,
+      generatedBy: artifacts.generatedBy,
+      convertedBy: artifacts.convertedBy,
+      modelTopology: artifacts.modelTopology,
+      trainingConfig: artifacts.trainingConfig,
+      weightsManifest: [{ paths: [WEIGHTS_FILE], weights: artifacts.weightSpecs || [] }]
+    };
+
+    await fs.mkdir(modelDir, { recursive: true });
+    await fs.writeFile(path.join(modelDir, WEIGHTS_FILE), Buffer.from(weightData));
+    await fs.writeFile(path.join(modelDir, MODEL_FILE), JSON.stringify(modelJson));
+    return { modelArtifactsInfo: tf.io.getModelArtifactsInfoForJSON(artifacts) };
+  }));
+}
+
+export async function loadClassifier(modelDir = TEXT_CLASSIFIER_DIR): Promise<LayersModel> {
+  let modelJson: io.ModelJSON;
+  try {
+    modelJson = JSON.parse(await fs.readFile(path.join(modelDir, MODEL_FILE), 'utf8'));
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new TextClassifierNotTrainedError(modelDir);
+    }
+    throw error;
+  }
+
+  const artifacts = await tf.io.getModelArtifactsForJSON(modelJson, async (manifest: io.WeightsManifestConfig) => {
+    const weightSpecs = manifest.reduce<io.WeightsManifestEntry[]>((specs, group) => specs.concat(group.weights), []);
+    const files = manifest.reduce<string[]>((paths, group) => paths.concat(group.paths), []);
+    const buffers = await Promise.all(files.map(file => fs.readFile(path.join(modelDir, file))));
+    const weights = Buffer.concat(buffers);
+    return [weightSpecs, weights.buffer.slice(weights.byteOffset, weights.byteOffset + weights.byteLength)];
+  });
+  return tf.loadLayersModel({ load: async () => artifacts });
+}
@@ -0,0 +1,261 @@
+import { FactCheckClaim } from './factCheckService';
+
+export const VERDICTS = ['TRUE', 'MOSTLY_TRUE', 'MIXED', 'MOSTLY_FALSE', 'FALSE', 'SATIRE', 'UNPROVEN'] as const;
+export type Verdict = typeof VERDICTS[number];
+
+// The verdicts that say how true a claim is, from false to true
+const TRUTH_SCALE: Verdict[] = ['FALSE', 'MOSTLY_FALSE', 'MIXED', 'MOSTLY_TRUE', 'TRUE'];
+
+/**
+ * Where a verdict sits between false (0) and true (1). SATIRE and UNPROVEN say nothing about
+ * whether the claim is true, so they have no place on the scale.
+ */
+export function verdictTruth(verdict: Verdict): number | null {
+  const position = TRUTH_SCALE.indexOf(verdict);
+  return position === -1 ? null : position / (TRUTH_SCALE.length - 1);
+}
+
+export interface RatingPublisher {
+  name?: string;
+  site?: string;
+}
+
+interface PublisherRatings {
+  site: string;
+  names: string[];
+  ratings: Record<string, Verdict>;
+}
+
+/**
+ * The rating scales of fact-checkers whose labels the generic rules would misread or miss.
+ * Keys are normalized ratings: lowercase, with hyphens and runs of spaces as single spaces.
+ */
+const PUBLISHER_RATINGS: PublisherRatings[] = [
+  {
+    site: 'politifact.com',
+    names: ['politifact'],
+    ratings: {
+      'true': 'TRUE',
+      'mostly true': 'MOSTLY_TRUE',
+      'half true': 'MIXED',
+      'mostly false': 'MOSTLY_FALSE',
+      'false': 'FALSE',
+      'pants on fire': 'FALSE',
+      // Flip-O-Meter ratings judge consistency, not truth
+      'no flip': 'UNPROVEN',
+      'half flip': 'UNPROVEN',
+      'full flop': 'UNPROVEN'
+    }
+  },
+  {
+    site: 'snopes.com',
+    names: ['snopes', 'snopes.com'],
+    ratings: {
+      'true': 'TRUE',
+      'mostly true': 'MOSTLY_TRUE',
+      'correct attribution': 'TRUE',
+      'mixture': 'MIXED',
+      'mostly false': 'MOSTLY_FALSE',
+      'miscaptioned': 'MOSTLY_FALSE',
+      'outdated': 'MIXED',
+      'false': 'FALSE',
+      'misattributed': 'FALSE',
+      'scam': 'FALSE',
+      'legend': 'FALSE',
+      'fake': 'FALSE',
+      'labeled satire': 'SATIRE',
+      'originated as satire': 'SATIRE',
+      'unproven': 'UNPROVEN',
+      'unfounded': 'UNPROVEN',
+      'research in progress': 'UNPROVEN'
+    }
+  },
+  {
+    site: 'boomlive.in',
+    names: ['boom', 'boom live', 'boomlive'],
+    ratings: {
+      'true': 'TRUE',
+      'partly true': 'MIXED',
+      'misleading': 'MOSTLY_FALSE',
+      'false': 'FALSE',
+      'fake': 'FALSE',
+      'sarcasm': 'SATIRE',
+      'satire': 'SATIRE',
+      'unverified': 'UNPROVEN',
+      'सच': 'TRUE',
+      'भ्रामक': 'MOSTLY_FALSE',
+      'फ़र्ज़ी': 'FALSE',
+      'फर्जी': 'FALSE',
+      'व्यंग्य': 'SATIRE'
+    }
+  },
+  {
+    site: 'altnews.in',
+    names: ['alt news', 'altnews'],
+    ratings: {
+      'true': 'TRUE',
+      'partially true': 'MIXED',
+      'missing context': 'MIXED',
+      'misleading': 'MOSTLY_FALSE',
+      'mis captioned': 'MOSTLY_FALSE',
+      'false': 'FALSE',
+      'fabricated': 'FALSE',
+      'doctored': 'FALSE',
+      'edited': 'FALSE',
+      'satire': 'SATIRE',
+      'unverified': 'UNPROVEN',
+      'सच': 'TRUE',
+      'भ्रामक': 'MOSTLY_FALSE',
+      'गलत': 'FALSE',
+      'ग़लत': 'FALSE'
+    }
+  }
+];
+
+// Hindi adjective and plural endings, so "झूठ" also matches "झूठा", "झूठी" and "झूठे"
+const DEVANAGARI_INFLECTION = '(?:ा|ी|े|ों|ें)?';
+
+// Matches any of the phrases as whole words, in any script
+function phrases(...alternatives: string[]): RegExp {
+  return new RegExp(
+    `(?<![\\p{L}\\p{M}])(?:${alternatives.join('|')})${DEVANAGARI_INFLECTION}(?![\\p{L}\\p{M}])`, 'u');
+}
+
+const TRUE_WORDS = 'true|accurate|correct|verdadero|verdadeiro|vrai|wahr|सच|सही|सत्य';
+const FALSE_WORDS = 'false|fake|untrue|falso|faux|falsch|गलत|ग़लत|झूठ|फर्जी|फ़र्ज़ी|फेक|असत्य';
+
+const QUALIFIERS = 'entirely|completely|quite|wholly|totally|all';
+
+/**
+ * Rules for ratings no publisher map covers, tried in order. Qualified and negated ratings
+ * ("mostly false", "not true but...") come before the bare words they contain, and outright
+ * falsehood before "misleading" and "no evidence", so "False and misleading" and "False. No
+ * evidence supports it" are FALSE.
+ */
+const RATING_RULES: [RegExp, Verdict][] = [
+  [phrases(`(?:not|isn't) (?:${QUALIFIERS}) (?:${TRUE_WORDS}|${FALSE_WORDS})`), 'MIXED'],
+  [phrases(`(?:not|isn't) (?:${TRUE_WORDS})`, `(?:${TRUE_WORDS}) नहीं`), 'FALSE'],
+  [phrases(`(?:not|isn't) (?:${FALSE_WORDS})`), 'TRUE'],
+  [phrases('satire', 'satirical', 'sarcasm', 'parody', 'humou?r', 'sátira', 'satira', 'व्यंग्य'), 'SATIRE'],
+  [phrases('unproven', 'unverified', 'unsubstantiated', 'unfounded', 'research in progress', 'अपुष्ट'), 'UNPROVEN'],
+  [phrases(`(?:mostly|largely|mainly) (?:${FALSE_WORDS})`), 'MOSTLY_FALSE'],
+  [phrases(`(?:mostly|largely|mainly) (?:${TRUE_WORDS})`), 'MOSTLY_TRUE'],
+  [phrases('half true', 'half truth', 'mixture', 'mixed', 'partly', 'partially', 'part true', 'part false',
+    'missing context', 'needs context', 'lacks context', 'outdated', 'parcialmente', 'en parte', 'partiellement',
+    'teilweise', 'आंशिक', 'आधा सच'), 'MIXED'],
+  [phrases(FALSE_WORDS, 'pants on fire', 'incorrect', 'inaccurate', 'wrong', 'hoax', 'fabricated', 'doctored',
+    'altered', 'manipulated', 'debunked', 'baseless', 'bogus', 'misattributed', 'scam', 'fabricado', 'trucado'), 'FALSE'],
+  [phrases('misleading', 'miscaptioned', 'mis captioned', 'exaggerated', 'exaggeration', 'out of context',
+    'distorted', 'cherry picked', 'spin', 'engañoso', 'enganoso', 'enganador', 'trompeur', 'irreführend',
+    'भ्रामक'), 'MOSTLY_FALSE'],
+  [phrases('no evidence', 'insufficient evidence', 'sin evidencia'), 'UNPROVEN'],
+  [phrases(TRUE_WORDS, 'confirmed'), 'TRUE']
+];
+
+// Numeric ClaimReview ratings, kept as "ratingValue/bestRating" on a scale from 1 (false)
+const NUMERIC_RATING = /^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/;
+
+function normalizeRating(rating: string): string {
+  return rating
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[’`]/g, "'")
+    .replace(/[\s_-]+/g, ' ')
+    .replace(/^[\s"'“”.!?:-]+|[\s"'“”.!?:…-]+$/g, '');
+}
+
+function publisherRatings(publisher: RatingPublisher | undefined): PublisherRatings | undefined {
+  const site = publisher?.site?.toLowerCase().replace(/^www\./, '');
+  const name = publisher?.name?.trim().toLowerCase();
+  return PUBLISHER_RATINGS.find(entry =>
+    (site && (site === entry.site || site.endsWith(`.${entry.site}`))) || (name && entry.names.includes(name))
+  );
+}
+
+/**
+ * Maps a fact-checker's textual rating onto the verdict scale. The publisher's own rating map is
+ * used when there is one, then generic rules in several languages. Ratings nothing recognizes
+ * are UNPROVEN.
+ */
+export function classifyRating(rating: string | null | undefined, publisher?: RatingPublisher): Verdict {
+  const normalized = rating ? normalizeRating(rating) : '';
+  if (!normalized) return 'UNPROVEN';
+
+  const known = publisherRatings(publisher)?.ratings[normalized];
+  if (known) return known;
+
+  const numeric = NUMERIC_RATING.exec(normalized);
+  if (numeric) {
+    const value = Number(numeric[1]);
+    const best = Number(numeric[2]);
+    if (best <= 1) return 'UNPROVEN';
+    const truth = Math.min(1, Math.max(0, (value - 1) / (best - 1)));
+    return TRUTH_SCALE[Math.round(truth * (TRUTH_SCALE.length - 1))];
+  }
+
+  const rule = RATING_RULES.find(([pattern]) => pattern.test(normalized));
+  return rule ? rule[1] : 'UNPROVEN';
+}
+
+export interface ReviewVerdict {
+  verdict: Verdict;
+  rating: string;
+  publisher: string;
+}
+
+export interface VerdictConsensus {
+  verdict: Verdict;
+  // Mean truth (0-1) of the reviews with a verdict on the truth scale, or null when none have one
+  truth: number | null;
+  // Share of the counted reviews whose verdict is the consensus verdict
+  agreement: number;
+  // The first counted review that agrees, as the rating to show
+  rating: string | null;
+  publisher: string | null;
+  reviews: ReviewVerdict[];
+}
+
+/**
+ * Combines every review of the matched claims into one verdict. Each publisher counts once,
+ * with its first (most relevant) review. Reviews on the truth scale are averaged and the mean
+ * rounded to the nearest verdict; when there are none, SATIRE wins over UNPROVEN if any
+ * publisher found the claim to be satire.
+ */
+export function verdictConsensus(claims: FactCheckClaim[]): VerdictConsensus {
+  const seen = new Set<string>();
+  const reviews: ReviewVerdict[] = [];
+  claims.forEach(claim => claim.claimReview.forEach(review => {
+    const key = (review.publisher.site || review.publisher.name || review.url).toLowerCase();
+    if (seen.has(key)) return;
+    seen.add(key);
+    reviews.push({
+      verdict: classifyRating(review.textualRating, review.publisher),
+      rating: review.textualRating,
+      publisher: review.publisher.name || review.publisher.site
+    });
+  }));
+
+  const truths = reviews
+    .map(review => verdictTruth(review.verdict))
+    .filter((truth): truth is number => truth !== null);
+  const truth = truths.length > 0 ? truths.reduce((sum, value) => sum + value, 0) / truths.length : null;
+  const verdict: Verdict = truth !== null
+    ? TRUTH_SCALE[Math.round(truth * (TRUTH_SCALE.length - 1))]
+    : reviews.some(review => review.verdict === 'SATIRE') ? 'SATIRE' : 'UNPROVEN';
+
+  const agreeing = reviews.filter(review => review.verdict === verdict);
+  const representative = agreeing[0] || reviews[0];
+  return {
+    verdict,
+    truth,
+    agreement: reviews.length > 0 ? agreeing.length / reviews.length : 0,
+    rating: representative?.rating || null,
+    publisher: representative?.publisher || null,
+    reviews
+  };
+}
+
+// Lowercase label for reasoning text, e.g. "mostly false"
+export function verdictLabel(verdict: Verdict): string {
+  return verdict.toLowerCase().replace('_', ' ');
+}
@@ -0,0 +1,234 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+
+export type FrameSampling =
+  // One frame every N seconds of video
+  | { mode: 'interval'; everySeconds: number }
+  // The first frame plus every frame whose scene-change score (0-1) exceeds the threshold
+  | { mode: 'scene'; threshold: number };
+
+export interface FrameExtractionOptions {
+  sampling?: FrameSampling;
+  // Hard cap on the number of frames decoded, whatever the sampling yields
+  maxFrames?: number;
+  // Frames wider than this are scaled down, keeping the aspect ratio
+  maxWidth?: number;
+  timeoutMs?: number;
+  ffmpegPath?: string;
+}
+
+export interface VideoFrame {
+  // Position in the sampled sequence
+  index: number;
+  // Presentation time in seconds from the start of the video
+  timestamp: number;
+  width: number;
+  height: number;
+  channels: 3;
+  // Raw RGB pixels, ready for sharp({ raw }) or tf.tensor3d
+  data: Buffer;
+}
+
+export interface VideoProbe {
+  durationSeconds?: number;
+  frameRate?: number;
+}
+
+export interface ExtractedFrames extends VideoProbe {
+  frames: VideoFrame[];
+}
+
+const DEFAULT_SAMPLING: FrameSampling = { mode: 'interval', everySeconds: 1 };
+const DEFAULT_MAX_FRAMES = 30;
+const DEFAULT_MAX_WIDTH = 640;
+const DEFAULT_TIMEOUT = 60000;
+// ffmpeg may only read the local input file, never follow references in it to other protocols
+const PROTOCOL_WHITELIST = 'file,pipe';
+
+export class UnsupportedVideoFormatError extends Error {
+  constructor() {
+    super('Unsupported video format; expected MP4/MOV, WebM/MKV, AVI, FLV, Ogg or MPEG');
+    this.name = 'UnsupportedVideoFormatError';
+  }
+}
+
+/**
+ * Reads sampling settings from VIDEO_FRAME_SAMPLING (interval or scene), VIDEO_FRAME_INTERVAL,
+ * VIDEO_SCENE_THRESHOLD, VIDEO_MAX_FRAMES and FFMPEG_PATH.
+ */
+export function frameExtractionOptionsFromEnv(): FrameExtractionOptions {
+  const number = (value: string | undefined) => (value && Number(value) > 0 ? Number(value) : undefined);
+  const sampling: FrameSampling = process.env.VIDEO_FRAME_SAMPLING === 'scene'
+    ? { mode: 'scene', threshold: number(process.env.VIDEO_SCENE_THRESHOLD) ?? 0.3 }
+    : { mode: 'interval', everySeconds: number(process.env.VIDEO_FRAME_INTERVAL) ?? 1 };
+
+  return {
+    sampling,
+    maxFrames: number(process.env.VIDEO_MAX_FRAMES),
+    ffmpegPath: process.env.FFMPEG_PATH
+  };
+}
+
+/**
+ * Builds the ffmpeg filter chain that picks frames, scales them down and logs each picked
+ * frame's timestamp via showinfo. With a known duration the interval is widened so the frame
+ * budget covers the whole video instead of just its opening seconds.
+ */
+export function buildFrameFilter(
+  sampling: FrameSampling,
+  { maxFrames = DEFAULT_MAX_FRAMES, maxWidth = DEFAULT_MAX_WIDTH, durationSeconds }: {
+    maxFrames?: number;
+    maxWidth?: number;
+    durationSeconds?: number;
+  } = {}
+): string {
+  let select: string;
+  if (sampling.mode === 'scene') {
+    select = `select=eq(n\\,0)+gt(scene\\,${sampling.threshold})`;
+  } else {
+    const everySeconds = durationSeconds
+      ? Math.max(sampling.everySeconds, durationSeconds / maxFrames)
+      : sampling.everySeconds;
+    select = `select=isnan(prev_selected_t)+gte(t-prev_selected_t\\,${Math.round(everySeconds * 1000) / 1000})`;
+  }
+  return `${select},scale=w=min(iw\\,${maxWidth}):h=-2,showinfo`;
+}
+
+export function parseProbe(ffmpegLog: string): VideoProbe {
+  const duration = ffmpegLog.match(/Duration:\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+  const frameRate = ffmpegLog.match(/Stream #.*Video:.*?([\d.]+) fps/);
+  return {
+    durationSeconds: duration
+      ? Number(duration[1]) * 3600 + Number(duration[2]) * 60 + Number(duration[3])
+      : undefined,
+    frameRate: frameRate ? Number(frameRate[1]) : undefined
+  };
+}
+
+/**
+ * Picks the ffmpeg demuxer from the file's magic bytes, so ffmpeg never guesses a format
+ * (playlists, concat lists) that can make it open other files or URLs.
+ */
+export function detectVideoFormat(video: Buffer): string | null {
+  if (video.length < 16) return null;
+  const ascii = (start: number, end: number) => video.subarray(start, end).toString('latin1');
+  if (ascii(4, 8) === 'ftyp') return 'mov';
+  if (video.readUInt32BE(0) === 0x1a45dfa3) return 'matroska';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'AVI ') return 'avi';
+  if (ascii(0, 3) === 'FLV') return 'flv';
+  if (ascii(0, 4) === 'OggS') return 'ogg';
+  if (video.readUInt32BE(0) === 0x000001ba) return 'mpeg';
+  if (video[0] === 0x47 && video[188] === 0x47) return 'mpegts';
+  return null;
+}
+
+// showinfo logs one line per frame it passes, e.g. "[Parsed_showinfo_2 @ 0x..] n:   3 pts: 30720 pts_time:2.5 ..."
+export function parseFrameTimestamps(ffmpegLog: string): number[] {
+  return Array.from(ffmpegLog.matchAll(/Parsed_showinfo.*?\bn:\s*\d+.*?\bpts_time:\s*(-?[\d.]+)/g))
+    .map(match => Number(match[1]));
+}
+
+// Resolves with ffmpeg's log; a non-zero exit only rejects when `allowFailure` is false
+function runFfmpeg(ffmpegPath: string, args: string[], timeoutMs: number, allowFailure = false): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(ffmpegPath, ['-hide_banner', ...args], { stdio: ['ignore', 'ignore', 'pipe'] });
+    let log = '';
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new Error(`ffmpeg timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    child.stderr.on('data', chunk => {
+      log += chunk.toString();
+    });
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(error.code === 'ENOENT'
+        ? new Error(`ffmpeg was not found at "${ffmpegPath}"; install it or set FFMPEG_PATH`)
+        : error);
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      if (code === 0 || allowFailure) {
+        resolve(log);
+      } else {
+        const lastLine = log.trim().split('\n').pop();
+        reject(new Error(`ffmpeg exited with code ${code}${lastLine ? `: ${lastLine}` : ''}`));
+      }
+    });
+  });
+}
+
+// Rejects with the same "not found" error as an extraction would when ffmpeg cannot be run
+export async function checkFfmpeg(ffmpegPath = 'ffmpeg', timeoutMs = 5000): Promise<void> {
+  await runFfmpeg(ffmpegPath, ['-version'], timeoutMs);
+}
+
+/**
+ * Samples frames from a video with a local ffmpeg binary and decodes them to raw RGB.
+ * The video is written to a temporary file because most MP4s are not seekable from a pipe.
+ * Videos whose container is not recognised are rejected before ffmpeg sees them.
+ */
+export async function extractVideoFrames(
+  video: Buffer,
+  options: FrameExtractionOptions = {}
+): Promise<ExtractedFrames> {
+  const ffmpegPath = options.ffmpegPath || 'ffmpeg';
+  const maxFrames = options.maxFrames ?? DEFAULT_MAX_FRAMES;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT;
+  const format = detectVideoFormat(video);
+  if (!format) {
+    throw new UnsupportedVideoFormatError();
+  }
+  const inputArgs = ['-protocol_whitelist', PROTOCOL_WHITELIST, '-f', format];
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'video-frames-'));
+
+  try {
+    const input = path.join(workDir, 'input');
+    await fs.writeFile(input, video);
+
+    // Without an output ffmpeg only prints the input's details and exits with an error
+    const probe = parseProbe(await runFfmpeg(ffmpegPath, [...inputArgs, '-i', input], timeoutMs, true));
+
+    const filter = buildFrameFilter(options.sampling || DEFAULT_SAMPLING, {
+      maxFrames,
+      maxWidth: options.maxWidth,
+      durationSeconds: probe.durationSeconds
+    });
+    const log = await runFfmpeg(ffmpegPath, [
+      ...inputArgs,
+      '-i', input,
+      '-an',
+      '-vf', filter,
+      '-vsync', 'vfr',
+      '-frames:v', String(maxFrames),
+      path.join(workDir, 'frame-%05d.png')
+    ], timeoutMs);
+
+    const timestamps = parseFrameTimestamps(log);
+    const files = (await fs.readdir(workDir)).filter(name => name.startsWith('frame-')).sort();
+
+    const frames: VideoFrame[] = [];
+    for (const [index, file] of files.entries()) {
+      const { data, info } = await sharp(path.join(workDir, file))
+        .removeAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      frames.push({
+        index,
+        timestamp: timestamps[index] ?? (index * (probe.durationSeconds || 0)) / files.length,
+        width: info.width,
+        height: info.height,
+        channels: 3,
+        data
+      });
+    }
+
+    return { ...probe, frames };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,115 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AnalysisHistoryStore, hashContent } from '../services/analysisHistory';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+function textRecord(text: string, prediction: string) {
+  return { kind: 'text' as const, hashInput: text, input: { text }, output: { prediction }, durationMs: 5 };
+}
+
+async function testPersistence(dir: string) {
+  const filePath = path.join(dir, 'history', 'analysis-history.jsonl');
+  const store = new AnalysisHistoryStore(filePath);
+  const [first] = await Promise.all([
+    store.record(textRecord('Aliens landed', 'FAKE')),
+    store.record(textRecord('Rates unchanged', 'REAL')),
+    store.record({ kind: 'source', hashInput: 'https://news.example', input: {}, output: {}, durationMs: 1 })
+  ]);
+  assert.strictEqual(first.inputHash, hashContent('Aliens landed'));
+  assert.strictEqual(fs.readFileSync(filePath, 'utf8').split('\n').filter(Boolean).length, 3, 'one line per record');
+
+  // A crash mid-append leaves a truncated last line behind
+  fs.appendFileSync(filePath, '{"id":"cut short');
+  const reloaded = new AnalysisHistoryStore(filePath);
+  assert.deepStrictEqual((await reloaded.list<{ prediction: string }>('text')).map(record => record.output.prediction),
+    ['FAKE', 'REAL']);
+  assert.strictEqual((await reloaded.list('source')).length, 1);
+  assert.deepStrictEqual((await reloaded.findByHash('text', hashContent('Rates unchanged'))).map(record => record.input),
+    [{ text: 'Rates unchanged' }]);
+  logger.info('Persistence and reload passed');
+}
+
+async function testMemoryLimit(dir: string) {
+  const filePath = path.join(dir, 'limited.jsonl');
+  const store = new AnalysisHistoryStore(filePath, 2);
+  for (const text of ['one', 'two', 'three']) {
+    await store.record(textRecord(text, 'REAL'));
+  }
+  assert.deepStrictEqual((await store.list('text')).map(record => record.input.text), ['two', 'three'],
+    'only the most recent records are kept in memory');
+
+  const reloaded = new AnalysisHistoryStore(filePath, 2);
+  assert.deepStrictEqual((await reloaded.list('text')).map(record => record.input.text), ['two', 'three']);
+  const lines = () => fs.readFileSync(filePath, 'utf8').split('\n').filter(Boolean);
+  assert.strictEqual(lines().length, 3, 'the file keeps more records than memory until it needs compacting');
+
+  await reloaded.record(textRecord('four', 'REAL'));
+  await reloaded.record(textRecord('five', 'FAKE'));
+  assert.deepStrictEqual(lines().map(line => JSON.parse(line).input.text), ['four', 'five'],
+    'past twice the limit the file is compacted to the records held in memory');
+  await reloaded.record(textRecord('six', 'REAL'));
+  assert.strictEqual(lines().length, 3, 'appends continue after compacting');
+
+  fs.writeFileSync(filePath, ['a', 'b', 'c', 'd', 'e'].map(text => JSON.stringify({ id: text, kind: 'text', input: { text }, output: {} })).join('\n'));
+  const oversized = new AnalysisHistoryStore(filePath, 2);
+  assert.deepStrictEqual((await oversized.list('text')).map(record => record.input.text), ['d', 'e']);
+  await oversized.record(textRecord('f', 'REAL'));
+  assert.deepStrictEqual(lines().map(line => JSON.parse(line).input.text), ['d', 'e', 'f'],
+    'a file found too long on load is compacted too');
+  logger.info('Memory limit passed');
+}
+
+async function testIndexes(dir: string) {
+  const filePath = path.join(dir, 'indexed.jsonl');
+  const sourceOf = (record: { input: { source?: unknown } }) => typeof record.input.source === 'string' ? record.input.source : null;
+  const writer = new AnalysisHistoryStore(filePath);
+  await writer.record({ ...textRecord('Old news', 'REAL'), input: { text: 'Old news', source: 'wire' } });
+
+  const store = new AnalysisHistoryStore(filePath, 2);
+  store.defineIndex('bySource', 'text', sourceOf);
+  assert.strictEqual((await store.listIndexed('bySource', 'wire')).length, 1, 'loaded records are indexed');
+  await store.record({ ...textRecord('Fresh news', 'REAL'), input: { text: 'Fresh news', source: 'desk' } });
+  await store.record({ ...textRecord('More news', 'FAKE'), input: { text: 'More news', source: 'desk' } });
+  await store.record({ kind: 'source', hashInput: 'desk', input: { source: 'desk' }, output: {}, durationMs: 1 });
+  assert.deepStrictEqual((await store.listIndexed('bySource', 'desk')).map(record => record.input.text), ['More news'],
+    'only records of the index kind still held in memory are listed');
+  assert.deepStrictEqual(await store.listIndexed('bySource', 'wire'), []);
+  await assert.rejects(store.listIndexed('byAuthor', 'desk'), /Unknown analysis history index/);
+  logger.info('Indexes passed');
+}
+
+async function testFailedLoad(dir: string) {
+  const filePath = path.join(dir, 'unreadable.jsonl');
+  // A directory where the file should be makes reading it fail
+  fs.mkdirSync(filePath);
+  const store = new AnalysisHistoryStore(filePath);
+  await assert.rejects(store.list('text'), /EISDIR/);
+
+  fs.rmdirSync(filePath);
+  fs.writeFileSync(filePath, `${JSON.stringify({ id: '1', kind: 'text', input: {}, output: {} })}\n`);
+  assert.strictEqual((await store.list('text')).length, 1, 'a failed load is retried');
+  logger.info('Failed load retry passed');
+}
+
+async function runTests() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'analysis-history-'));
+  try {
+    logger.info('Starting analysis history tests...');
+    await testPersistence(dir);
+    await testMemoryLimit(dir);
+    await testIndexes(dir);
+    await testFailedLoad(dir);
+    logger.info('All analysis history tests passed');
+  } catch (error) {
+    logger.error('Analysis history tests failed:', error);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+runTests();
@@ -1,7 +1,9 @@
 import { TransformerAnalyzer } from '../models/transformerAnalyzer';
-import { MediaAnalyzer } from '../models/mediaAnalyzer';
+import { MediaAnalysisService } from '../services/mediaAnalysis';
+import { PerceptualImageIndex } from '../services/imageIndex';
 import { setupLogger } from '../utils/logger';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import sharp from 'sharp';
 
@@ -35,7 +37,8 @@ async function testTextAnalysis() {
 
 async function testMediaAnalysis() {
   try {
-    const analyzer = new MediaAnalyzer();
+    // Local files are only matched against the index, so an empty one in the temp dir will do
+    const analyzer = new MediaAnalysisService(new PerceptualImageIndex(path.join(os.tmpdir(), 'analyzer-test-index.jsonl')));
     await analyzer.initialize();
 
     // Create test directory if it doesn't exist
@@ -60,12 +63,12 @@ async function testMediaAnalysis() {
         .toFile(testImagePath);
     }
 
-    const result = await analyzer.analyzeMedia(testImagePath, 'image');
+    const result = await analyzer.analyzeImage({ path: testImagePath });
     logger.info('Media Analysis Result:', {
       isManipulated: result.isManipulated,
       confidence: result.confidence,
       metadata: result.metadata,
-      analysis: result.analysis
+      checksRun: result.checksRun
     });
   } catch (error) {
     logger.error('Media analysis test failed:', error);
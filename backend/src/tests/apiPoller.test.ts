@@ -0,0 +1,183 @@
+import assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ApiPoller, ApiSourceMapping, extractApiItems, mapApiItem } from '../services/apiPoller';
+import { getJsonPathValue, queryJsonPath } from '../utils/jsonPath';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+function testJsonPath() {
+  const data = {
+    data: {
+      articles: [
+        { id: 1, media: { url: 'https://cdn.example/1.jpg' } },
+        { id: 2, 'full text': 'Second' }
+      ]
+    },
+    sources: { wire: { name: 'Wire' }, desk: { name: 'Desk' } }
+  };
+
+  assert.deepStrictEqual(queryJsonPath(data, '$.data.articles[*].id'), [1, 2]);
+  assert.deepStrictEqual(queryJsonPath(data, 'data.articles[0].media.url'), ['https://cdn.example/1.jpg'],
+    'paths without $ are relative');
+  assert.deepStrictEqual(queryJsonPath(data, "$.data.articles[1]['full text']"), ['Second']);
+  assert.deepStrictEqual(queryJsonPath(data, '$["sources"].*.name'), ['Wire', 'Desk'], 'wildcards fan out over objects');
+  assert.deepStrictEqual(queryJsonPath(data, '$'), [data]);
+  assert.deepStrictEqual(queryJsonPath(data, '$.data.missing[*].id'), []);
+  assert.strictEqual(getJsonPathValue(data, '$.data.articles[5]'), undefined);
+  assert.throws(() => queryJsonPath(data, '$..id'), /Invalid JSONPath "\$\.\.id" at position 1/);
+  assert.throws(() => queryJsonPath(data, '$.data[articles]'), /Invalid JSONPath/);
+  logger.info('JSONPath parsing passed');
+}
+
+function testItemMapping() {
+  const mapping: ApiSourceMapping = {
+    items: '$.results',
+    text: 'body',
+    title: 'headline',
+    link: 'links.web',
+    id: 'id',
+    publishedAt: 'published',
+    media: 'image.src'
+  };
+  const data = {
+    results: [
+      { id: 7, body: ' Floods close schools ', headline: 'Floods', published: 1706745600, image: { src: 'https://cdn.example/7.jpg' } },
+      { body: 'No id here', links: { web: 'https://news.example/2' }, published: '2024-02-01T10:00:00Z' },
+      { body: 'Neither id nor link', published: 'not a date' },
+      { headline: 'No text' }
+    ]
+  };
+
+  const items = extractApiItems(data, mapping);
+  assert.deepStrictEqual(items.map(item => item.guid), ['7', 'https://news.example/2', 'Neither id nor link'],
+    'ids fall back to the link, then the text');
+  assert.deepStrictEqual(items[0], {
+    guid: '7',
+    text: 'Floods close schools',
+    title: 'Floods',
+    link: undefined,
+    publishedAt: '2024-02-01T00:00:00.000Z',
+    media: 'https://cdn.example/7.jpg'
+  });
+  assert.strictEqual(items[1].publishedAt, '2024-02-01T10:00:00.000Z');
+  assert.strictEqual(items[2].publishedAt, undefined);
+  assert.strictEqual(mapApiItem({ headline: 'No text' }, mapping), null);
+
+  assert.strictEqual(extractApiItems(data, { ...mapping, items: '$.results[*]' }).length, 3,
+    'a [*] path yields the same items as a path to the array');
+  logger.info('Item mapping passed');
+}
+
+interface RecordedRequest {
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+}
+
+async function testPolling() {
+  const requests: RecordedRequest[] = [];
+  const cursorPages: Record<string, unknown> = {
+    '': { items: [{ id: 'a', text: 'First' }, { id: 'b', text: 'Second' }], next: 'page-2' },
+    'page-2': { items: [{ id: 'c', text: 'Third' }], next: null }
+  };
+  const numberedPages: Record<string, unknown[]> = {
+    '1': [{ id: 'x', text: 'One' }, { id: 'y', text: 'Two' }],
+    '2': [{ id: 'z', text: 'Three' }],
+    '3': []
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    requests.push({ path: url.pathname, query: url.searchParams, headers: req.headers });
+    if (url.pathname === '/cursor') {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(cursorPages[url.searchParams.get('cursor') || '']));
+    } else if (url.pathname === '/pages') {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify({ data: numberedPages[url.searchParams.get('page') || ''] || [] }));
+    } else {
+      res.writeHead(200, { 'Content-Type': 'text/html' }).end('<html></html>');
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  try {
+    const poller = new ApiPoller({ allowPrivateNetworks: true });
+    const cursorMapping: ApiSourceMapping = {
+      items: '$.items',
+      text: 'text',
+      id: 'id',
+      params: { lang: 'en' },
+      pagination: { type: 'cursor', param: 'cursor', nextCursorPath: '$.next' }
+    };
+
+    const first = await poller.fetchNewItems(`${baseUrl}/cursor`, cursorMapping, { apiKey: 'secret' });
+    assert.deepStrictEqual(first.map(item => item.guid), ['a', 'b', 'c']);
+    assert.deepStrictEqual(requests.map(request => request.query.get('cursor')), [null, 'page-2'],
+      'the cursor from each response is sent with the next request');
+    assert.ok(requests.every(request => request.query.get('lang') === 'en'));
+    assert.strictEqual(requests[0].headers.authorization, 'Bearer secret', 'API keys default to a bearer token');
+
+    cursorPages[''] = { items: [{ id: 'd', text: 'Fourth' }, { id: 'a', text: 'First' }], next: null };
+    const second = await poller.fetchNewItems(`${baseUrl}/cursor`, cursorMapping);
+    assert.deepStrictEqual(second.map(item => item.guid), ['d'], 'items seen on earlier polls are left out');
+    poller.forget(`${baseUrl}/cursor`);
+    assert.strictEqual((await poller.fetchNewItems(`${baseUrl}/cursor`, cursorMapping)).length, 2);
+
+    requests.length = 0;
+    const pageMapping: ApiSourceMapping = {
+      items: '$.data[*]',
+      text: 'text',
+      id: 'id',
+      apiKeyQueryParam: 'key',
+      pagination: { type: 'page', param: 'page', pageSizeParam: 'size', pageSize: 2 }
+    };
+    const pages = await poller.fetchNewItems(`${baseUrl}/pages`, pageMapping, { apiKey: 'secret' });
+    assert.deepStrictEqual(pages.map(item => item.guid), ['x', 'y', 'z']);
+    assert.deepStrictEqual(requests.map(request => request.query.get('page')), ['1', '2', '3'], 'paging stops at an empty page');
+    assert.ok(requests.every(request => request.query.get('size') === '2' && request.query.get('key') === 'secret'));
+    assert.strictEqual(requests[0].headers.authorization, undefined);
+
+    requests.length = 0;
+    const limited = new ApiPoller({ allowPrivateNetworks: true });
+    assert.strictEqual((await limited.fetchNewItems(`${baseUrl}/pages`, { ...pageMapping, maxPages: 1 })).length, 2);
+    assert.strictEqual(requests.length, 1, 'maxPages caps the requests per poll');
+
+    requests.length = 0;
+    await limited.fetchNewItems(`${baseUrl}/pages`, { ...pageMapping, apiKeyQueryParam: undefined, apiKeyHeader: 'X-Api-Key' },
+      { apiKey: 'secret' });
+    assert.strictEqual(requests[0].headers['x-api-key'], 'secret');
+    assert.strictEqual(requests[0].query.get('key'), null);
+
+    requests.length = 0;
+    await limited.fetchNewItems(`${baseUrl}/pages`, { ...pageMapping, pagination: undefined },
+      { username: 'monitor', password: 'p@ss' });
+    assert.strictEqual(requests[0].headers.authorization, `Basic ${Buffer.from('monitor:p@ss').toString('base64')}`);
+
+    await assert.rejects(limited.fetchNewItems(`${baseUrl}/other`, cursorMapping), /did not return JSON/);
+    await assert.rejects(new ApiPoller().fetchNewItems(`${baseUrl}/cursor`, cursorMapping), /private or reserved address/,
+      'APIs on private addresses are refused');
+    logger.info('Pagination, credentials and dedupe passed');
+  } finally {
+    server.close();
+  }
+}
+
+async function runTests() {
+  try {
+    logger.info('Starting API poller tests...');
+    testJsonPath();
+    testItemMapping();
+    await testPolling();
+    logger.info('All API poller tests passed');
+  } catch (error) {
+    logger.error('API poller tests failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+runTests();
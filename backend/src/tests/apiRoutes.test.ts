@@ -0,0 +1,102 @@
+import assert from 'assert';
+import axios, { AxiosInstance } from 'axios';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+async function testVersionedRoutes(client: AxiosInstance) {
+  for (const route of ['/health', '/api/v1/analysis/stats', '/api/v1/media/capabilities', '/api/v1/monitor/status', '/api/v1/cache/stats']) {
+    const response = await client.get(route);
+    assert.strictEqual(response.status, 200, route);
+    assert.strictEqual(response.headers.deprecation, undefined, `${route} is not deprecated`);
+  }
+
+  const missingText = await client.post('/api/v1/analysis/text', { text: 42 });
+  assert.deepStrictEqual([missingText.status, missingText.data], [400, { error: 'text must be a string' }]);
+  const record = await client.post('/api/v1/analysis/text', { text: 'Some text', record: 'no' });
+  assert.deepStrictEqual([record.status, record.data], [400, { error: 'record must be a boolean' }]);
+
+  const noImage = await client.post('/api/v1/media/analyze/image', {});
+  assert.deepStrictEqual([noImage.status, noImage.data], [400, { error: 'Image file or imageUrl is required' }]);
+  assert.strictEqual((await client.get('/api/v1/nothing-here')).status, 404);
+  logger.info('Versioned routes passed');
+}
+
+async function testLegacyAliases(client: AxiosInstance) {
+  const aliases: [string, string][] = [
+    ['/api/analyze/stats', '/api/v1/analysis/stats'],
+    ['/api/analysis/stats', '/api/v1/analysis/stats'],
+    ['/api/media/capabilities', '/api/v1/media/capabilities'],
+    ['/api/monitor/status', '/api/v1/monitor/status'],
+    ['/api/cache/stats', '/api/v1/cache/stats']
+  ];
+  for (const [legacy, successor] of aliases) {
+    const [old, current] = await Promise.all([client.get(legacy), client.get(successor)]);
+    assert.strictEqual(old.status, 200, legacy);
+    assert.strictEqual(old.headers.deprecation, 'true', `${legacy} is deprecated`);
+    assert.strictEqual(old.headers.link, `<${successor}>; rel="successor-version"`);
+    assert.deepStrictEqual(Object.keys(old.data), Object.keys(current.data), `${legacy} answers like ${successor}`);
+  }
+
+  const text = await client.post('/api/analyze/text', { text: 42 });
+  assert.deepStrictEqual([text.status, text.data], [400, { error: 'text must be a string' }]);
+  assert.strictEqual(text.headers.deprecation, 'true');
+
+  // The legacy media paths keep their old error bodies
+  for (const type of ['image', 'video']) {
+    const response = await client.post(`/api/media/analyze/${type}`, {});
+    assert.deepStrictEqual([response.status, response.data], [400, { error: `No ${type} file provided` }]);
+    assert.strictEqual(response.headers.link, `</api/v1/media/analyze/${type}>; rel="successor-version"`);
+  }
+
+  const batch = await client.post('/api/source/batch-verify', { urls: ['https://bbc.com', 7] });
+  assert.strictEqual(batch.status, 400, 'the source routes validate through the alias too');
+  assert.strictEqual(batch.headers.deprecation, 'true');
+  logger.info('Legacy aliases passed');
+}
+
+async function testBatchVerifyLimits(client: AxiosInstance) {
+  const tooMany = await client.post('/api/v1/source/batch-verify', {
+    urls: Array.from({ length: 21 }, (_, i) => `https://outlet${i}.example`)
+  });
+  assert.strictEqual(tooMany.status, 400, 'more than 20 URLs are refused');
+  for (const urls of [undefined, 'https://bbc.com', [''], [{ url: 'https://bbc.com' }]]) {
+    assert.strictEqual((await client.post('/api/v1/source/batch-verify', { urls })).status, 400, JSON.stringify(urls));
+  }
+  logger.info('Batch verify limits passed');
+}
+
+async function runTests() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-routes-'));
+  // Keep the analysis history the routes share out of the working directory
+  process.env.HISTORY_PATH = path.join(dir, 'history.jsonl');
+  const { default: app } = await import('../app');
+  const server = http.createServer(app);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const client = axios.create({
+    baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    validateStatus: () => true
+  });
+
+  try {
+    logger.info('Starting API route tests...');
+    await testVersionedRoutes(client);
+    await testLegacyAliases(client);
+    await testBatchVerifyLimits(client);
+    logger.info('All API route tests passed');
+  } catch (error) {
+    logger.error('API route tests failed:', error);
+    process.exitCode = 1;
+  } finally {
+    server.closeAllConnections();
+    server.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+runTests();
@@ -0,0 +1,150 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FactCheckProvider } from '../services/factCheckProviders';
+import { FactCheckResult, FactCheckService } from '../services/factCheckService';
+import { contentKey, TtlCache } from '../utils/cache';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function testMemoryCache() {
+  assert.strictEqual(contentKey('a', 'b'), contentKey('a', 'b'));
+  assert.notStrictEqual(contentKey('ab', 'c'), contentKey('a', 'bc'), 'parts are kept apart');
+
+  const cache = new TtlCache<string>({ ttlMs: 40, maxEntries: 2 });
+  await cache.set('a', 'first');
+  await cache.set('b', 'second');
+  assert.strictEqual(await cache.get('a'), 'first');
+  await cache.set('c', 'third');
+  assert.strictEqual(await cache.get('b'), undefined, 'the least recently used entry is evicted');
+  assert.strictEqual(await cache.get('a'), 'first');
+
+  await cache.set('short', 'lived', 0);
+  assert.strictEqual(await cache.get('short'), undefined, 'a TTL of 0 is not cached');
+
+  await sleep(60);
+  assert.strictEqual(await cache.get('c'), undefined, 'entries expire after their TTL');
+  assert.deepStrictEqual(cache.stats(), { hits: 2, misses: 3, hitRate: 0.4, entries: 1 });
+  logger.info('Memory cache passed');
+}
+
+async function testGetOrCompute() {
+  const cache = new TtlCache<number>({ ttlMs: 60000 });
+  let computed = 0;
+  const compute = async () => {
+    computed++;
+    await sleep(10);
+    return computed;
+  };
+
+  const results = await Promise.all([cache.getOrCompute('key', compute), cache.getOrCompute('key', compute)]);
+  assert.deepStrictEqual(results, [1, 1], 'concurrent misses share one computation');
+  assert.strictEqual(await cache.getOrCompute('key', compute), 1);
+  assert.strictEqual(computed, 1);
+
+  await cache.getOrCompute('failed', compute, () => 0);
+  await cache.getOrCompute('failed', compute, () => 0);
+  assert.strictEqual(computed, 3, 'values given no TTL are computed again');
+  logger.info('Get or compute passed');
+}
+
+async function testDiskBackend(dir: string) {
+  const writer = new TtlCache<{ score: number }>({ ttlMs: 60000, dir });
+  await writer.set(contentKey('kept'), { score: 0.5 });
+  await writer.set(contentKey('expiring'), { score: 0.1 }, 20);
+
+  const reader = new TtlCache<{ score: number }>({ ttlMs: 60000, dir });
+  assert.deepStrictEqual(await reader.get(contentKey('kept')), { score: 0.5 }, 'entries survive a restart');
+
+  await sleep(40);
+  assert.strictEqual(await reader.get(contentKey('expiring')), undefined);
+  assert.deepStrictEqual(fs.readdirSync(dir), [`${contentKey('kept')}.json`], 'expired entries are removed from disk');
+
+  fs.writeFileSync(path.join(dir, `${contentKey('truncated')}.json`), '{"value":');
+  assert.strictEqual(await reader.get(contentKey('truncated')), undefined);
+
+  await writer.set(contentKey('forgotten'), { score: 0.9 }, 20);
+  await sleep(40);
+  assert.strictEqual(await writer.sweep(), 2, 'expired and unreadable entries are swept');
+  assert.deepStrictEqual(fs.readdirSync(dir), [`${contentKey('kept')}.json`]);
+
+  const cappedDir = path.join(dir, 'capped');
+  const capped = new TtlCache<number>({ ttlMs: 60000, dir: cappedDir, maxDiskEntries: 3 });
+  for (let i = 1; i <= 5; i++) {
+    await capped.set(contentKey(String(i)), i);
+    await sleep(2);
+  }
+  assert.deepStrictEqual(fs.readdirSync(cappedDir).sort(), ['3', '4', '5'].map(key => `${contentKey(key)}.json`).sort(),
+    'writes past the disk limit remove the entries closest to expiring');
+  logger.info('Disk backend passed');
+}
+
+async function testFactCheckCache() {
+  const calls: string[] = [];
+  let failing = false;
+  const provider: FactCheckProvider = {
+    name: 'counting',
+    async search(query, languageCode) {
+      calls.push(`${languageCode}:${query}`);
+      if (failing) throw new Error('quota exceeded');
+      return query.includes('5G') ? [{
+        text: query,
+        claimant: 'someone',
+        claimDate: '2024-01-01',
+        claimReview: [{
+          publisher: { name: 'Fact Desk', site: 'factdesk.example' },
+          url: 'https://factdesk.example/review',
+          title: 'Review',
+          reviewDate: '2024-01-02',
+          textualRating: 'False',
+          languageCode: 'en'
+        }]
+      }] : [];
+    }
+  };
+  const cache = new TtlCache<FactCheckResult>({ ttlMs: 60000 });
+  const service = new FactCheckService([provider], cache);
+
+  assert.strictEqual((await service.verifyClaim('5G towers spread viruses')).verdict, 'FALSE');
+  assert.strictEqual((await service.verifyClaim('5G towers spread viruses ')).verdict, 'FALSE');
+  await service.verifyClaim('5G towers spread viruses', 'hi');
+  await service.verifyClaim('An unreviewed claim');
+  await service.verifyClaim('An unreviewed claim');
+  assert.deepStrictEqual(calls, ['en-US:5G towers spread viruses', 'hi:5G towers spread viruses', 'en-US:An unreviewed claim'],
+    'claims are cached per language, including claims without reviews');
+
+  failing = true;
+  assert.strictEqual((await service.verifyClaim('Another claim')).rating, 'Error');
+  failing = false;
+  assert.strictEqual((await service.verifyClaim('Another claim')).rating, 'No results', 'failed lookups are retried');
+
+  const partial = new FactCheckService([{ name: 'offline', search: async () => { throw new Error('offline'); } }, provider], cache);
+  assert.strictEqual((await partial.verifyClaim('A claim only offline knows')).rating, 'Incomplete');
+  await partial.verifyClaim('A claim only offline knows');
+  assert.strictEqual(calls.filter(call => call.endsWith('A claim only offline knows')).length, 2,
+    'misses are not cached while a provider is failing');
+  logger.info('Fact-check cache passed');
+}
+
+async function runTests() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-'));
+  try {
+    logger.info('Starting cache tests...');
+    await testMemoryCache();
+    await testGetOrCompute();
+    await testDiskBackend(dir);
+    await testFactCheckCache();
+    logger.info('All cache tests passed');
+  } catch (error) {
+    logger.error('Cache tests failed:', error);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+runTests();
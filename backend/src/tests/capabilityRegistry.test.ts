@@ -0,0 +1,60 @@
+import assert from 'assert';
+import { CapabilityRegistry, renormalizedScore } from '../services/capabilityRegistry';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+function testRegistry() {
+  const registry = new CapabilityRegistry();
+  registry.markAvailable('error_level_analysis');
+  registry.markUnavailable('face_detection', 'Model not found at models/face_detection/model.json');
+
+  assert.ok(registry.isAvailable('error_level_analysis'));
+  assert.ok(!registry.isAvailable('face_detection'));
+  assert.ok(!registry.isAvailable('deepfake_detection'), 'unknown detectors are unavailable');
+  assert.strictEqual(registry.get('deepfake_detection').reason, 'Detector has not been initialized');
+  assert.deepStrictEqual(registry.list().map(capability => capability.name), ['error_level_analysis', 'face_detection']);
+
+  // A model that loads later replaces its unavailable entry
+  registry.markAvailable('face_detection');
+  assert.deepStrictEqual(registry.get('face_detection'), { name: 'face_detection', available: true });
+  logger.info('Capability registry passed');
+}
+
+function testRenormalizedScore() {
+  const all = renormalizedScore({
+    model: { weight: 0.4, score: 1 },
+    ela: { weight: 0.2, score: 0.5 },
+    face: { weight: 0.25, score: 0.2 },
+    metadata: { weight: 0.15, score: 0.2 }
+  });
+  assert.ok(Math.abs(all.score - 0.58) < 1e-9);
+  assert.strictEqual(all.coverage, 1);
+
+  // Without the model and face detectors, ELA and metadata split the whole weight 4:3
+  const degraded = renormalizedScore({
+    model: { weight: 0.4, score: null },
+    ela: { weight: 0.2, score: 0.5 },
+    face: { weight: 0.25, score: null },
+    metadata: { weight: 0.15, score: 0.2 }
+  });
+  assert.ok(Math.abs(degraded.score - (0.2 * 0.5 + 0.15 * 0.2) / 0.35) < 1e-9);
+  assert.ok(Math.abs(degraded.coverage - 0.35) < 1e-9);
+
+  assert.deepStrictEqual(renormalizedScore({ model: { weight: 1, score: null } }), { score: 0, coverage: 0 });
+  logger.info('Renormalized score passed');
+}
+
+function runTests() {
+  try {
+    logger.info('Starting capability registry tests...');
+    testRegistry();
+    testRenormalizedScore();
+    logger.info('All capability registry tests passed');
+  } catch (error) {
+    logger.error('Capability registry tests failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+runTests();
@@ -0,0 +1,140 @@
+import assert from 'assert';
+import { extractClaims, splitSentences } from '../services/claimExtractor';
+import { ClaimChecker, rollUpVerdicts, verifyClaims } from '../services/claimVerification';
+import { FactCheckResult } from '../services/factCheckService';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+const article =
+  'Dr. Meera Rao of the U.S. health agency said the vaccine is 95.5% effective. ' +
+  'Is that the whole story? ' +
+  'Critics claim the new 5G towers caused the outbreak in Mumbai. ' +
+  'it was a sunny day and people went out.\n' +
+  '"We have never seen anything like this," the mayor told reporters.';
+
+function testSentences() {
+  const sentences = splitSentences(article);
+  assert.deepStrictEqual(sentences.map(sentence => sentence.text), [
+    'Dr. Meera Rao of the U.S. health agency said the vaccine is 95.5% effective.',
+    'Is that the whole story?',
+    'Critics claim the new 5G towers caused the outbreak in Mumbai.',
+    'it was a sunny day and people went out.',
+    '"We have never seen anything like this," the mayor told reporters.'
+  ], 'abbreviations, initials and decimals do not end a sentence');
+  sentences.forEach(sentence => assert.strictEqual(article.slice(sentence.start, sentence.end), sentence.text));
+
+  assert.deepStrictEqual(splitSentences('सरकार ने 5 नए नियम बनाए। लोग खुश हैं।').map(sentence => sentence.text),
+    ['सरकार ने 5 नए नियम बनाए।', 'लोग खुश हैं।']);
+  assert.deepStrictEqual(splitSentences('A headline without a full stop').map(sentence => sentence.text), ['A headline without a full stop']);
+  logger.info('Sentence splitting passed');
+}
+
+function testExtraction() {
+  const claims = extractClaims(article);
+  assert.deepStrictEqual(claims.map(claim => [claim.text.slice(0, 20), claim.signals]), [
+    ['Dr. Meera Rao of the', ['number', 'entity', 'quote']],
+    ['Critics claim the ne', ['number', 'entity', 'causal']],
+    ['"We have never seen ', ['quote']]
+  ], 'questions and sentences with no signal are skipped');
+  claims.forEach(claim => assert.strictEqual(article.slice(claim.start, claim.end), claim.text));
+  assert.ok(Math.abs(claims[1].checkworthiness - 0.85) < 1e-9);
+
+  const top = extractClaims(article, { maxClaims: 2 });
+  assert.deepStrictEqual(top.map(claim => claim.start), [claims[0].start, claims[1].start], 'the best claims are kept in text order');
+
+  const hindi = extractClaims('डॉक्टरों के अनुसार इस दवा से 90 प्रतिशत मरीज ठीक हुए। मौसम अच्छा है और सब खुश हैं।');
+  assert.deepStrictEqual(hindi.map(claim => claim.signals), [['number', 'quote']]);
+  logger.info('Claim extraction passed');
+}
+
+function factCheck(rating: string, publisher = 'Fact Desk', claim = 'claim'): FactCheckResult {
+  return {
+    isVerifiable: true,
+    rating,
+    claims: [{
+      text: claim,
+      claimant: 'someone',
+      claimDate: '2024-01-01',
+      claimReview: [{
+        publisher: { name: publisher, site: 'factdesk.example' },
+        url: 'https://factdesk.example/review',
+        title: 'Review',
+        reviewDate: '2024-01-02',
+        textualRating: rating,
+        languageCode: 'en'
+      }]
+    }]
+  };
+}
+
+async function testVerification() {
+  const languageCodes: (string | undefined)[] = [];
+  const checker: ClaimChecker = {
+    async verifyClaim(query, languageCode) {
+      languageCodes.push(languageCode);
+      if (query.includes('5G')) return factCheck('False');
+      if (query.includes('vaccine')) return factCheck('Mostly true');
+      if (query.includes('mayor')) throw new Error('quota exceeded');
+      return { isVerifiable: false, rating: 'No results', claims: [] };
+    }
+  };
+
+  const claims = await verifyClaims(extractClaims(article), 'en-US', checker);
+  assert.deepStrictEqual(languageCodes, ['en-US', 'en-US', 'en-US'], 'each claim is queried on its own');
+  assert.deepStrictEqual(claims.map(claim => [claim.verdict, claim.truth, claim.rating, claim.publisher]), [
+    ['MOSTLY_TRUE', 0.75, 'Mostly true', 'Fact Desk'],
+    ['FALSE', 0, 'False', 'Fact Desk'],
+    ['UNPROVEN', null, null, null]
+  ]);
+  assert.strictEqual(claims[1].factChecks.length, 1);
+
+  const rollup = rollUpVerdicts(claims);
+  assert.deepStrictEqual(rollup.verdicts, {
+    TRUE: 0, MOSTLY_TRUE: 1, MIXED: 0, MOSTLY_FALSE: 0, FALSE: 1, SATIRE: 0, UNPROVEN: 1
+  });
+  assert.strictEqual(rollup.rated, 2);
+  // Verdicts are weighted by check-worthiness, and a false claim moves the score further than a true one
+  const expected = (claims[0].checkworthiness * -0.05 + claims[1].checkworthiness * 0.4) /
+    (claims[0].checkworthiness + claims[1].checkworthiness);
+  assert.ok(Math.abs(rollup.fakeShift - expected) < 1e-9);
+  assert.ok(rollup.fakeShift > 0);
+  assert.strictEqual(rollUpVerdicts([]).fakeShift, 0);
+  logger.info('Claim verification passed');
+}
+
+async function testStance() {
+  const checker: ClaimChecker = {
+    verifyClaim: async () => factCheck('False', 'Fact Desk', 'Vaccines cause autism in children')
+  };
+  const claim = (text: string) => ({ text, start: 0, end: text.length, signals: [], checkworthiness: 0.5 });
+
+  const [debunking, repeating] = await verifyClaims([
+    claim('WHO said that vaccines do not cause autism in children.'),
+    claim('Vaccines cause autism in children, a viral post says.')
+  ], 'en-US', checker);
+  assert.deepStrictEqual([debunking.verdict, debunking.truth, debunking.factChecks.length, debunking.relatedFactChecks.length],
+    ['UNPROVEN', null, 0, 1], 'a sentence refuting the reviewed claim gets no verdict from it');
+  assert.deepStrictEqual([repeating.verdict, repeating.factChecks.length, repeating.relatedFactChecks.length], ['FALSE', 1, 0]);
+  assert.strictEqual(rollUpVerdicts([debunking]).fakeShift, 0, 'a debunking article is not pushed towards FAKE');
+
+  const [doubleNegative] = await verifyClaims([claim("It isn't true that vaccines don't cause autism in children.")], 'en-US', checker);
+  assert.strictEqual(doubleNegative.verdict, 'FALSE');
+  logger.info('Claim stance passed');
+}
+
+async function runTests() {
+  try {
+    logger.info('Starting claim tests...');
+    testSentences();
+    testExtraction();
+    await testVerification();
+    await testStance();
+    logger.info('All claim tests passed');
+  } catch (error) {
+    logger.error('Claim tests failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+runTests();
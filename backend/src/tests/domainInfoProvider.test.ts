@@ -0,0 +1,120 @@
+import assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import {
+  ChainedDomainInfoProvider,
+  DomainInfoProvider,
+  RdapDomainInfoProvider,
+  SnapshotDomainInfoProvider
+} from '../services/domainInfoProvider';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'domain-info-'));
+
+async function testJsonSnapshot() {
+  const file = path.join(tempDir, 'snapshot.json');
+  fs.writeFileSync(file, JSON.stringify({
+    'bbc.co.uk': { registrationDate: '1996-08-01', registrar: 'Nominet', owner: 'British Broadcasting Corporation' }
+  }));
+
+  const record = await new SnapshotDomainInfoProvider(file).lookup('bbc.co.uk');
+  assert.strictEqual(record?.registrationDate, '1996-08-01T00:00:00.000Z');
+  assert.strictEqual(record?.owner, 'British Broadcasting Corporation');
+  assert.strictEqual(record?.source, 'snapshot');
+  logger.info('JSON snapshot passed');
+}
+
+async function testCsvSnapshot() {
+  const file = path.join(tempDir, 'snapshot.csv');
+  fs.writeFileSync(file, [
+    'domain,registrationDate,registrar,owner',
+    'Reuters.com,1993-07-29,"CSC Corporate Domains, Inc.",Thomson Reuters',
+    'fresh-news.xyz,2024-05-01,,'
+  ].join('\n'));
+
+  const provider = new SnapshotDomainInfoProvider(file);
+  const reuters = await provider.lookup('reuters.com');
+  assert.strictEqual(reuters?.registrar, 'CSC Corporate Domains, Inc.');
+  assert.strictEqual(reuters?.registrationDate, '1993-07-29T00:00:00.000Z');
+
+  const fresh = await provider.lookup('fresh-news.xyz');
+  assert.strictEqual(fresh?.owner, undefined);
+  assert.strictEqual(await provider.lookup('unknown.com'), null);
+
+  // A missing snapshot is treated as empty rather than an error
+  assert.strictEqual(await new SnapshotDomainInfoProvider(path.join(tempDir, 'missing.json')).lookup('bbc.com'), null);
+  logger.info('CSV snapshot passed');
+}
+
+async function testRdapAndChain() {
+  let requests = 0;
+  const server = http.createServer((req, res) => {
+    requests++;
+    if (req.url === '/domain/huge.org') {
+      res.writeHead(200, { 'Content-Type': 'application/rdap+json' });
+      res.end(`{"padding":"${'x'.repeat(2 * 1024 * 1024)}"}`);
+      return;
+    }
+    if (req.url !== '/domain/example.org') {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/rdap+json' });
+    res.end(JSON.stringify({
+      events: [
+        { eventAction: 'registration', eventDate: '1995-08-31T04:00:00Z' },
+        { eventAction: 'expiration', eventDate: '2030-08-30T04:00:00Z' }
+      ],
+      entities: [
+        { roles: ['registrar'], vcardArray: ['vcard', [['fn', {}, 'text', 'RESERVED-IANA']]] },
+        { roles: ['registrant'], vcardArray: ['vcard', [['fn', {}, 'text', 'REDACTED FOR PRIVACY']]] }
+      ]
+    }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    const rdap = new RdapDomainInfoProvider(baseUrl);
+    const record = await rdap.lookup('example.org');
+    assert.strictEqual(record?.registrationDate, '1995-08-31T04:00:00.000Z');
+    assert.strictEqual(record?.registrar, 'RESERVED-IANA');
+    assert.strictEqual(record?.owner, undefined, 'redacted registrant names are dropped');
+
+    await rdap.lookup('example.org');
+    assert.strictEqual(requests, 1, 'repeat lookups should be served from the cache');
+    assert.strictEqual(await rdap.lookup('unregistered.org'), null);
+    await assert.rejects(rdap.lookup('huge.org'), /maxContentLength/, 'oversized responses are not read in full');
+
+    const failing: DomainInfoProvider = {
+      name: 'failing',
+      lookup: () => Promise.reject(new Error('offline'))
+    };
+    const chained = new ChainedDomainInfoProvider([failing, rdap]);
+    assert.strictEqual((await chained.lookup('example.org'))?.source, 'rdap');
+    logger.info('RDAP lookup and provider chain passed');
+  } finally {
+    server.close();
+  }
+}
+
+async function runTests() {
+  try {
+    logger.info('Starting domain info provider tests...');
+    await testJsonSnapshot();
+    await testCsvSnapshot();
+    await testRdapAndChain();
+    logger.info('All domain info provider tests passed');
+  } catch (error) {
+    logger.error('Domain info provider tests failed:', error);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+runTests();
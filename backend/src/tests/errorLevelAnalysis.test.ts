@@ -0,0 +1,108 @@
+import assert from 'assert';
+import sharp from 'sharp';
+import { performErrorLevelAnalysis } from '../services/errorLevelAnalysis';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+// Deterministic textured image so JPEG compression has detail to work on
+function texturedImage(width: number, height: number, seed: number): sharp.Sharp {
+  const pixels = Buffer.alloc(width * height * 3);
+  let state = seed;
+  for (let i = 0; i < pixels.length; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    const pixel = Math.floor(i / 3);
+    const x = pixel % width;
+    const y = Math.floor(pixel / width);
+    const value = 100 + 60 * Math.sin(x / 20) + 40 * Math.cos(y / 15) + (state % 40) - 20;
+    pixels[i] = Math.max(0, Math.min(255, value));
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } });
+}
+
+// Smooth sky gradient over a noisy, textured foreground, like an ordinary landscape photo
+function landscapeImage(width: number, height: number, seed: number): sharp.Sharp {
+  const pixels = Buffer.alloc(width * height * 3);
+  let state = seed;
+  for (let i = 0; i < pixels.length; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    const pixel = Math.floor(i / 3);
+    const x = pixel % width;
+    const y = Math.floor(pixel / width);
+    const value = y < height * 0.55
+      ? [110, 160, 230][i % 3] + y / 4
+      : 90 + 50 * Math.sin(x / 7) * Math.cos(y / 5) + (state % 60) - 30;
+    pixels[i] = Math.max(0, Math.min(255, value));
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } });
+}
+
+async function testSplicedRegionStandsOut() {
+  const original = await texturedImage(320, 240, 1).jpeg({ quality: 70 }).toBuffer();
+  const resaved = await sharp(original).jpeg({ quality: 85 }).toBuffer();
+
+  // A never-compressed patch pasted in before the final save recompresses differently
+  const patch = await texturedImage(80, 80, 7).png().toBuffer();
+  const spliced = await sharp(original)
+    .composite([{ input: patch, left: 120, top: 80 }])
+    .jpeg({ quality: 85 })
+    .toBuffer();
+
+  const clean = await performErrorLevelAnalysis(resaved);
+  const tampered = await performErrorLevelAnalysis(spliced);
+  assert.ok(tampered.score > clean.score + 0.3, `spliced ${tampered.score} vs clean ${clean.score}`);
+  assert.ok(tampered.outlierBlockRatio > clean.outlierBlockRatio);
+  assert.strictEqual(tampered.quality, 90);
+  logger.info('Spliced region detection passed');
+}
+
+async function testUneditedTextureStaysLow() {
+  for (const quality of [75, 85, 95]) {
+    const image = await landscapeImage(320, 240, 5).jpeg({ quality }).toBuffer();
+    const result = await performErrorLevelAnalysis(image);
+    assert.ok(result.score < 0.3, `unedited landscape saved at quality ${quality} scored ${result.score}`);
+  }
+  const resaved = await sharp(await landscapeImage(320, 240, 5).jpeg({ quality: 70 }).toBuffer()).jpeg({ quality: 85 }).toBuffer();
+  const result = await performErrorLevelAnalysis(resaved);
+  assert.ok(result.score < 0.3, `resaved landscape scored ${result.score}`);
+  logger.info('Unedited texture passed');
+}
+
+async function testHeatmap() {
+  const image = await texturedImage(1024, 256, 3).jpeg({ quality: 80 }).toBuffer();
+  const result = await performErrorLevelAnalysis(image, { heatmapMaxSize: 256 });
+
+  const heatmap = await sharp(result.heatmap).metadata();
+  assert.strictEqual(heatmap.format, 'png');
+  assert.strictEqual(heatmap.width, 256);
+  assert.strictEqual(heatmap.height, 64);
+  assert.ok(result.score >= 0 && result.score <= 1);
+  logger.info('ELA heatmap passed');
+}
+
+async function testPixelLimits() {
+  const image = await texturedImage(400, 300, 4).jpeg({ quality: 80 }).toBuffer();
+  const scaled = await performErrorLevelAnalysis(image, { maxAnalysisPixels: 30000 });
+  const heatmap = await sharp(scaled.heatmap).metadata();
+  assert.deepStrictEqual([heatmap.width, heatmap.height], [200, 150], 'large images are scaled down before analysis');
+
+  await assert.rejects(performErrorLevelAnalysis(image, { maxInputPixels: 100000 }), /pixel limit/,
+    'images over the input limit are not decoded');
+  logger.info('Pixel limits passed');
+}
+
+async function runTests() {
+  try {
+    logger.info('Starting error level analysis tests...');
+    await testSplicedRegionStandsOut();
+    await testUneditedTextureStaysLow();
+    await testHeatmap();
+    await testPixelLimits();
+    logger.info('All error level analysis tests passed');
+  } catch (error) {
+    logger.error('Error level analysis tests failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+runTests();
@@ -0,0 +1,113 @@
+import assert from 'assert';
+import {
+  calibrationCurve,
+  compareWithBaseline,
+  confusionMatrix,
+  evaluate,
+  EvaluatedAnalyzer,
+  rocAuc,
+  toBaseline
+} from '../services/evaluation';
+import { LabeledText, NewsLabel } from '../services/textClassifier';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+function testMetrics() {
+  const scores = [0.9, 0.8, 0.7, 0.2, 0.1];
+  const labels: NewsLabel[] = ['FAKE', 'FAKE', 'REAL', 'FAKE', 'REAL'];
+
+  assert.deepStrictEqual(confusionMatrix(scores, labels), {
+    truePositives: 2,
+    falsePositives: 1,
+    trueNegatives: 1,
+    falseNegatives: 1
+  });
+
+  // 5 of the 6 fake/real pairs are ordered correctly
+  assert.ok(Math.abs((rocAuc(scores, labels) as number) - 5 / 6) < 1e-9);
+  assert.strictEqual(rocAuc([0.1, 0.9], ['REAL', 'FAKE']), 1);
+  assert.strictEqual(rocAuc([0.5, 0.5, 0.5], ['REAL', 'FAKE', 'FAKE']), 0.5, 'ties count as half');
+  assert.strictEqual(rocAuc([0.3, 0.6], ['FAKE', 'FAKE']), null);
+
+  assert.deepStrictEqual(calibrationCurve([0.05, 0.15, 0.12, 1], ['REAL', 'FAKE', 'REAL', 'FAKE'], 5), [
+    { lower: 0, upper: 0.2, count: 3, meanPredicted: (0.05 + 0.15 + 0.12) / 3, fractionFake: 1 / 3 },
+    { lower: 0.8, upper: 1, count: 1, meanPredicted: 1, fractionFake: 1 }
+  ]);
+  logger.info('Confusion matrix, ROC-AUC and calibration passed');
+}
+
+async function testEvaluateAndBaseline() {
+  const dataset: LabeledText[] = [
+    { id: 'a', text: 'SHOCKING cure', label: 'FAKE' },
+    { id: 'b', text: 'Council passes budget', label: 'REAL' },
+    { text: 'Secret plot EXPOSED', label: 'FAKE' },
+    { id: 'd', text: 'Rates held steady', label: 'REAL' }
+  ];
+  const shouting: EvaluatedAnalyzer = {
+    name: 'shouting',
+    scoreText: async text => (/[A-Z]{4,}/.test(text) ? 0.9 : 0.1)
+  };
+  const keywords: EvaluatedAnalyzer = {
+    name: 'keywords',
+    scoreText: async text => (/cure|budget/i.test(text) ? 0.7 : 0.3)
+  };
+  const untrained: EvaluatedAnalyzer = {
+    name: 'untrained',
+    initialize: async () => {
+      throw new Error('No trained model');
+    },
+    scoreText: async () => 0.5
+  };
+
+  const report = await evaluate('tiny.v1', dataset, [shouting, keywords, untrained]);
+  assert.strictEqual(report.examples, 4);
+  assert.strictEqual(report.analyzers[0].metrics?.accuracy, 1);
+  assert.strictEqual(report.analyzers[1].metrics?.accuracy, 0.5);
+  assert.deepStrictEqual(report.analyzers[1].misclassified, ['b', 'row 3']);
+  assert.deepStrictEqual(
+    { status: report.analyzers[2].status, reason: report.analyzers[2].reason },
+    { status: 'skipped', reason: 'No trained model' }
+  );
+
+  const baseline = toBaseline(report);
+  assert.deepStrictEqual(Object.keys(baseline.analyzers), ['shouting', 'keywords'], 'skipped analyzers are left out');
+  assert.ok(compareWithBaseline(report, baseline).every(comparison => !comparison.regressed));
+
+  // The keyword analyzer used to be better, and the untrained one ran when the baseline was made
+  baseline.analyzers.keywords.accuracy = 0.75;
+  baseline.analyzers.untrained = { accuracy: 0.9, f1: 0.9, rocAuc: 0.9 };
+  const comparisons = compareWithBaseline(report, baseline);
+  assert.deepStrictEqual(comparisons.map(comparison => [comparison.analyzer, comparison.regressed]), [
+    ['shouting', false],
+    ['keywords', true],
+    ['untrained', true]
+  ], 'a baselined analyzer that was skipped fails the comparison');
+  assert.strictEqual(comparisons[2].evaluated, false);
+  assert.deepStrictEqual(comparisons[1].changes.filter(change => change.regressed).map(change => change.metric), ['accuracy']);
+  assert.ok(!compareWithBaseline(report, baseline, 0.3)[1].regressed, 'drops within the tolerance pass');
+
+  // Same accuracy, but the analyzer stopped finding fake examples
+  const f1Baseline = toBaseline(report);
+  f1Baseline.analyzers.keywords.f1 += 0.2;
+  const f1Comparison = compareWithBaseline(report, f1Baseline)[1];
+  assert.strictEqual(f1Comparison.regressed, true);
+  assert.deepStrictEqual(f1Comparison.changes.filter(change => change.regressed).map(change => change.metric), ['f1']);
+
+  assert.throws(() => compareWithBaseline({ ...report, dataset: 'tiny.v2' }, baseline), /tiny\.v1, not tiny\.v2/);
+  logger.info('Evaluation and baseline comparison passed');
+}
+
+async function runTests() {
+  try {
+    logger.info('Starting evaluation tests...');
+    testMetrics();
+    await testEvaluateAndBaseline();
+    logger.info('All evaluation tests passed');
+  } catch (error) {
+    logger.error('Evaluation tests failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+runTests();
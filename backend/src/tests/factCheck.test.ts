@@ -0,0 +1,163 @@
+import assert from 'assert';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { ClaimReviewStore, parseClaimReviews } from '../services/claimReviewStore';
+import { createFactCheckProviders, FactCheckProvider, GoogleFactCheckProvider, LocalFactCheckProvider } from '../services/factCheckProviders';
+import { FactCheckService } from '../services/factCheckService';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+const FIXTURES = path.join(__dirname, 'test-claim-reviews');
+const DATAFEED = path.join(FIXTURES, 'datafeed.json');
+const JSON_LINES = path.join(FIXTURES, 'reviews.jsonl');
+
+function testParsing() {
+  const { records, skipped } = parseClaimReviews(fs.readFileSync(DATAFEED, 'utf8'));
+  assert.strictEqual(skipped, 0);
+  assert.deepStrictEqual(records.map(record => record.rating), ['False', 'Mostly true', 'गलत']);
+  assert.deepStrictEqual(records[0], {
+    url: 'https://factdesk.example/reviews/5g-covid',
+    claim: '5G towers cause coronavirus infections',
+    claimant: 'Viral social media post',
+    claimDate: '2020-04-01',
+    title: 'No, 5G does not spread the coronavirus',
+    publisher: { name: 'Fact Desk', site: 'factdesk.example' },
+    reviewDate: '2020-04-06',
+    rating: 'False',
+    language: 'en'
+  });
+  assert.strictEqual(records[1].language, 'en', 'language objects and regional tags are reduced to the language');
+
+  const lines = parseClaimReviews(fs.readFileSync(JSON_LINES, 'utf8'));
+  assert.strictEqual(lines.records.length, 1);
+  assert.strictEqual(lines.records[0].claimant, 'Chain message');
+  assert.strictEqual(lines.skipped, 1, 'reviews without a rating are skipped');
+  logger.info('ClaimReview parsing passed');
+}
+
+async function testStore(dir: string) {
+  const filePath = path.join(dir, 'claim-reviews.jsonl');
+  const store = new ClaimReviewStore(filePath);
+  assert.deepStrictEqual(await store.importFile(DATAFEED), { added: 3, skipped: 0 });
+  assert.deepStrictEqual(await store.importFile(JSON_LINES), { added: 1, skipped: 1 });
+  assert.deepStrictEqual(await store.importFile(DATAFEED), { added: 0, skipped: 3 }, 'reviews are imported once');
+
+  const reloaded = new ClaimReviewStore(filePath);
+  assert.strictEqual(await reloaded.size(), 4);
+
+  const [match] = await reloaded.search('Critics claim the new 5G towers caused the coronavirus infections in Mumbai', { language: 'en-US' });
+  assert.strictEqual(match.record.url, 'https://factdesk.example/reviews/5g-covid');
+  assert.ok(match.score > 0.8);
+
+  const typo = await reloaded.search('Eating garlik prevents coronavirus infections');
+  assert.strictEqual(typo[0]?.record.url, 'https://checkers.example/garlic', 'misspelled and inflected words still match');
+
+  const hindi = await reloaded.search('क्या नमक का पानी पीने से कोरोना वायरस खत्म होता है', { language: 'hi' });
+  assert.deepStrictEqual(hindi.map(result => result.record.url), ['https://satya.example/jaanch/namak']);
+
+  assert.deepStrictEqual(await reloaded.search('5G towers cause coronavirus infections', { language: 'hi' }), [],
+    'reviews in another language are left out');
+  assert.deepStrictEqual(await reloaded.search('The council approved the budget on Tuesday'), [],
+    'a single shared word is not a match');
+  assert.deepStrictEqual(await reloaded.search('5G towers do not cause coronavirus infections'), [],
+    'the negation of a reviewed claim does not match it');
+  const unfiltered = await new ClaimReviewStore(filePath, 0).search('5G towers do not cause coronavirus infections');
+  const negated = unfiltered.find(result => result.record.url === 'https://factdesk.example/reviews/5g-covid');
+  assert.ok(negated && negated.score > 0 && negated.score < 0.5, 'a negation mismatch scores below the default minimum');
+
+  const brokenPath = path.join(dir, 'broken', 'claim-reviews.jsonl');
+  const broken = new ClaimReviewStore(brokenPath);
+  assert.strictEqual(await broken.size(), 0);
+  // A directory where the file should be makes the append fail
+  fs.mkdirSync(brokenPath);
+  await assert.rejects(broken.importFile(DATAFEED), /EISDIR/);
+  assert.strictEqual(await broken.size(), 0, 'reviews that were not written are not indexed');
+  fs.rmdirSync(brokenPath);
+  assert.deepStrictEqual(await broken.importFile(DATAFEED), { added: 3, skipped: 0 }, 'failed reviews can be imported again');
+  logger.info('Local ClaimReview store passed');
+  return reloaded;
+}
+
+async function testService(store: ClaimReviewStore) {
+  const failing: FactCheckProvider = {
+    name: 'failing',
+    search: async () => { throw new Error('offline'); }
+  };
+  const local = new LocalFactCheckProvider(store);
+
+  const result = await new FactCheckService([failing, local]).verifyClaim('Do 5G towers cause coronavirus infections?');
+  assert.strictEqual(result.isVerifiable, true);
+  assert.strictEqual(result.provider, 'local');
+  assert.strictEqual(result.rating, 'False');
+  assert.strictEqual(result.verdict, 'FALSE');
+  assert.strictEqual(result.claims[0].claimReview[0].publisher.name, 'Fact Desk');
+
+  assert.strictEqual((await new FactCheckService([local]).verifyClaim('Nothing anyone has reviewed')).rating, 'No results');
+  assert.strictEqual((await new FactCheckService([failing]).verifyClaim('anything')).rating, 'Error');
+  assert.strictEqual((await new FactCheckService([failing, local]).verifyClaim('Nothing anyone has reviewed')).rating, 'Incomplete',
+    'a miss is not final while a provider failed');
+  assert.strictEqual((await new FactCheckService([]).verifyClaim('anything')).rating, 'Not Available');
+  logger.info('Fact-check service passed');
+}
+
+function testProviderConfiguration() {
+  const saved = { providers: process.env.FACT_CHECK_PROVIDERS, apiKey: process.env.FACT_CHECK_API_KEY };
+  try {
+    delete process.env.FACT_CHECK_API_KEY;
+    delete process.env.FACT_CHECK_PROVIDERS;
+    assert.deepStrictEqual(createFactCheckProviders().map(provider => provider.name), ['local'],
+      'Google is skipped without an API key');
+
+    process.env.FACT_CHECK_API_KEY = 'key';
+    process.env.FACT_CHECK_PROVIDERS = 'google, local';
+    assert.deepStrictEqual(createFactCheckProviders().map(provider => provider.name), ['google', 'local']);
+
+    process.env.FACT_CHECK_PROVIDERS = 'local,snopes';
+    assert.throws(() => createFactCheckProviders(), /Unknown fact-check provider: snopes/);
+  } finally {
+    if (saved.providers === undefined) delete process.env.FACT_CHECK_PROVIDERS;
+    else process.env.FACT_CHECK_PROVIDERS = saved.providers;
+    if (saved.apiKey === undefined) delete process.env.FACT_CHECK_API_KEY;
+    else process.env.FACT_CHECK_API_KEY = saved.apiKey;
+  }
+  logger.info('Provider configuration passed');
+}
+
+async function testGoogleTimeout() {
+  // Accepts the request and never answers
+  const server = http.createServer(() => undefined);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  try {
+    const { port } = server.address() as AddressInfo;
+    const provider = new GoogleFactCheckProvider('key', `http://127.0.0.1:${port}/claims:search`, 100);
+    await assert.rejects(provider.search('claim', 'en'), /timeout/, 'a stalled API call gives up');
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+  logger.info('Google timeout passed');
+}
+
+async function runTests() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'claim-reviews-'));
+  try {
+    logger.info('Starting fact-check tests...');
+    testParsing();
+    const store = await testStore(dir);
+    await testService(store);
+    testProviderConfiguration();
+    await testGoogleTimeout();
+    logger.info('All fact-check tests passed');
+  } catch (error) {
+    logger.error('Fact-check tests failed:', error);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+runTests();
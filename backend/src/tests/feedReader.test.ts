@@ -0,0 +1,131 @@
+import assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { FeedReader, parseFeed } from '../services/feedReader';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+const feedDir = path.join(__dirname, 'test-feeds');
+
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(feedDir, name), 'utf8');
+}
+
+function testRSSParsing() {
+  const items = parseFeed(readFixture('rss2.xml'));
+  assert.strictEqual(items.length, 2);
+
+  assert.strictEqual(items[0].guid, 'wire-1001');
+  assert.strictEqual(items[0].title, 'Monsoon arrives early in Kerala');
+  assert.strictEqual(items[0].link, 'https://news.example.com/monsoon-kerala');
+  assert.strictEqual(items[0].text, 'The India Meteorological Department confirmed the onset.');
+  assert.strictEqual(items[0].publishedAt, '2024-06-03T08:30:00.000Z');
+  assert.strictEqual(items[0].media, 'https://news.example.com/img/monsoon.jpg');
+
+  // No <guid>: falls back to the link; content:encoded wins over description
+  assert.strictEqual(items[1].guid, 'https://news.example.com/miracle-cure');
+  assert.strictEqual(items[1].text, 'Full article body with a link.');
+  assert.strictEqual(items[1].media, 'https://news.example.com/img/cure.png');
+  logger.info('RSS 2.0 parsing passed');
+}
+
+function testAtomParsing() {
+  const items = parseFeed(readFixture('atom.xml'));
+  assert.strictEqual(items.length, 2);
+
+  assert.strictEqual(items[0].guid, 'urn:uuid:1225c695-cfb8-4ebb-aaaa-80da344efa6a');
+  assert.strictEqual(items[0].link, 'https://atom.example.com/turnout');
+  assert.strictEqual(items[0].publishedAt, '2024-06-05T12:00:00.000Z');
+  assert.strictEqual(items[0].media, 'https://atom.example.com/img/turnout.jpg');
+
+  assert.strictEqual(items[1].link, 'https://atom.example.com/glacier');
+  assert.strictEqual(items[1].text, 'Researchers compared images from 1990 and 2024.');
+  assert.strictEqual(items[1].publishedAt, '2024-06-06T09:15:00.000Z');
+  assert.strictEqual(items[1].media, undefined);
+  logger.info('Atom parsing passed');
+}
+
+function testRDFParsing() {
+  const items = parseFeed(readFixture('rdf.xml'));
+  assert.strictEqual(items.length, 1);
+  assert.strictEqual(items[0].guid, 'https://rdf.example.com/budget');
+  assert.strictEqual(items[0].title, 'Finance ministry releases budget documents');
+  assert.strictEqual(items[0].publishedAt, '2024-02-01T00:00:00.000Z');
+  logger.info('RDF parsing passed');
+}
+
+function testInvalidFeed() {
+  assert.throws(() => parseFeed('<html><body>Not a feed</body></html>'), /Unsupported feed format/);
+  assert.throws(() => parseFeed('<rss><channel>'), /Invalid feed/);
+  logger.info('Invalid feed handling passed');
+}
+
+async function testConditionalGetAndDedupe() {
+  let etag = '"rss2-v1"';
+  const requests: http.IncomingHttpHeaders[] = [];
+  let body = readFixture('rss2.xml');
+
+  const server = http.createServer((req, res) => {
+    requests.push(req.headers);
+    if (req.headers['if-none-match'] === etag) {
+      res.writeHead(304);
+      res.end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/rss+xml', ETag: etag });
+    res.end(body);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}/feed.xml`;
+
+  try {
+    const reader = new FeedReader({ allowPrivateNetworks: true });
+
+    const first = await reader.fetchNewItems(url);
+    assert.strictEqual(first.length, 2);
+    assert.strictEqual(requests[0]['if-none-match'], undefined);
+
+    const notModified = await reader.fetchNewItems(url);
+    assert.strictEqual(notModified.length, 0);
+    assert.strictEqual(requests[1]['if-none-match'], etag);
+
+    // The feed changes, so the server sends it again: only the item not seen before comes through
+    etag = '"rss2-v2"';
+    body = body.replace('<channel>', `<channel>
+    <item><title>Parliament session extended</title><guid>wire-1002</guid></item>`);
+    const updated = await reader.fetchNewItems(url);
+    assert.deepStrictEqual(updated.map(item => item.guid), ['wire-1002']);
+
+    reader.forget(url);
+    const refetched = await reader.fetchNewItems(url);
+    assert.strictEqual(refetched.length, 3, 'forget() should reset seen items');
+
+    await assert.rejects(new FeedReader().fetchNewItems(url), /private or reserved address/,
+      'feeds on private addresses are refused');
+    await assert.rejects(new FeedReader({ allowPrivateNetworks: true, maxBytes: 100 }).fetchNewItems(url), /byte limit/);
+    logger.info('Conditional GET and GUID dedupe passed');
+  } finally {
+    server.close();
+  }
+}
+
+async function runTests() {
+  try {
+    logger.info('Starting feed reader tests...');
+    testRSSParsing();
+    testAtomParsing();
+    testRDFParsing();
+    testInvalidFeed();
+    await testConditionalGetAndDedupe();
+    logger.info('All feed reader tests passed');
+  } catch (error) {
+    logger.error('Feed reader tests failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+runTests();
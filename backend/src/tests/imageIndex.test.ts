@@ -0,0 +1,102 @@
+import assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { PerceptualImageIndex, sightingWarnings } from '../services/imageIndex';
+import { hammingDistance, perceptualHashes } from '../utils/perceptualHash';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'image-index-'));
+
+// Builds a 256x192 test picture from a per-pixel brightness function
+function picture(shade: (x: number, y: number) => number): sharp.Sharp {
+  const width = 256;
+  const height = 192;
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = Math.max(0, Math.min(255, Math.round(shade(x, y))));
+      pixels.fill(value, (y * width + x) * 3, (y * width + x) * 3 + 3);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } });
+}
+
+const protest = () => picture((x, y) => 128 + 90 * Math.sin(x / 20) * Math.cos(y / 30) + (x > 160 && y < 80 ? 60 : 0));
+const flood = () => picture((x, y) => 40 + y + 30 * Math.sin((x + y) / 9));
+
+async function testHashes() {
+  const original = await perceptualHashes(await protest().jpeg({ quality: 95 }).toBuffer());
+  // A smaller, heavily recompressed repost of the same picture
+  const repost = await perceptualHashes(
+    await protest().resize(160).jpeg({ quality: 40 }).toBuffer()
+  );
+  const other = await perceptualHashes(await flood().jpeg().toBuffer());
+
+  assert.match(original.pHash, /^[0-9a-f]{16}$/);
+  assert.ok(hammingDistance(original.pHash, repost.pHash) <= 4, 'pHash survives resizing and recompression');
+  assert.ok(hammingDistance(original.dHash, repost.dHash) <= 4, 'dHash survives resizing and recompression');
+  assert.ok(hammingDistance(original.pHash, other.pHash) > 20, 'different pictures hash apart');
+  assert.strictEqual(hammingDistance('ff00', '0f01'), 5);
+  logger.info('Perceptual hashes passed');
+}
+
+async function testSeedAndMatch() {
+  const seedDir = path.join(tempDir, 'seed');
+  fs.mkdirSync(seedDir);
+  await protest().jpeg().toFile(path.join(seedDir, 'protest.jpg'));
+  await flood().png().toFile(path.join(seedDir, 'flood.png'));
+  fs.writeFileSync(path.join(seedDir, 'notes.txt'), 'not an image');
+  fs.writeFileSync(path.join(seedDir, 'sources.json'), JSON.stringify({
+    'protest.jpg': { source: 'https://news.example.com/2019/protest', firstSeen: '2019-03-01' }
+  }));
+
+  const indexPath = path.join(tempDir, 'index.jsonl');
+  const index = new PerceptualImageIndex(indexPath);
+  assert.deepStrictEqual(await index.seedFromFolder(seedDir), { added: 2, skipped: 0 });
+  assert.deepStrictEqual(await index.seedFromFolder(seedDir), { added: 0, skipped: 2 }, 'reseeding adds nothing');
+
+  // The same photo resurfacing years later as "breaking news"
+  const resurfaced = await perceptualHashes(await protest().resize(200).jpeg({ quality: 60 }).toBuffer());
+  const sightings = await index.findMatches(resurfaced);
+  assert.strictEqual(sightings.length, 1);
+  assert.strictEqual(sightings[0].source, 'https://news.example.com/2019/protest');
+  assert.deepStrictEqual(sightingWarnings(sightings), [
+    'Image previously seen on https://news.example.com/2019/protest at 2019-03-01'
+  ]);
+  assert.deepStrictEqual(
+    await index.findMatches(resurfaced, { excludeSource: 'https://news.example.com/2019/protest' }),
+    []
+  );
+
+  // Entries survive a restart
+  await index.add(resurfaced, { source: 'https://viral.example.net/breaking', firstSeen: '2024-06-01T00:00:00.000Z' });
+  const reloaded = await new PerceptualImageIndex(indexPath).findMatches(resurfaced);
+  assert.deepStrictEqual(reloaded.map(sighting => sighting.source), [
+    'https://news.example.com/2019/protest',
+    'https://viral.example.net/breaking'
+  ]);
+
+  // Files without a sources.json entry fall back to their own path
+  const [floodSighting] = await index.findMatches(await perceptualHashes(await flood().jpeg().toBuffer()));
+  assert.strictEqual(floodSighting.source, `file://${path.join(seedDir, 'flood.png')}`);
+  logger.info('Seeding and matching passed');
+}
+
+async function runTests() {
+  try {
+    logger.info('Starting image index tests...');
+    await testHashes();
+    await testSeedAndMatch();
+    logger.info('All image index tests passed');
+  } catch (error) {
+    logger.error('Image index tests failed:', error);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+runTests();
@@ -0,0 +1,85 @@
+import assert from 'assert';
+import { RiskPatternDetector } from '../models/riskPatternDetector';
+import { sentimentScorer } from '../services/sentiment';
+import { detectLanguage, factCheckLanguageCode, isNegated, tokenizeWords } from '../utils/language';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+function testDetection() {
+  const devanagari = detectLanguage('सरकार ने आज नई शिक्षा नीति की घोषणा की। यह 2024 से लागू होगी।');
+  assert.strictEqual(devanagari.code, 'hi');
+  assert.strictEqual(devanagari.script, 'Deva');
+  assert.ok(devanagari.confidence > 0.9);
+
+  const romanized = detectLanguage('Yeh khabar jhooth hai, sarkar ne aisa koi faisla nahi kiya aur abhi tak kuch bhi tay nahi hai');
+  assert.deepStrictEqual([romanized.code, romanized.script], ['hi', 'Latn']);
+
+  const english = detectLanguage('The main story on page two says the council met on Tuesday and approved the budget.');
+  assert.deepStrictEqual([english.code, english.script], ['en', 'Latn'], 'English words that look like Hindi do not count');
+
+  assert.strictEqual(detectLanguage('சென்னையில் இன்று கனமழை பெய்தது').code, 'ta');
+  assert.strictEqual(detectLanguage('আজ কলকাতায় বৃষ্টি হয়েছে').code, 'bn');
+  assert.strictEqual(detectLanguage('').code, 'en');
+
+  assert.strictEqual(factCheckLanguageCode('en'), 'en-US');
+  assert.strictEqual(factCheckLanguageCode('hi'), 'hi');
+  logger.info('Language detection passed');
+}
+
+function testTokenization() {
+  // Vowel signs and the virama are combining marks and must stay inside their words
+  assert.deepStrictEqual(tokenizeWords('षड्यंत्र की ख़बर!'), ['षड्यंत्र', 'की', 'ख़बर']);
+  assert.deepStrictEqual(tokenizeWords("They don't know"), ['they', "don't", 'know']);
+  assert.ok(isNegated('Vaccines do not cause autism') && isNegated("Vaccines don’t cause autism") && isNegated('टीके से ऑटिज़्म नहीं होता'));
+  assert.ok(!isNegated('Vaccines cause autism') && !isNegated("It isn't true that vaccines don't work"), 'double negatives cancel out');
+  logger.info('Tokenization passed');
+}
+
+function testHindiRiskPatterns() {
+  const detector = new RiskPatternDetector();
+  const text = 'चौंकाने वाला सच: यह सरकार की साजिश है! तुरंत शेयर करें। Big pharma नहीं चाहती कि आप जानें';
+  const result = detector.analyze(text, 'hi');
+
+  for (const span of result.spans) {
+    assert.strictEqual(text.slice(span.start, span.end).toLowerCase(), span.term);
+  }
+  assert.deepStrictEqual(result.spans.map(span => [span.term, span.category]), [
+    ['चौंकाने वाला', 'emotive'],
+    ['साजिश', 'conspiracy'],
+    ['तुरंत शेयर करें', 'urgency'],
+    ['big pharma', 'conspiracy']
+  ], 'Hindi terms and the English terms of code-mixed text are both found');
+  assert.ok(result.riskScore > 0.3);
+
+  assert.deepStrictEqual(detector.analyze('यह साजिशें हैं', 'hi').spans, [], 'a term followed by more letters is another word');
+  assert.deepStrictEqual(detector.analyze('yeh sarkar ki saazish hai, turant share karein', 'hi').patterns.conspiracyTerms, ['saazish']);
+  assert.deepStrictEqual(detector.analyze('चौंकाने वाला सच').spans, [], 'Hindi terms are not used for English text');
+  logger.info('Hindi risk patterns passed');
+}
+
+function testSentiment() {
+  const positive = sentimentScorer.score(tokenizeWords('यह बहुत अच्छा और शानदार फैसला है'), 'hi');
+  const negative = sentimentScorer.score(tokenizeWords('yeh jhooth aur dhokha hai, bahut kharab'), 'hi');
+  assert.ok(positive !== null && positive > 0);
+  assert.ok(negative !== null && negative < 0);
+  assert.strictEqual(sentimentScorer.score(['மழை'], 'ta'), null, 'languages without a lexicon have no score');
+  assert.ok((sentimentScorer.score(['good', 'news'], 'en') || 0) > 0);
+  logger.info('Sentiment passed');
+}
+
+function runTests() {
+  try {
+    logger.info('Starting language tests...');
+    testDetection();
+    testTokenization();
+    testHindiRiskPatterns();
+    testSentiment();
+    logger.info('All language tests passed');
+  } catch (error) {
+    logger.error('Language tests failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+runTests();
@@ -0,0 +1,130 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LexiconError, LexiconStore } from '../services/lexiconStore';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+function writePack(dir: string, file: string, pack: unknown) {
+  fs.writeFileSync(path.join(dir, file), JSON.stringify(pack));
+}
+
+const corePack = {
+  name: 'core',
+  version: 1,
+  language: 'en',
+  terms: [
+    { term: 'Deep State', category: 'conspiracy', weight: 0.2 },
+    { term: 'shocking', category: 'emotive' },
+    { term: 'peer-reviewed', category: 'credibility', weight: 0.1 },
+    { term: 'choquant', category: 'emotive', language: 'fr' }
+  ]
+};
+
+function testLoadingPacks(dir: string) {
+  writePack(dir, 'core.en.json', corePack);
+  const store = new LexiconStore(dir, path.join(dir, 'data', 'overrides.json'));
+
+  assert.deepStrictEqual(store.packs().map(pack => [pack.name, pack.version, pack.termCount]), [['core', 1, 4]]);
+  const deepState = store.list({ category: 'conspiracy' })[0];
+  assert.deepStrictEqual(deepState, {
+    term: 'deep state', category: 'conspiracy', weight: 0.2, language: 'en', enabled: true, source: 'core@1'
+  });
+  assert.strictEqual(store.list({ category: 'emotive' }).find(term => term.term === 'shocking')?.weight, 1, 'weight defaults to 1');
+  assert.deepStrictEqual(store.activeTerms('fr').map(term => term.term), ['choquant']);
+  assert.strictEqual(store.activeTerms().length, 3);
+
+  // A broken pack is reported and the terms already loaded stay in use
+  const revision = store.revision;
+  writePack(dir, 'broken.json', { name: 'broken', version: 1, terms: [{ term: 'x', category: 'gossip' }] });
+  assert.strictEqual(store.reload(), false);
+  assert.strictEqual(store.revision, revision);
+  assert.strictEqual(store.activeTerms().length, 3);
+  fs.unlinkSync(path.join(dir, 'broken.json'));
+  logger.info('Loading lexicon packs passed');
+}
+
+async function testAdminChanges(dir: string) {
+  const overridesPath = path.join(dir, 'data', 'overrides.json');
+  const store = new LexiconStore(dir, overridesPath);
+
+  const added = await store.addTerm({ term: 'Chemtrails', category: 'conspiracy', weight: 0.3 });
+  assert.strictEqual(added.source, 'admin');
+  await store.updateTerm({ term: 'shocking', category: 'emotive' }, { enabled: false });
+  await store.updateTerm({ term: 'deep state', category: 'conspiracy' }, { weight: 0.5 });
+
+  const active = store.activeTerms().map(term => `${term.term}:${term.weight}`).sort();
+  assert.deepStrictEqual(active, ['chemtrails:0.3', 'deep state:0.5', 'peer-reviewed:0.1']);
+  assert.deepStrictEqual(store.list({ enabled: false }).map(term => term.term), ['shocking']);
+
+  await assert.rejects(() => store.addTerm({ term: 'x', category: 'gossip' }), (error: unknown) =>
+    error instanceof LexiconError && error.reason === 'invalid_term');
+  await assert.rejects(() => store.updateTerm({ term: 'unknown', category: 'emotive' }, { enabled: false }), (error: unknown) =>
+    error instanceof LexiconError && error.reason === 'not_found');
+  await assert.rejects(() => store.updateTerm({ term: 'shocking', category: 'emotive' }, { weight: 2 }), LexiconError);
+
+  // Overrides outlive the store and survive a pack upgrade
+  writePack(dir, 'core.en.json', { ...corePack, version: 2 });
+  const restarted = new LexiconStore(dir, overridesPath);
+  assert.deepStrictEqual(restarted.packs().map(pack => pack.version), [2]);
+  assert.strictEqual(restarted.list({ category: 'emotive', language: 'en' })[0].enabled, false);
+  assert.strictEqual(restarted.list({ category: 'conspiracy' }).length, 2);
+
+  // Adding a disabled term again turns it back on
+  await restarted.addTerm({ term: 'shocking', category: 'emotive', weight: 0.8 });
+  assert.strictEqual(restarted.activeTerms().find(term => term.term === 'shocking')?.weight, 0.8);
+
+  // Concurrent edits each read the overrides the previous one wrote
+  await Promise.all([
+    restarted.addTerm({ term: 'lizard people', category: 'conspiracy' }),
+    restarted.addTerm({ term: 'flat earth', category: 'conspiracy' }),
+    restarted.updateTerm({ term: 'deep state', category: 'conspiracy' }, { weight: 0.7 })
+  ]);
+  const reread = new LexiconStore(dir, overridesPath);
+  assert.deepStrictEqual(reread.list({ category: 'conspiracy' }).map(term => `${term.term}:${term.weight}`).sort(),
+    ['chemtrails:0.3', 'deep state:0.7', 'flat earth:1', 'lizard people:1']);
+  logger.info('Admin lexicon changes passed');
+}
+
+async function testWatching(dir: string) {
+  const store = new LexiconStore(dir, path.join(dir, 'data', 'overrides.json'));
+  store.watch();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const reloaded = new Promise<number>(resolve => store.once('reload', resolve));
+    writePack(dir, 'extra.json', {
+      name: 'extra',
+      version: 1,
+      terms: [{ term: 'wake up sheeple', category: 'urgency' }]
+    });
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => reject(new Error('Lexicon change was not picked up')), 5000);
+    });
+    await Promise.race([reloaded, timeout]);
+    assert.ok(store.activeTerms().some(term => term.term === 'wake up sheeple'));
+  } finally {
+    clearTimeout(timer);
+    store.close();
+  }
+  logger.info('Reloading changed lexicons passed');
+}
+
+async function runTests() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lexicons-'));
+  try {
+    logger.info('Starting lexicon store tests...');
+    testLoadingPacks(dir);
+    await testAdminChanges(dir);
+    await testWatching(dir);
+    logger.info('All lexicon store tests passed');
+  } catch (error) {
+    logger.error('Lexicon store tests failed:', error);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+runTests();
@@ -0,0 +1,68 @@
+import assert from 'assert';
+import { domainToASCII } from 'url';
+import { detectLookalike } from '../services/lookalikeDetector';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+const trustedDomains = [
+  'reuters.com', 'ap.org', 'bbc.com', 'bbc.co.uk', 'cnn.com', 'thehindu.com',
+  'timesofindia.indiatimes.com', 'ndtv.com', 'zeenews.india.com', 'npr.org'
+];
+
+function expectMatch(domain: string, imitatedDomain: string, technique: string) {
+  const match = detectLookalike(domain, trustedDomains);
+  assert.ok(match, `${domain} should be detected as a lookalike`);
+  assert.strictEqual(match.imitatedDomain, imitatedDomain, domain);
+  assert.strictEqual(match.technique, technique, domain);
+}
+
+function testTechniques() {
+  expectMatch('bbc-news.co', 'bbc.com', 'combosquat');
+  expectMatch('reutersnews.info', 'reuters.com', 'combosquat');
+  expectMatch('thehindu24.com', 'thehindu.com', 'combosquat');
+  expectMatch('reuters.com.co', 'reuters.com', 'embedded_domain');
+  expectMatch('bbc.com.secure-login.xyz', 'bbc.com', 'embedded_domain');
+  expectMatch('reuters.co', 'reuters.com', 'tld_swap');
+  expectMatch('timesofindia.com', 'timesofindia.indiatimes.com', 'tld_swap');
+  expectMatch('reutres.com', 'reuters.com', 'typosquat');
+  expectMatch('thehlndu.com', 'thehindu.com', 'homoglyph');
+  expectMatch('news.bbc.example.net', 'bbc.com', 'brand_in_subdomain');
+  logger.info('Lookalike techniques passed');
+}
+
+function testHomoglyphs() {
+  // Cyrillic е in place of the Latin e, checked in both Unicode and punycode form
+  const spoofed = 'rеuters.com';
+  expectMatch(spoofed, 'reuters.com', 'homoglyph');
+  expectMatch(domainToASCII(spoofed), 'reuters.com', 'homoglyph');
+
+  const match = detectLookalike(domainToASCII(spoofed), trustedDomains);
+  assert.strictEqual(match?.displayDomain, spoofed);
+  expectMatch('reuter5.com', 'reuters.com', 'homoglyph');
+  logger.info('Homoglyph normalization passed');
+}
+
+function testLegitimateDomains() {
+  for (const domain of ['reuters.com', 'www.bbc.com', 'news.bbc.co.uk', 'zeenews.india.com',
+    'india.com', 'indiatimes.com', 'ndtvprofit.com', 'nytimes.com', 'snopes.com', 'wikipedia.org',
+    // Sibling publications, longer names that merely contain a brand, and short names one edit apart
+    'thehindubusinessline.com', 'npr.com', 'ntv.com', 'reutersagency.com', 'cnnbrasil.com.br', 'ndv.com']) {
+    assert.strictEqual(detectLookalike(domain.replace(/^www\./, ''), trustedDomains), null, domain);
+  }
+  logger.info('Legitimate domains passed');
+}
+
+function runTests() {
+  try {
+    logger.info('Starting lookalike detector tests...');
+    testTechniques();
+    testHomoglyphs();
+    testLegitimateDomains();
+    logger.info('All lookalike detector tests passed');
+  } catch (error) {
+    logger.error('Lookalike detector tests failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+runTests();
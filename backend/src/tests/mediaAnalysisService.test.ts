@@ -0,0 +1,142 @@
+import assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import sharp from 'sharp';
+import { MediaAnalysisService } from '../services/mediaAnalysis';
+import { DemoMediaAnalyzer } from '../services/demoMediaAnalyzer';
+import { PerceptualImageIndex } from '../services/imageIndex';
+import { perceptualHashes } from '../utils/perceptualHash';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+// The test server listens on loopback, which the fetcher refuses by default
+process.env.FETCH_ALLOW_PRIVATE_NETWORKS = 'true';
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'media-analysis-'));
+
+function samplePhoto(): Promise<Buffer> {
+  return sharp({ create: { width: 160, height: 120, channels: 3, background: '#336699' } })
+    .composite([{
+      input: { create: { width: 60, height: 40, channels: 3, background: '#ffcc00' } },
+      left: 30,
+      top: 20
+    }])
+    .jpeg({ quality: 85 })
+    .toBuffer();
+}
+
+async function testInputsAgree(service: MediaAnalysisService, photo: Buffer) {
+  const file = path.join(tempDir, 'photo.jpg');
+  fs.writeFileSync(file, photo);
+
+  const fromBuffer = await service.analyzeImage(photo);
+  const again = await service.analyzeImage(photo);
+  const fromPath = await service.analyzeImage({ path: file });
+
+  assert.strictEqual(fromBuffer.manipulationScore, again.manipulationScore, 'results are deterministic');
+  assert.strictEqual(fromPath.manipulationScore, fromBuffer.manipulationScore);
+  assert.deepStrictEqual(fromBuffer.metadata.dimensions, { width: 160, height: 120 });
+  assert.strictEqual(fromBuffer.metadata.size, photo.length);
+  assert.ok(fromBuffer.checksRun?.includes('error_level_analysis'));
+  assert.ok(fromBuffer.checksRun?.includes('metadata_forensics'));
+  // No model files ship with the repo, so the model detectors are skipped with a reason
+  const skipped = fromBuffer.checksSkipped?.map(check => check.name);
+  assert.deepStrictEqual(skipped, ['image_manipulation', 'face_detection']);
+  assert.ok(fromBuffer.checksSkipped?.every(check => check.reason));
+  assert.strictEqual(fromBuffer.faceAnalysis, undefined);
+  // Error level analysis and metadata alone are too little to call the photo either way
+  assert.strictEqual(fromBuffer.verificationStatus, 'inconclusive');
+  assert.strictEqual(fromBuffer.isManipulated, false);
+  assert.ok(fromBuffer.warnings.some(warning => warning.includes('inconclusive')));
+  logger.info('Buffer, path and repeat inputs passed');
+}
+
+async function testUrlInputs(service: MediaAnalysisService, index: PerceptualImageIndex, photo: Buffer) {
+  const server = http.createServer((req, res) => {
+    if (req.url === '/missing.jpg') {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'image/jpeg' });
+    res.end(photo);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    await service.analyzeImage({ url: `${baseUrl}/original.jpg` });
+    const unseeded = await service.analyzeImage({ url: `${baseUrl}/repost.jpg` });
+    assert.deepStrictEqual(unseeded.previousSightings, [], 'submitted images are not added to the index');
+
+    // The same picture reposted elsewhere is matched against the seeded sighting
+    await index.add(await perceptualHashes(photo), { source: `${baseUrl}/original.jpg` });
+    const repost = await service.analyzeImage({ url: `${baseUrl}/repost.jpg` });
+    assert.deepStrictEqual(repost.previousSightings?.map(sighting => sighting.source), [`${baseUrl}/original.jpg`]);
+    assert.ok(repost.warnings.some(warning => warning.startsWith(`Image previously seen on ${baseUrl}/original.jpg`)));
+
+    await assert.rejects(service.analyzeImage({ url: `${baseUrl}/missing.jpg` }), /HTTP 404/);
+    logger.info('URL inputs passed');
+  } finally {
+    server.close();
+  }
+}
+
+function testVideoCapabilities(service: MediaAnalysisService) {
+  const unavailable = service.getCapabilities().filter(capability => !capability.available).map(capability => capability.name);
+  assert.ok(['face_consistency', 'audio_analysis', 'video_metadata'].every(name => unavailable.includes(name)),
+    'video detectors without an implementation are not reported as run');
+  logger.info('Video capabilities passed');
+}
+
+async function testVideoWithoutFfmpeg() {
+  process.env.FFMPEG_PATH = path.join(tempDir, 'no-such-ffmpeg');
+  try {
+    const service = new MediaAnalysisService(new PerceptualImageIndex(path.join(tempDir, 'video-index.jsonl')));
+    await service.initialize();
+    const frameExtraction = service.getCapabilities().find(capability => capability.name === 'frame_extraction');
+    assert.strictEqual(frameExtraction?.available, false);
+    assert.match(frameExtraction?.reason || '', /ffmpeg was not found/);
+
+    const mp4 = Buffer.from('00000018667479706d703432000000006d70343269736f6d', 'hex');
+    const result = await service.analyzeVideo(mp4);
+    assert.strictEqual(result.verificationStatus, 'inconclusive');
+    assert.ok(!result.checksRun?.includes('frame_extraction'));
+    assert.ok(result.checksSkipped?.some(check => check.name === 'frame_extraction'));
+  } finally {
+    delete process.env.FFMPEG_PATH;
+  }
+  logger.info('Video without ffmpeg passed');
+}
+
+async function testDemoMode(photo: Buffer) {
+  const result = await new DemoMediaAnalyzer().analyzeImage(photo);
+  assert.ok(result.warnings[0].startsWith('Demo mode'));
+  assert.deepStrictEqual(result.checksRun, []);
+  logger.info('Demo analyzer passed');
+}
+
+async function runTests() {
+  try {
+    logger.info('Starting media analysis service tests...');
+    const index = new PerceptualImageIndex(path.join(tempDir, 'index.jsonl'));
+    const service = new MediaAnalysisService(index);
+    await service.initialize();
+    const photo = await samplePhoto();
+
+    await testInputsAgree(service, photo);
+    await testUrlInputs(service, index, photo);
+    testVideoCapabilities(service);
+    await testVideoWithoutFfmpeg();
+    await testDemoMode(photo);
+    logger.info('All media analysis service tests passed');
+  } catch (error) {
+    logger.error('Media analysis service tests failed:', error);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+runTests();
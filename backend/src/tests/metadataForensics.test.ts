@@ -0,0 +1,145 @@
+import assert from 'assert';
+import sharp from 'sharp';
+import { analyzeImageMetadata } from '../services/metadataForensics';
+import { readContentCredentials } from '../services/contentCredentials';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+type CborValue = string | number | boolean | CborValue[] | { [key: string]: CborValue };
+
+// Just enough CBOR encoding to build a test manifest
+function encodeCbor(value: CborValue): Buffer {
+  const head = (major: number, length: number) => length < 24
+    ? Buffer.from([(major << 5) | length])
+    : length < 256
+      ? Buffer.from([(major << 5) | 24, length])
+      : Buffer.from([(major << 5) | 25, length >> 8, length & 0xff]);
+
+  if (typeof value === 'number') return head(0, value);
+  if (typeof value === 'boolean') return Buffer.from([value ? 0xf5 : 0xf4]);
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([head(3, bytes.length), bytes]);
+  }
+  if (Array.isArray(value)) return Buffer.concat([head(4, value.length), ...value.map(encodeCbor)]);
+  const entries = Object.entries(value);
+  return Buffer.concat([head(5, entries.length), ...entries.flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)])]);
+}
+
+function box(type: string, content: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(content.length + 8);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, content]);
+}
+
+function superbox(label: string, children: Buffer[]): Buffer {
+  const description = Buffer.concat([Buffer.alloc(16), Buffer.from([0x03]), Buffer.from(`${label}\0`, 'utf8')]);
+  return box('jumb', Buffer.concat([box('jumd', description), ...children]));
+}
+
+// Inserts a manifest store as a single APP11 segment right after the JPEG SOI marker
+function withManifest(jpeg: Buffer, store: Buffer): Buffer {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(0xffeb, 0);
+  header.writeUInt16BE(store.length + 10, 2);
+  header.write('JP', 4, 'latin1');
+  header.writeUInt16BE(1, 6);
+  header.writeUInt32BE(1, 8);
+  return Buffer.concat([jpeg.subarray(0, 2), header, store, jpeg.subarray(2)]);
+}
+
+function blankJpeg(): sharp.Sharp {
+  return sharp({ create: { width: 64, height: 64, channels: 3, background: '#888888' } });
+}
+
+async function testEditedPhotoFromElsewhere() {
+  const image = await blankJpeg()
+    .withMetadata({
+      exif: {
+        IFD0: { Make: 'Canon', Model: 'EOS R5', Software: 'Adobe Photoshop 25.0', DateTime: '2024:05:10 12:00:00' },
+        IFD2: { DateTimeOriginal: '2024:05:01 10:00:00' },
+        IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '48/1 51/1 24/1', GPSLongitudeRef: 'E', GPSLongitude: '2/1 21/1 3/1' }
+      }
+    })
+    .jpeg()
+    .toBuffer();
+
+  // Taken in Paris but claimed to show Mumbai
+  const result = await analyzeImageMetadata(image, {
+    claimedLocation: { latitude: 19.076, longitude: 72.8777, name: 'Mumbai' }
+  });
+  const types = result.findings.map(finding => finding.type);
+
+  assert.ok(types.includes('editing_software'));
+  assert.ok(types.includes('location_mismatch'));
+  assert.ok(types.includes('timestamp_inconsistency'), 'modified 9 days after capture');
+  assert.strictEqual(result.camera, 'Canon EOS R5');
+  assert.strictEqual(result.created, '2024-05-01T10:00:00.000Z');
+  assert.strictEqual(result.modified, '2024-05-10T12:00:00.000Z');
+  assert.ok(result.suspicious);
+  logger.info('Edited photo findings passed');
+}
+
+async function testStrippedMetadata() {
+  const result = await analyzeImageMetadata(await blankJpeg().jpeg().toBuffer());
+  assert.deepStrictEqual(result.findings.map(finding => finding.type), ['stripped_metadata']);
+  assert.strictEqual(result.suspicious, false);
+  logger.info('Stripped metadata passed');
+}
+
+async function testContentCredentials() {
+  const store = superbox('c2pa', [
+    superbox('urn:uuid:00000000-0000-0000-0000-000000000001', [
+      superbox('c2pa.assertions', [
+        superbox('c2pa.actions', [box('cbor', encodeCbor({
+          actions: [{
+            action: 'c2pa.created',
+            softwareAgent: 'Adobe Firefly',
+            digitalSourceType: 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia'
+          }, {
+            action: 'c2pa.color_adjustments'
+          }]
+        }))])
+      ]),
+      superbox('c2pa.claim', [box('cbor', encodeCbor({
+        claim_generator: 'Adobe_Firefly/1.0',
+        'dc:title': 'generated.jpg'
+      }))])
+    ])
+  ]);
+  const image = withManifest(await blankJpeg().jpeg().toBuffer(), store);
+
+  const credentials = readContentCredentials(image);
+  assert.strictEqual(credentials?.manifestCount, 1);
+  assert.strictEqual(credentials?.claimGenerator, 'Adobe_Firefly/1.0');
+  assert.strictEqual(credentials?.title, 'generated.jpg');
+  assert.deepStrictEqual(credentials?.actions, ['c2pa.created', 'c2pa.color_adjustments']);
+  assert.deepStrictEqual(credentials?.softwareAgents, ['Adobe Firefly']);
+  assert.strictEqual(credentials?.generatedByAI, true);
+
+  const result = await analyzeImageMetadata(image);
+  const types = result.findings.map(finding => finding.type);
+  assert.ok(types.includes('ai_generator'));
+  assert.ok(types.includes('content_credentials_edits'));
+  assert.ok(!types.includes('stripped_metadata'), 'a manifest is provenance even without EXIF');
+
+  assert.strictEqual(readContentCredentials(await blankJpeg().jpeg().toBuffer()), null);
+  logger.info('Content Credentials passed');
+}
+
+async function runTests() {
+  try {
+    logger.info('Starting metadata forensics tests...');
+    await testEditedPhotoFromElsewhere();
+    await testStrippedMetadata();
+    await testContentCredentials();
+    logger.info('All metadata forensics tests passed');
+  } catch (error) {
+    logger.error('Metadata forensics tests failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+runTests();
@@ -0,0 +1,173 @@
+import assert from 'assert';
+import axios, { AxiosInstance } from 'axios';
+import express from 'express';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { createMonitorRouter } from '../routes/monitorRoutes';
+import { AnalysisHistoryStore } from '../services/analysisHistory';
+import { DomainInfoProvider } from '../services/domainInfoProvider';
+import { LiveMonitor } from '../services/liveMonitor';
+import { SourceVerifier } from '../services/sourceVerification';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+const ADMIN_TOKEN = 'monitor-test-token';
+const FEED_URL = 'https://bbc.com/news/rss.xml';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const stubProvider: DomainInfoProvider = {
+  name: 'stub',
+  lookup: async domain => ({ domain, registrationDate: '1995-06-01T00:00:00.000Z', source: 'stub' })
+};
+
+// Collects what a Server-Sent Events stream sends until it is closed
+function openStream(url: string, headers: Record<string, string> = {}) {
+  let received = '';
+  const request = http.get(url, { headers }, response => {
+    response.setEncoding('utf8');
+    response.on('data', chunk => {
+      received += chunk;
+    });
+  });
+  request.on('error', () => undefined);
+
+  const waitFor = async (text: string): Promise<string> => {
+    for (let waited = 0; !received.includes(text); waited += 10) {
+      if (waited > 2000) throw new Error(`Stream never sent ${JSON.stringify(text)}, only ${JSON.stringify(received)}`);
+      await sleep(10);
+    }
+    return received;
+  };
+  return { waitFor, close: () => request.destroy() };
+}
+
+async function testAdminGate(client: AxiosInstance) {
+  const source = { url: FEED_URL, type: 'rss' };
+  delete process.env.ADMIN_TOKEN;
+  assert.strictEqual((await client.post('/sources', source)).status, 503, 'changes are disabled without ADMIN_TOKEN');
+
+  process.env.ADMIN_TOKEN = ADMIN_TOKEN;
+  assert.strictEqual((await client.post('/sources', source)).status, 401);
+  assert.strictEqual((await client.post('/sources', source, { headers: { Authorization: 'Bearer wrong-token' } })).status, 401);
+  assert.strictEqual((await client.put(`/sources/${encodeURIComponent(FEED_URL)}`, source)).status, 401);
+  assert.strictEqual((await client.delete(`/sources/${encodeURIComponent(FEED_URL)}`)).status, 401);
+  assert.strictEqual((await client.post('/start')).status, 401);
+  assert.strictEqual((await client.post('/stop')).status, 401);
+  assert.deepStrictEqual((await client.get('/sources')).data, { sources: [] }, 'reads need no token and nothing was added');
+  logger.info('Admin gate passed');
+}
+
+async function testSourceCrud(client: AxiosInstance, admin: AxiosInstance) {
+  const id = encodeURIComponent(FEED_URL);
+  const created = await admin.post('/sources', { url: FEED_URL, type: 'rss', updateInterval: 60000, credentials: { apiKey: 'secret' } });
+  assert.strictEqual(created.status, 201);
+  assert.deepStrictEqual(created.data.source, { url: FEED_URL, type: 'rss', updateInterval: 60000, hasCredentials: true },
+    'credentials are never sent back');
+  assert.strictEqual((await admin.post('/sources', { url: FEED_URL, type: 'rss' })).status, 409);
+
+  for (const invalid of [
+    { type: 'rss' },
+    { url: 'ftp://bbc.com/feed', type: 'rss' },
+    { url: 'http://127.0.0.1/feed', type: 'rss' },
+    { url: 'https://bbc.com/other', type: 'email' },
+    { url: 'https://bbc.com/other', type: 'rss', updateInterval: 100 },
+    { url: 'https://bbc.com/api', type: 'api' }
+  ]) {
+    assert.strictEqual((await admin.post('/sources', invalid)).status, 400, `${JSON.stringify(invalid)} is refused`);
+  }
+
+  assert.deepStrictEqual((await client.get('/sources')).data.sources, [created.data.source]);
+  assert.deepStrictEqual((await client.get(`/sources/${id}`)).data.source, created.data.source);
+  assert.strictEqual((await client.get(`/sources/${encodeURIComponent('https://bbc.com/other')}`)).status, 404);
+
+  const updated = await admin.put(`/sources/${id}`, { url: 'https://bbc.com/moved', type: 'rss', updateInterval: 120000 });
+  assert.strictEqual(updated.status, 200);
+  assert.deepStrictEqual(updated.data.source, { url: FEED_URL, type: 'rss', updateInterval: 120000, hasCredentials: true },
+    'the URL cannot change and omitted credentials are kept');
+  assert.strictEqual((await admin.put(`/sources/${id}`, { type: 'rss', updateInterval: 5 })).status, 400);
+  assert.strictEqual((await client.get(`/sources/${id}`)).data.source.updateInterval, 120000, 'a refused update changes nothing');
+
+  assert.strictEqual((await admin.delete(`/sources/${id}`)).status, 204);
+  assert.strictEqual((await admin.delete(`/sources/${id}`)).status, 404);
+  assert.strictEqual((await admin.put(`/sources/${id}`, { type: 'rss' })).status, 404);
+  assert.deepStrictEqual((await client.get('/status')).data, { monitoring: false, sources: 0, streamClients: 0 });
+  logger.info('Source CRUD passed');
+}
+
+async function testAlertStream(monitor: LiveMonitor, client: AxiosInstance, baseUrl: string) {
+  const stream = openStream(`${baseUrl}/alerts/stream`);
+  await stream.waitFor('event: status\ndata: {"monitoring":false}');
+  assert.strictEqual((await client.get('/status')).data.streamClients, 1);
+
+  const alert = { source: FEED_URL, content: 'Miracle cure hidden by doctors', timestamp: '2024-05-01T10:00:00.000Z', severity: 'high', type: 'fake_news' };
+  monitor.emit('alert', alert);
+  await stream.waitFor(`id: 1\nevent: alert\ndata: ${JSON.stringify(alert)}\n\n`);
+  monitor.emit('source_error', { source: FEED_URL, error: new Error('feed unreachable') });
+  await stream.waitFor(`id: 2\nevent: source_error\ndata: {"source":"${FEED_URL}","message":"feed unreachable"}\n\n`);
+  monitor.emit('monitoring_started');
+  await stream.waitFor('id: 3\nevent: status\ndata: {"monitoring":true}');
+  stream.close();
+
+  // A client reconnecting after the alert is sent the events it missed, then the current status
+  const resumed = openStream(`${baseUrl}/alerts/stream`, { 'Last-Event-ID': '1' });
+  const replayed = await resumed.waitFor('id: 3\nevent: status\ndata: {"monitoring":false}');
+  resumed.close();
+  assert.ok(replayed.includes('event: source_error') && !replayed.includes('event: alert'), replayed);
+
+  assert.deepStrictEqual((await client.get('/alerts')).data, { alerts: [alert] });
+  for (let waited = 0; (await client.get('/status')).data.streamClients > 0; waited += 10) {
+    assert.ok(waited < 2000, 'closed streams are dropped');
+    await sleep(10);
+  }
+  logger.info('Alert stream passed');
+}
+
+async function runTests() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'monitor-routes-'));
+  const saved = {
+    adminToken: process.env.ADMIN_TOKEN,
+    tlsCheck: process.env.DOMAIN_TLS_CHECK,
+    privateNetworks: process.env.FETCH_ALLOW_PRIVATE_NETWORKS
+  };
+  process.env.DOMAIN_TLS_CHECK = 'false';
+  delete process.env.FETCH_ALLOW_PRIVATE_NETWORKS;
+
+  const verifier = new SourceVerifier(stubProvider, null, new AnalysisHistoryStore(path.join(dir, 'history.jsonl')));
+  await verifier.initialize();
+  const monitor = new LiveMonitor(verifier);
+  const app = express();
+  app.use(express.json());
+  app.use('/monitor', createMonitorRouter(monitor));
+  const server = http.createServer(app);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/monitor`;
+  const client = axios.create({ baseURL: baseUrl, validateStatus: () => true });
+  const admin = axios.create({ baseURL: baseUrl, validateStatus: () => true, headers: { Authorization: `Bearer ${ADMIN_TOKEN}` } });
+
+  try {
+    logger.info('Starting monitor route tests...');
+    await testAdminGate(client);
+    await testSourceCrud(client, admin);
+    await testAlertStream(monitor, client, baseUrl);
+    logger.info('All monitor route tests passed');
+  } catch (error) {
+    logger.error('Monitor route tests failed:', error);
+    process.exitCode = 1;
+  } finally {
+    server.closeAllConnections();
+    server.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+    if (saved.adminToken === undefined) delete process.env.ADMIN_TOKEN;
+    else process.env.ADMIN_TOKEN = saved.adminToken;
+    if (saved.tlsCheck === undefined) delete process.env.DOMAIN_TLS_CHECK;
+    else process.env.DOMAIN_TLS_CHECK = saved.tlsCheck;
+    if (saved.privateNetworks !== undefined) process.env.FETCH_ALLOW_PRIVATE_NETWORKS = saved.privateNetworks;
+  }
+}
+
+runTests();
@@ -0,0 +1,85 @@
+import assert from 'assert';
+import { RiskPatternDetector } from '../models/riskPatternDetector';
+import { LexiconTerm } from '../models/lexicons';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+function testSpans() {
+  const text = 'BREAKING: the Deep State hid this. Doctors hate this one weird trick – they don’t want you to know!';
+  const result = new RiskPatternDetector().analyze(text);
+
+  for (const span of result.spans) {
+    assert.strictEqual(text.slice(span.start, span.end).toLowerCase().replace('’', '\''), span.term);
+  }
+  assert.deepStrictEqual(result.spans.map(span => [span.term, span.category]), [
+    ['breaking', 'urgency'],
+    ['deep state', 'conspiracy'],
+    ['doctors hate', 'clickbait'],
+    ['one weird trick', 'clickbait'],
+    ['they don\'t want you to know', 'urgency']
+  ]);
+  assert.deepStrictEqual(result.patterns.conspiracyTerms, ['deep state']);
+  assert.deepStrictEqual(result.patterns.clickbaitPhrases, ['doctors hate', 'one weird trick']);
+  assert.ok(result.patterns.urgencyIndicators);
+  assert.deepStrictEqual(result.flaggedTerms, ['breaking', 'deep state', 'doctors hate', 'one weird trick', 'they don\'t want you to know']);
+  logger.info('Flagged term spans passed');
+}
+
+function testWordBoundaries() {
+  const result = new RiskPatternDetector().analyze('Officials urgently repaired the microchips plant after a secretive meeting.');
+  assert.deepStrictEqual(result.spans, [], 'terms inside longer words are not flagged');
+  assert.strictEqual(result.riskScore, 0);
+
+  const repeated = new RiskPatternDetector().analyze('Shocking. Truly shocking.');
+  assert.deepStrictEqual(repeated.spans.map(span => span.start), [0, 16], 'every occurrence gets a span');
+  assert.deepStrictEqual(repeated.flaggedTerms, ['shocking']);
+  logger.info('Word boundaries passed');
+}
+
+function testScoresAndLexicons() {
+  const detector = new RiskPatternDetector();
+  const sober = detector.analyze('The council approved the budget on Tuesday, according to the minutes.');
+  const sensational = detector.analyze('SHOCKING miracle cure EXPOSED!!! Wake up, the illuminati are hiding it!');
+  assert.ok(sensational.riskScore > sober.riskScore);
+  assert.ok(sober.fakeProbability < 0.5 && sensational.fakeProbability > 0.5,
+    'the calibrated probability puts the decision threshold where the raw risk scores separate');
+  assert.ok(sensational.analysis.some(line => line.startsWith('Clickbait phrases detected')));
+
+  assert.deepStrictEqual(detector.analyze('A cover-up, they say').patterns.conspiracyTerms, ['cover up'], 'hyphens match spaces');
+  assert.strictEqual(detector.analyze('').riskScore, 0);
+
+  const term = (text: string, weight: number, language = 'en'): LexiconTerm =>
+    ({ term: text, category: 'conspiracy', weight, language, enabled: true, source: 'test' });
+  const source = { revision: 1, terms: [term('lizard people', 0.4), term('reptiliens', 1, 'fr')] };
+  const custom = new RiskPatternDetector({
+    get revision() { return source.revision; },
+    activeTerms: language => source.terms.filter(candidate => candidate.language === language)
+  });
+  const lizards = custom.analyze('Lizard people run the deep state');
+  assert.deepStrictEqual(lizards.patterns.conspiracyTerms, ['lizard people']);
+  assert.strictEqual(lizards.riskScore, 0.4 * 0.25, 'a term counts with its weight');
+  assert.deepStrictEqual(custom.analyze('Les reptiliens', 'fr').patterns.conspiracyTerms, ['reptiliens']);
+  assert.deepStrictEqual(custom.analyze('Les reptiliens').spans, [], 'terms only match their language');
+
+  source.terms = [term('deep state', 1)];
+  source.revision = 2;
+  assert.deepStrictEqual(custom.analyze('Lizard people run the deep state').patterns.conspiracyTerms, ['deep state'],
+    'a new lexicon revision recompiles the matchers');
+  logger.info('Risk scores and custom lexicons passed');
+}
+
+function runTests() {
+  try {
+    logger.info('Starting risk pattern detector tests...');
+    testSpans();
+    testWordBoundaries();
+    testScoresAndLexicons();
+    logger.info('All risk pattern detector tests passed');
+  } catch (error) {
+    logger.error('Risk pattern detector tests failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+runTests();
@@ -0,0 +1,116 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AnalysisHistoryStore } from '../services/analysisHistory';
+import { DomainInfoProvider } from '../services/domainInfoProvider';
+import { SourceVerifier } from '../services/sourceVerification';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const yearsAgo = (years: number) => new Date(Date.now() - years * YEAR_MS - YEAR_MS / 2).toISOString();
+
+// Registration dates by registrable domain; other domains have no record
+const registrations: Record<string, string> = {
+  'bbc.com': yearsAgo(30),
+  'india.gov.in': yearsAgo(12)
+};
+
+const stubProvider: DomainInfoProvider = {
+  name: 'stub',
+  lookup: async domain => (registrations[domain] ? { domain, registrationDate: registrations[domain], source: 'stub' } : null)
+};
+
+async function createVerifier(history: AnalysisHistoryStore) {
+  const verifier = new SourceVerifier(stubProvider, null, history);
+  await verifier.initialize();
+  return verifier;
+}
+
+async function testSchemeNormalization(verifier: SourceVerifier) {
+  const results = await Promise.all(['bbc.com', 'https://bbc.com', 'http://www.bbc.com/', 'BBC.com.'].map(url => verifier.verifySource(url)));
+  results.forEach(result => {
+    assert.strictEqual(result.credibilityScore, results[0].credibilityScore, 'the scheme does not change the score');
+    assert.deepStrictEqual(result.factors, results[0].factors);
+  });
+  assert.ok(!results[0].factors.some(factor => factor.factor === 'transport'), 'transport comes from the TLS check only');
+  await assert.rejects(verifier.verifySource('http://'), /Invalid source URL/);
+  logger.info('Scheme normalization passed');
+}
+
+async function testStatusThresholds(verifier: SourceVerifier) {
+  const expectations: [string, number, 'verified' | 'suspicious' | 'unverified'][] = [
+    // trusted outlet (+0.4) registered 30 years ago (+0.1)
+    ['https://bbc.com/news', 1, 'verified'],
+    // nothing known either way leaves the neutral baseline, which is not enough for suspicious
+    ['https://unknown-outlet.example', 0.5, 'unverified'],
+    // institutional suffix alone (+0.15) stays at or below the verified threshold
+    ['https://cs.stanford.edu', 0.65, 'suspicious'],
+    // institutional suffix (+0.15) and a domain older than 10 years (+0.1)
+    ['https://www.india.gov.in', 0.75, 'verified'],
+    // a typosquat (-0.4) is suspicious whatever its score
+    ['https://reuterss.com', 0.1, 'suspicious']
+  ];
+
+  for (const [url, score, status] of expectations) {
+    const result = await verifier.verifySource(url);
+    assert.strictEqual(result.credibilityScore, score, `credibility score of ${url}`);
+    assert.strictEqual(result.verificationStatus, status, `verification status of ${url}`);
+    assert.strictEqual(result.isVerified, status === 'verified');
+  }
+  logger.info('Score and status thresholds passed');
+}
+
+async function testSourceHistory(verifier: SourceVerifier, history: AnalysisHistoryStore) {
+  const recordArticle = (source: string, prediction: string) => history.record({
+    kind: 'text',
+    hashInput: `${source} ${prediction}`,
+    input: { text: 'Article', source },
+    output: { prediction },
+    durationMs: 1
+  });
+
+  for (let i = 0; i < 10; i++) {
+    await recordArticle(i % 2 === 0 ? 'https://rumours.example/story' : 'rumours.example', 'FAKE');
+  }
+  await recordArticle('https://other.example', 'REAL');
+
+  const result = await verifier.verifySource('http://www.rumours.example');
+  assert.strictEqual(result.sourceHistory.analyzedArticles, 10, 'articles are matched by domain whatever the scheme');
+  assert.strictEqual(result.sourceHistory.reliability, 0);
+  assert.deepStrictEqual(result.factors.find(factor => factor.factor === 'history')?.contribution, -0.2);
+  assert.strictEqual(result.credibilityScore, 0.3);
+  assert.strictEqual(result.verificationStatus, 'unverified');
+  assert.ok(result.warnings.some(warning => warning.includes('100% of 10 previously analyzed articles')));
+
+  await recordArticle('rumours.example', 'REAL');
+  assert.strictEqual((await verifier.verifySource('rumours.example')).sourceHistory.analyzedArticles, 11,
+    'newly recorded articles are counted');
+  logger.info('Source history passed');
+}
+
+async function runTests() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-verification-'));
+  const tlsCheck = process.env.DOMAIN_TLS_CHECK;
+  process.env.DOMAIN_TLS_CHECK = 'false';
+  try {
+    logger.info('Starting source verification tests...');
+    const history = new AnalysisHistoryStore(path.join(dir, 'analysis-history.jsonl'));
+    const verifier = await createVerifier(history);
+    await testSchemeNormalization(verifier);
+    await testStatusThresholds(verifier);
+    await testSourceHistory(verifier, history);
+    logger.info('All source verification tests passed');
+  } catch (error) {
+    logger.error('Source verification tests failed:', error);
+    process.exitCode = 1;
+  } finally {
+    if (tlsCheck === undefined) delete process.env.DOMAIN_TLS_CHECK;
+    else process.env.DOMAIN_TLS_CHECK = tlsCheck;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+runTests();
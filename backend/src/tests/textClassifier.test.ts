@@ -0,0 +1,173 @@
+import assert from 'assert';
+import * as tf from '@tensorflow/tfjs';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  classificationMetrics,
+  EMBEDDING_SIZE,
+  embedText,
+  hashingEncoder,
+  LabeledText,
+  loadClassifier,
+  loadLabeledCorpus,
+  predictFakeProbabilities,
+  saveClassifier,
+  SentenceEncoder,
+  splitHoldout,
+  TextClassifierNotTrainedError,
+  trainClassifier
+} from '../services/textClassifier';
+import { TtlCache } from '../utils/cache';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'text-classifier-'));
+
+// Stands in for the universal-sentence-encoder, which is downloaded at runtime: a hashed bag of words
+const bagOfWords: SentenceEncoder = {
+  async embed(texts: string[]) {
+    return tf.tensor2d(texts.map(text => {
+      const vector = new Array(EMBEDDING_SIZE).fill(0);
+      text.toLowerCase().split(/\W+/).filter(Boolean).forEach(word => {
+        const bucket = Array.from(word).reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) % EMBEDDING_SIZE, 7);
+        vector[bucket] += 1;
+      });
+      return vector;
+    }));
+  }
+};
+
+function syntheticCorpus(): LabeledText[] {
+  const topics = ['vaccine', 'election', 'climate', 'economy', 'football', 'bridge', 'river', 'school', 'airport', 'market'];
+  const fake = ['shocking secret they hide about the', 'miracle cure exposed by insiders on the', 'you will not believe this bombshell on the'];
+  const real = ['officials confirmed the report on the', 'according to a published study the', 'data released on tuesday about the'];
+  return topics.flatMap(topic => [
+    ...fake.map(phrase => ({ text: `${phrase} ${topic}`, label: 'FAKE' as const })),
+    ...real.map(phrase => ({ text: `${phrase} ${topic}`, label: 'REAL' as const }))
+  ]);
+}
+
+async function testCorpusLoading() {
+  const csv = path.join(tempDir, 'corpus.csv');
+  fs.writeFileSync(csv, [
+    'title,text,label',
+    'Cure,"Doctors hate this, one weird trick",FAKE',
+    'Budget,"The council said:\r\n""spending rises 2%""",real',
+    '',
+    'Rates,Bank holds rates,0'
+  ].join('\r\n'));
+  assert.deepStrictEqual(await loadLabeledCorpus(csv), [
+    { text: 'Doctors hate this, one weird trick', label: 'FAKE' },
+    { text: 'The council said:\r\n"spending rises 2%"', label: 'REAL' },
+    { text: 'Bank holds rates', label: 'REAL' }
+  ]);
+
+  const jsonl = path.join(tempDir, 'corpus.jsonl');
+  fs.writeFileSync(jsonl, '{"text":"Aliens built the pyramids","label":1}\n\n{"text":"Parliament passed the bill","label":"Real"}\n');
+  assert.deepStrictEqual((await loadLabeledCorpus(jsonl)).map(example => example.label), ['FAKE', 'REAL']);
+
+  fs.writeFileSync(jsonl, '{"text":"Unlabeled claim","label":"maybe"}\n');
+  await assert.rejects(loadLabeledCorpus(jsonl), /row 1 needs a text and a REAL\/FAKE label/);
+  logger.info('Corpus loading passed');
+}
+
+function testSplitAndMetrics() {
+  const items = Array.from({ length: 10 }, (_, index) => index);
+  const split = splitHoldout(items, 0.3);
+  assert.strictEqual(split.test.length, 3);
+  assert.deepStrictEqual([...split.train, ...split.test].sort((a, b) => a - b), items);
+  assert.deepStrictEqual(splitHoldout(items, 0.3), split, 'the same seed gives the same split');
+
+  // 2 true positives, 1 false positive, 1 false negative, 1 true negative
+  const metrics = classificationMetrics([0.9, 0.8, 0.7, 0.2, 0.1], ['FAKE', 'FAKE', 'REAL', 'FAKE', 'REAL']);
+  assert.strictEqual(metrics.accuracy, 0.6);
+  assert.strictEqual(metrics.precision, 2 / 3);
+  assert.strictEqual(metrics.recall, 2 / 3);
+  assert.ok(Math.abs(metrics.f1 - 2 / 3) < 1e-9);
+  assert.strictEqual(metrics.support, 5);
+  assert.deepStrictEqual(classificationMetrics([], []), { accuracy: 0, precision: 0, recall: 0, f1: 0, support: 0 });
+  logger.info('Holdout split and metrics passed');
+}
+
+async function testTrainSaveAndLoad() {
+  const modelDir = path.join(tempDir, 'text_classifier');
+  await assert.rejects(loadClassifier(modelDir), TextClassifierNotTrainedError);
+
+  const report = await trainClassifier(syntheticCorpus(), bagOfWords, { epochs: 60, holdout: 0.25 });
+  assert.strictEqual(report.trainSize + report.testSize, 60);
+  assert.ok(report.metrics.accuracy >= 0.9, `held-out accuracy ${report.metrics.accuracy}`);
+  assert.ok(report.metrics.f1 >= 0.9, `held-out F1 ${report.metrics.f1}`);
+
+  await saveClassifier(report.model, modelDir);
+  assert.deepStrictEqual(fs.readdirSync(modelDir).sort(), ['model.json', 'weights.bin']);
+
+  const embeddings = await bagOfWords.embed(['shocking secret they hide about the harbour', 'officials confirmed the report on the harbour']);
+  const restored = await loadClassifier(modelDir);
+  const before = await predictFakeProbabilities(report.model, embeddings);
+  const after = await predictFakeProbabilities(restored, embeddings);
+  embeddings.dispose();
+  assert.deepStrictEqual(after, before, 'saved weights load back unchanged');
+  assert.ok(after[0] > 0.5 && after[1] < 0.5);
+  logger.info('Training, saving and loading passed');
+}
+
+async function testEmbeddingCache() {
+  let encoded = 0;
+  const counting: SentenceEncoder = {
+    embed: texts => {
+      encoded += texts.length;
+      return bagOfWords.embed(texts);
+    }
+  };
+  const cache = new TtlCache<number[]>({ ttlMs: 60000 });
+
+  const first = await embedText(counting, 'officials confirmed the report', cache);
+  const second = await embedText(counting, 'officials confirmed the report', cache);
+  assert.strictEqual(encoded, 1, 'an identical text is embedded once');
+  assert.deepStrictEqual(second.shape, [1, EMBEDDING_SIZE]);
+  assert.deepStrictEqual(Array.from(second.dataSync()), Array.from(first.dataSync()));
+  first.dispose();
+  second.dispose();
+
+  (await embedText(counting, 'officials denied the report', cache)).dispose();
+  assert.strictEqual(encoded, 2);
+  assert.deepStrictEqual(cache.stats(), { hits: 1, misses: 2, hitRate: 1 / 3, entries: 2 });
+  logger.info('Embedding cache passed');
+}
+
+async function testHashingEncoder() {
+  const embeddings = await hashingEncoder.embed(['Officials confirmed the report', 'सरकार ने घोषणा की', '']);
+  const [english, hindi, empty] = embeddings.arraySync() as number[][];
+  embeddings.dispose();
+  assert.ok(Math.abs(english.reduce((sum, value) => sum + value * value, 0) - 1) < 1e-6, 'embeddings have unit length');
+  assert.ok(hindi.some(value => value > 0), 'non-Latin words are embedded too');
+  assert.ok(empty.every(value => value === 0));
+
+  // Its embeddings are cached apart from the universal-sentence-encoder's
+  const cache = new TtlCache<number[]>({ ttlMs: 60000 });
+  (await embedText(bagOfWords, 'officials confirmed the report', cache)).dispose();
+  const hashed = await embedText(hashingEncoder, 'officials confirmed the report', cache);
+  assert.deepStrictEqual(Array.from(hashed.dataSync()), english.map(value => Math.fround(value)));
+  hashed.dispose();
+  logger.info('Hashing encoder passed');
+}
+
+async function runTests() {
+  try {
+    logger.info('Starting text classifier tests...');
+    await testCorpusLoading();
+    testSplitAndMetrics();
+    await testTrainSaveAndLoad();
+    await testEmbeddingCache();
+    await testHashingEncoder();
+    logger.info('All text classifier tests passed');
+  } catch (error) {
+    logger.error('Text classifier tests failed:', error);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+runTests();
@@ -0,0 +1,110 @@
+import assert from 'assert';
+import { FactCheckClaim } from '../services/factCheckService';
+import { classifyRating, verdictConsensus, verdictTruth } from '../services/verdicts';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+function testGenericRules() {
+  const cases: [string | null, string][] = [
+    ['Not true but widely shared…', 'FALSE'],
+    ['Not entirely true', 'MIXED'],
+    ['Not entirely false', 'MIXED'],
+    ['False. No evidence supports it', 'FALSE'],
+    ['No evidence', 'UNPROVEN'],
+    ['Mostly False', 'MOSTLY_FALSE'],
+    ['Largely accurate', 'MOSTLY_TRUE'],
+    ['Pants on Fire!', 'FALSE'],
+    ['False and misleading', 'FALSE'],
+    ['Misleading', 'MOSTLY_FALSE'],
+    ['Half-True', 'MIXED'],
+    ['Partly false', 'MIXED'],
+    ['Incorrect', 'FALSE'],
+    ['Correct', 'TRUE'],
+    ['Satire', 'SATIRE'],
+    ['Unproven', 'UNPROVEN'],
+    ['गलत', 'FALSE'],
+    ['सच नहीं', 'FALSE'],
+    ['झूठा', 'FALSE'],
+    ['झूठी खबर', 'FALSE'],
+    ['भ्रामक', 'MOSTLY_FALSE'],
+    ['Falso', 'FALSE'],
+    ['Engañoso', 'MOSTLY_FALSE'],
+    ['Verdadero', 'TRUE'],
+    ['1/5', 'FALSE'],
+    ['4/5', 'MOSTLY_TRUE'],
+    ['Four Pinocchios', 'UNPROVEN'],
+    [null, 'UNPROVEN']
+  ];
+  cases.forEach(([rating, verdict]) => assert.strictEqual(classifyRating(rating), verdict, `${rating}`));
+  logger.info('Generic rating rules passed');
+}
+
+function testPublisherRatings() {
+  const snopes = { name: 'Snopes', site: 'www.snopes.com' };
+  assert.strictEqual(classifyRating('Legend', snopes), 'FALSE');
+  assert.strictEqual(classifyRating('Legend'), 'UNPROVEN', 'the publisher map only applies to its publisher');
+  assert.strictEqual(classifyRating('Labeled Satire', snopes), 'SATIRE');
+  assert.strictEqual(classifyRating('Unfounded', snopes), 'UNPROVEN');
+  assert.strictEqual(classifyRating('Full Flop', { name: 'PolitiFact', site: 'politifact.com' }), 'UNPROVEN');
+  assert.strictEqual(classifyRating('Sarcasm', { site: 'hindi.boomlive.in' }), 'SATIRE', 'subdomains use the map');
+  assert.strictEqual(classifyRating('फ़र्ज़ी', { name: 'BOOM' }), 'FALSE', 'publishers are also known by name');
+  assert.strictEqual(classifyRating('Mis-captioned', { name: 'Alt News' }), 'MOSTLY_FALSE');
+  assert.strictEqual(classifyRating('Mostly False', snopes), 'MOSTLY_FALSE');
+
+  assert.strictEqual(verdictTruth('TRUE'), 1);
+  assert.strictEqual(verdictTruth('MIXED'), 0.5);
+  assert.strictEqual(verdictTruth('FALSE'), 0);
+  assert.strictEqual(verdictTruth('SATIRE'), null);
+  logger.info('Publisher rating maps passed');
+}
+
+function claim(text: string, reviews: [string, string, string][]): FactCheckClaim {
+  return {
+    text,
+    claimant: 'someone',
+    claimDate: '2024-01-01',
+    claimReview: reviews.map(([name, site, textualRating]) => ({
+      publisher: { name, site },
+      url: `https://${site}/review`,
+      title: 'Review',
+      reviewDate: '2024-01-02',
+      textualRating,
+      languageCode: 'en'
+    }))
+  };
+}
+
+function testConsensus() {
+  const consensus = verdictConsensus([
+    claim('A', [['Snopes', 'snopes.com', 'False'], ['PolitiFact', 'politifact.com', 'Mostly False']]),
+    claim('B', [['BOOM', 'boomlive.in', 'Misleading'], ['Snopes', 'snopes.com', 'True']])
+  ]);
+  assert.strictEqual(consensus.reviews.length, 3, 'each publisher counts once');
+  assert.strictEqual(consensus.verdict, 'MOSTLY_FALSE', 'the first result does not decide alone');
+  assert.ok(Math.abs((consensus.truth as number) - 1 / 6) < 1e-9);
+  assert.ok(Math.abs(consensus.agreement - 2 / 3) < 1e-9);
+  assert.deepStrictEqual([consensus.rating, consensus.publisher], ['Mostly False', 'PolitiFact']);
+
+  const offScale = verdictConsensus([claim('C', [['Snopes', 'snopes.com', 'Unproven'], ['BOOM', 'boomlive.in', 'Sarcasm']])]);
+  assert.deepStrictEqual([offScale.verdict, offScale.truth, offScale.rating], ['SATIRE', null, 'Sarcasm']);
+
+  const empty = verdictConsensus([]);
+  assert.deepStrictEqual([empty.verdict, empty.truth, empty.agreement, empty.rating], ['UNPROVEN', null, 0, null]);
+  logger.info('Verdict consensus passed');
+}
+
+async function runTests() {
+  try {
+    logger.info('Starting verdict tests...');
+    testGenericRules();
+    testPublisherRatings();
+    testConsensus();
+    logger.info('All verdict tests passed');
+  } catch (error) {
+    logger.error('Verdict tests failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+runTests();
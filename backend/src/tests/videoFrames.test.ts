@@ -0,0 +1,130 @@
+import assert from 'assert';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  buildFrameFilter,
+  detectVideoFormat,
+  extractVideoFrames,
+  parseFrameTimestamps,
+  parseProbe
+} from '../services/videoFrames';
+import { setupLogger } from '../utils/logger';
+
+const logger = setupLogger();
+
+const FFMPEG_LOG = `Input #0, mov,mp4,m4a,3gp,3g2,mj2, from 'input':
+  Duration: 00:01:05.50, start: 0.000000, bitrate: 1205 kb/s
+  Stream #0:0[0x1](und): Video: h264 (High) (avc1 / 0x31637661), yuv420p(progressive), 1280x720, 1070 kb/s, 29.97 fps, 29.97 tbr, 30k tbn (default)
+[Parsed_showinfo_2 @ 0x55d0c8a4c2c0] n:   0 pts:      0 pts_time:0       duration:   1001 duration_time:0.0333667
+[Parsed_showinfo_2 @ 0x55d0c8a4c2c0] n:   1 pts:  60060 pts_time:2.002   duration:   1001 duration_time:0.0333667
+[Parsed_showinfo_2 @ 0x55d0c8a4c2c0] n:   2 pts: 120120 pts_time:4.004   duration:   1001 duration_time:0.0333667
+`;
+
+function testFilters() {
+  assert.strictEqual(
+    buildFrameFilter({ mode: 'interval', everySeconds: 2 }),
+    'select=isnan(prev_selected_t)+gte(t-prev_selected_t\\,2),scale=w=min(iw\\,640):h=-2,showinfo'
+  );
+  // A 10 minute video with a budget of 30 frames samples every 20 seconds rather than every 2
+  assert.ok(
+    buildFrameFilter({ mode: 'interval', everySeconds: 2 }, { maxFrames: 30, durationSeconds: 600 })
+      .startsWith('select=isnan(prev_selected_t)+gte(t-prev_selected_t\\,20),')
+  );
+  assert.strictEqual(
+    buildFrameFilter({ mode: 'scene', threshold: 0.4 }, { maxWidth: 320 }),
+    'select=eq(n\\,0)+gt(scene\\,0.4),scale=w=min(iw\\,320):h=-2,showinfo'
+  );
+  logger.info('Frame filters passed');
+}
+
+function testLogParsing() {
+  assert.deepStrictEqual(parseProbe(FFMPEG_LOG), { durationSeconds: 65.5, frameRate: 29.97 });
+  assert.deepStrictEqual(parseProbe('input: Invalid data found when processing input'), {
+    durationSeconds: undefined,
+    frameRate: undefined
+  });
+  assert.deepStrictEqual(parseFrameTimestamps(FFMPEG_LOG), [0, 2.002, 4.004]);
+  logger.info('ffmpeg log parsing passed');
+}
+
+// The start of an MP4: a box size, "ftyp" and the major brand
+const MP4_HEADER = Buffer.from('00000018667479706d703432000000006d70343269736f6d', 'hex');
+
+function testFormatDetection() {
+  assert.strictEqual(detectVideoFormat(MP4_HEADER), 'mov');
+  assert.strictEqual(detectVideoFormat(Buffer.from('1a45dfa39f4286810142f7810142f281', 'hex')), 'matroska');
+  assert.strictEqual(detectVideoFormat(Buffer.from('RIFF\x00\x00\x00\x00AVI LIST', 'latin1')), 'avi');
+  assert.strictEqual(detectVideoFormat(Buffer.from('#EXTM3U\n#EXTINF:10,\nfile:///etc/passwd\n')), null,
+    'playlists are not passed to ffmpeg');
+  assert.strictEqual(detectVideoFormat(Buffer.from('short')), null);
+  logger.info('Video format detection passed');
+}
+
+async function testMissingBinary() {
+  await assert.rejects(
+    extractVideoFrames(MP4_HEADER, { ffmpegPath: path.join(os.tmpdir(), 'no-such-ffmpeg') }),
+    /ffmpeg was not found/
+  );
+  await assert.rejects(
+    extractVideoFrames(Buffer.from('ffconcat version 1.0\nfile /etc/passwd\n')),
+    { name: 'UnsupportedVideoFormatError' }
+  );
+  logger.info('Missing ffmpeg binary passed');
+}
+
+async function testExtraction() {
+  if (spawnSync('ffmpeg', ['-version']).error) {
+    logger.warn('ffmpeg is not installed; skipping frame extraction test');
+    return;
+  }
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'video-frames-test-'));
+  try {
+    const file = path.join(tempDir, 'clip.mp4');
+    const generated = spawnSync('ffmpeg', [
+      '-hide_banner', '-loglevel', 'error',
+      '-f', 'lavfi', '-i', 'testsrc=duration=6:size=320x240:rate=10',
+      '-pix_fmt', 'yuv420p', file
+    ]);
+    assert.strictEqual(generated.status, 0, generated.stderr?.toString());
+
+    const { frames, durationSeconds, frameRate } = await extractVideoFrames(fs.readFileSync(file), {
+      sampling: { mode: 'interval', everySeconds: 2 }
+    });
+    assert.strictEqual(durationSeconds, 6);
+    assert.strictEqual(frameRate, 10);
+    assert.deepStrictEqual(frames.map(frame => frame.timestamp), [0, 2, 4]);
+    assert.deepStrictEqual(frames.map(frame => frame.index), [0, 1, 2]);
+    assert.strictEqual(frames[0].data.length, 320 * 240 * 3);
+
+    const budgeted = await extractVideoFrames(fs.readFileSync(file), {
+      sampling: { mode: 'scene', threshold: 0.01 },
+      maxFrames: 2,
+      maxWidth: 160
+    });
+    assert.strictEqual(budgeted.frames.length, 2);
+    assert.strictEqual(budgeted.frames[0].width, 160);
+    logger.info('Frame extraction passed');
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+async function runTests() {
+  try {
+    logger.info('Starting video frame tests...');
+    testFilters();
+    testLogParsing();
+    testFormatDetection();
+    await testMissingBinary();
+    await testExtraction();
+    logger.info('All video frame tests passed');
+  } catch (error) {
+    logger.error('Video frame tests failed:', error);
+    process.exitCode = 1;
+  }
+}
+
+runTests();
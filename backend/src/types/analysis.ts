@@ -1,106 +1,182 @@
-export interface AnalysisResult {
-  prediction: 'REAL' | 'FAKE';
-  confidence: number;
-  reasoning: string[];
-  processingTime: number;
-  articleLength: number;
-  reliabilityScore: number;
-  suspiciousIndicators: string[];
-  credibilityScore: number;
-  sentimentScore: number;
-  languageMetrics: {
-    readability: number;
-    complexity: number;
-  };
-}
-
-export interface MediaAnalysisResult {
-  type: 'image' | 'video';
-  isManipulated: boolean;
-  manipulationScore: number;
-  confidence: number;
-  metadata: {
-    dimensions?: {
-      width: number;
-      height: number;
-    };
-    format?: string;
-    size?: number;
-    created?: string;
-    modified?: string;
-    analyzedAt: string;
-    totalFrames?: number;
-    analyzedFrames?: number;
-  };
-  detectedObjects?: string[];
-  errorLevel?: number;
-  faceAnalysis?: {
-    detected: boolean;
-    anomalies: string[];
-  };
-  isDeepfake?: boolean;
-  inconsistentFrames?: number[];
-  warnings: string[];
-  verificationStatus: 'verified' | 'manipulated' | 'suspicious';
-}
-
-export interface SampleArticle {
-  title: string;
-  content: string;
-  source: string;
-  category: 'real' | 'fake';
-}
-
-interface LinguisticIndicators {
-  emotionalLanguage: number;
-  sensationalism: number;
-  grammarQuality: number;
-  clickbaitScore: number;
-  biasScore: number;
-}
-
-interface SemanticIndicators {
-  coherence: number;
-  factualConsistency: number;
-  contextRelevance: number;
-  topicDrift: number;
-}
-
-interface SourceIndicators {
-  credibility: number;
-  recentAccuracy: number;
-  verifiedClaims: number;
-  domainAge: number;
-}
-
-export interface AnalysisRequest {
-  text: string;
-  url?: string;
-  title?: string;
-  metadata?: {
-    source?: string;
-    publishDate?: string;
-    author?: string;
-  };
-}
-
-export interface MLResult {
-  classification?: {
-    labels: string[];
-    scores: number[];
-  };
-  sentiment?: Array<{
-    label: string;
-    score: number;
-  }>;
-  toxicity?: Array<{
-    label: string;
-    score: number;
-  }>;
-}
-
-export interface AnalysisStats {
-  totalAnalyses: number;
-  averageProcessingTime: number;
-  accuracyScore: number;
+export interface AnalysisResult {
+  prediction: 'REAL' | 'FAKE';
+  confidence: number;
+  reasoning: string[];
+  processingTime: number;
+  articleLength: number;
+  reliabilityScore: number;
+  suspiciousIndicators: string[];
+  credibilityScore: number;
+  sentimentScore: number;
+  languageMetrics: {
+    readability: number;
+    complexity: number;
+  };
+}
+
+export interface MetadataFinding {
+  type:
+    | 'editing_software'
+    | 'ai_generator'
+    | 'stripped_metadata'
+    | 'timestamp_inconsistency'
+    | 'location_mismatch'
+    | 'content_credentials_edits'
+    | 'content_credentials_unreadable';
+  severity: 'low' | 'medium' | 'high';
+  detail: string;
+}
+
+export interface ContentCredentialsSummary {
+  manifestCount: number;
+  activeManifest: string;
+  claimGenerator?: string;
+  title?: string;
+  // Taken from the signing certificate; the signature itself is not validated
+  signer?: string;
+  actions: string[];
+  softwareAgents: string[];
+  generatedByAI: boolean;
+}
+
+// Whether a detector can run in this deployment, and why not when it cannot
+export interface DetectorCapability {
+  name: string;
+  available: boolean;
+  reason?: string;
+}
+
+// An earlier appearance of an image in the local perceptual hash index
+export interface ImageSighting {
+  source: string;
+  firstSeen: string;
+  // Bits differing from the analyzed image's pHash; 0 is a near-exact copy
+  distance: number;
+}
+
+export interface MetadataForensics {
+  suspicious: boolean;
+  // 0-1 likelihood of manipulation suggested by the metadata alone
+  score: number;
+  findings: MetadataFinding[];
+  created?: string;
+  modified?: string;
+  software?: string;
+  camera?: string;
+  gps?: {
+    latitude: number;
+    longitude: number;
+  };
+  contentCredentials: ContentCredentialsSummary | null;
+}
+
+export interface MediaAnalysisResult {
+  type: 'image' | 'video';
+  isManipulated: boolean;
+  manipulationScore: number;
+  confidence: number;
+  metadata: {
+    dimensions?: {
+      width: number;
+      height: number;
+    };
+    format?: string;
+    size?: number;
+    created?: string;
+    modified?: string;
+    analyzedAt: string;
+    totalFrames?: number;
+    analyzedFrames?: number;
+    durationSeconds?: number;
+  };
+  detectedObjects?: string[];
+  errorLevel?: number;
+  errorLevelAnalysis?: {
+    score: number;
+    // JPEG quality the image was recompressed at
+    quality: number;
+    meanError: number;
+    maxError: number;
+    outlierBlockRatio: number;
+    // PNG data URL; left out of stored analysis history
+    heatmap?: string;
+  };
+  metadataForensics?: MetadataForensics;
+  previousSightings?: ImageSighting[];
+  // Detectors that ran for this result, and those skipped because their model is unavailable
+  checksRun?: string[];
+  checksSkipped?: DetectorCapability[];
+  faceAnalysis?: {
+    detected: boolean;
+    anomalies: string[];
+  };
+  isDeepfake?: boolean;
+  // Indices into the sampled frames, with the matching timestamps in seconds
+  inconsistentFrames?: number[];
+  inconsistentFrameTimestamps?: number[];
+  warnings: string[];
+  // inconclusive when too few detectors ran to decide either way
+  verificationStatus: 'verified' | 'manipulated' | 'suspicious' | 'inconclusive';
+}
+
+export interface SampleArticle {
+  title: string;
+  content: string;
+  source: string;
+  category: 'real' | 'fake';
+}
+
+interface LinguisticIndicators {
+  emotionalLanguage: number;
+  sensationalism: number;
+  grammarQuality: number;
+  clickbaitScore: number;
+  biasScore: number;
+}
+
+interface SemanticIndicators {
+  coherence: number;
+  factualConsistency: number;
+  contextRelevance: number;
+  topicDrift: number;
+}
+
+interface SourceIndicators {
+  credibility: number;
+  recentAccuracy: number;
+  verifiedClaims: number;
+  domainAge: number;
+}
+
+export interface AnalysisRequest {
+  text: string;
+  url?: string;
+  title?: string;
+  metadata?: {
+    source?: string;
+    publishDate?: string;
+    author?: string;
+  };
+}
+
+export interface MLResult {
+  classification?: {
+    labels: string[];
+    scores: number[];
+  };
+  sentiment?: Array<{
+    label: string;
+    score: number;
+  }>;
+  toxicity?: Array<{
+    label: string;
+    score: number;
+  }>;
+}
+
+export interface AnalysisStats {
+  totalAnalyses: number;
+  averageProcessingTime: number;
+  averageConfidence: number;
+  fakeDetectionRate: number;
 } 
\ No newline at end of file
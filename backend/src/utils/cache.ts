@@ -0,0 +1,246 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { setupLogger } from './logger';
+
+const logger = setupLogger();
+
+// Unset keeps caches in memory only
+const CACHE_DIR = process.env.CACHE_DIR;
+const CACHE_MAX_ENTRIES = Number(process.env.CACHE_MAX_ENTRIES) || 500;
+const CACHE_MAX_DISK_ENTRIES = Number(process.env.CACHE_MAX_DISK_ENTRIES) || 5000;
+const CACHE_SWEEP_INTERVAL = 60 * 60 * 1000;
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  // Share of lookups answered from the cache, 0 before the first lookup
+  hitRate: number;
+  // Entries held in memory
+  entries: number;
+}
+
+export interface CacheOptions {
+  ttlMs: number;
+  maxEntries?: number;
+  // Directory for the disk backend, one JSON file per entry
+  dir?: string | null;
+  // Files kept in dir; past this, the entries closest to expiring are removed
+  maxDiskEntries?: number;
+  // How often expired files are removed from dir
+  sweepIntervalMs?: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// Hash of the parts a cached value depends on, usable as a key and a file name
+export function contentKey(...parts: string[]): string {
+  return createHash('sha256').update(parts.join('\0')).digest('hex');
+}
+
+/**
+ * Keeps computed values for a while under content-hash keys. Entries live in memory, the least
+ * recently used leaving first, and with a `dir` also on disk so they survive a restart. Expired
+ * files are swept from the disk periodically, and after every tenth of maxDiskEntries writes, so
+ * the disk holds about maxDiskEntries files at most. Values must survive a JSON round trip.
+ */
+export class TtlCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private pending = new Map<string, Promise<T>>();
+  private hits = 0;
+  private misses = 0;
+  private writesSinceSweep = 0;
+  private sweeping: Promise<number> | null = null;
+
+  constructor(private readonly options: CacheOptions) {
+    if (options.dir) {
+      // Entries nobody reads again would otherwise stay on disk for good
+      setInterval(() => this.sweep(), options.sweepIntervalMs ?? CACHE_SWEEP_INTERVAL).unref();
+    }
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key) || await this.readEntry(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.hits++;
+      this.remember(key, entry);
+      return entry.value;
+    }
+
+    if (entry) {
+      this.entries.delete(key);
+      await this.removeEntry(key);
+    }
+    this.misses++;
+    return undefined;
+  }
+
+  // A ttlMs of 0 or less leaves the value uncached
+  async set(key: string, value: T, ttlMs = this.options.ttlMs): Promise<void> {
+    if (ttlMs <= 0) return;
+    const entry = { value, expiresAt: Date.now() + ttlMs };
+    this.remember(key, entry);
+    await this.writeEntry(key, entry);
+  }
+
+  /**
+   * Returns the cached value for the key, or computes and caches it. Concurrent misses on one
+   * key share a single computation. ttlFor picks the TTL from the value, e.g. 0 for failures.
+   */
+  async getOrCompute(key: string, compute: () => Promise<T>, ttlFor?: (value: T) => number): Promise<T> {
+    const cached = await this.get(key);
+    if (cached !== undefined) return cached;
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const computation = compute()
+      .then(async value => {
+        await this.set(key, value, ttlFor ? ttlFor(value) : this.options.ttlMs);
+        return value;
+      })
+      .finally(() => this.pending.delete(key));
+    this.pending.set(key, computation);
+    return computation;
+  }
+
+  /**
+   * Removes expired and unreadable entry files from the disk backend, then the entries closest
+   * to expiring while there are more than maxDiskEntries. Returns how many went.
+   */
+  async sweep(): Promise<number> {
+    if (!this.sweeping) {
+      this.sweeping = this.sweepFiles().finally(() => {
+        this.sweeping = null;
+      });
+    }
+    return this.sweeping;
+  }
+
+  private async sweepFiles(): Promise<number> {
+    const dir = this.options.dir;
+    if (!dir) return 0;
+    this.writesSinceSweep = 0;
+
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch {
+      // Nothing written yet
+      return 0;
+    }
+
+    let removed = 0;
+    const live: { key: string; expiresAt: number }[] = [];
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const key = file.slice(0, -'.json'.length);
+      const entry = await this.readEntry(key);
+      if (!entry || entry.expiresAt <= Date.now()) {
+        await this.removeEntry(key);
+        removed++;
+      } else {
+        live.push({ key, expiresAt: entry.expiresAt });
+      }
+    }
+
+    const excess = live.length - (this.options.maxDiskEntries ?? CACHE_MAX_DISK_ENTRIES);
+    if (excess > 0) {
+      live.sort((a, b) => a.expiresAt - b.expiresAt);
+      for (const { key } of live.slice(0, excess)) {
+        await this.removeEntry(key);
+        removed++;
+      }
+    }
+    if (removed > 0) logger.debug(`Swept ${removed} cache entries from ${dir}`);
+    return removed;
+  }
+
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      entries: this.entries.size
+    };
+  }
+
+  private remember(key: string, entry: CacheEntry<T>) {
+    // Re-inserting moves the key to the end of the Map's order, which is least recently used first
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    const maxEntries = this.options.maxEntries ?? CACHE_MAX_ENTRIES;
+    while (this.entries.size > maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  private entryPath(key: string): string | null {
+    return this.options.dir ? path.join(this.options.dir, `${key}.json`) : null;
+  }
+
+  private async readEntry(key: string): Promise<CacheEntry<T> | undefined> {
+    const file = this.entryPath(key);
+    if (!file) return undefined;
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8')) as CacheEntry<T>;
+    } catch {
+      // Missing, or cut short by a crash mid-write
+      return undefined;
+    }
+  }
+
+  private async writeEntry(key: string, entry: CacheEntry<T>) {
+    const file = this.entryPath(key);
+    if (!file) return;
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      const temporary = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(entry), 'utf8');
+      await fs.rename(temporary, file);
+    } catch (error: unknown) {
+      logger.warn(`Failed to write cache entry ${file}:`, error instanceof Error ? error.message : error);
+      return;
+    }
+
+    // Between the periodic sweeps a busy cache could otherwise fill the disk
+    const maxDiskEntries = this.options.maxDiskEntries ?? CACHE_MAX_DISK_ENTRIES;
+    if (++this.writesSinceSweep >= Math.max(1, Math.floor(maxDiskEntries / 10))) {
+      await this.sweep();
+    }
+  }
+
+  private async removeEntry(key: string) {
+    const file = this.entryPath(key);
+    if (file) await fs.unlink(file).catch(() => undefined);
+  }
+}
+
+const caches = new Map<string, TtlCache<unknown>>();
+
+/**
+ * Creates a named cache with the shared settings: CACHE_MAX_ENTRIES in memory and, when
+ * CACHE_DIR is set, a disk backend of up to CACHE_MAX_DISK_ENTRIES files in CACHE_DIR/<name>.
+ * Its metrics appear in cacheStats().
+ */
+export function createCache<T>(name: string, ttlMs: number): TtlCache<T> {
+  const cache = new TtlCache<T>({
+    ttlMs,
+    maxEntries: CACHE_MAX_ENTRIES,
+    maxDiskEntries: CACHE_MAX_DISK_ENTRIES,
+    dir: CACHE_DIR ? path.join(CACHE_DIR, name) : null
+  });
+  caches.set(name, cache as TtlCache<unknown>);
+  return cache;
+}
+
+export function cacheStats(): Record<string, CacheStats> {
+  const stats: Record<string, CacheStats> = {};
+  caches.forEach((cache, name) => {
+    stats[name] = cache.stats();
+  });
+  return stats;
+}
@@ -0,0 +1,94 @@
+/**
+ * Minimal CBOR (RFC 8949) decoder for the definite-length encodings C2PA manifests use.
+ * Tags are unwrapped to their content; byte strings decode to Buffers.
+ */
+export function decodeCbor(data: Buffer): unknown {
+  let offset = 0;
+
+  const readLength = (info: number): number => {
+    if (info < 24) return info;
+    if (info === 24) return data.readUInt8(offset++);
+    if (info === 25) {
+      offset += 2;
+      return data.readUInt16BE(offset - 2);
+    }
+    if (info === 26) {
+      offset += 4;
+      return data.readUInt32BE(offset - 4);
+    }
+    if (info === 27) {
+      offset += 8;
+      return Number(data.readBigUInt64BE(offset - 8));
+    }
+    throw new Error(`Unsupported CBOR length encoding ${info}`);
+  };
+
+  const readHalfFloat = (): number => {
+    const half = data.readUInt16BE(offset);
+    offset += 2;
+    const exponent = (half >> 10) & 0x1f;
+    const mantissa = half & 0x3ff;
+    const sign = half & 0x8000 ? -1 : 1;
+    if (exponent === 0) return sign * 2 ** -14 * (mantissa / 1024);
+    if (exponent === 31) return mantissa ? NaN : sign * Infinity;
+    return sign * 2 ** (exponent - 15) * (1 + mantissa / 1024);
+  };
+
+  const readItem = (): unknown => {
+    if (offset >= data.length) {
+      throw new Error('Unexpected end of CBOR data');
+    }
+    const initial = data.readUInt8(offset++);
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return readLength(info);
+      case 1:
+        return -1 - readLength(info);
+      case 2: {
+        const length = readLength(info);
+        offset += length;
+        return data.subarray(offset - length, offset);
+      }
+      case 3: {
+        const length = readLength(info);
+        offset += length;
+        return data.toString('utf8', offset - length, offset);
+      }
+      case 4: {
+        const length = readLength(info);
+        return Array.from({ length }, () => readItem());
+      }
+      case 5: {
+        const length = readLength(info);
+        const map: Record<string, unknown> = {};
+        for (let i = 0; i < length; i++) {
+          const key = readItem();
+          map[String(key)] = readItem();
+        }
+        return map;
+      }
+      case 6:
+        readLength(info);
+        return readItem();
+      default:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22 || info === 23) return null;
+        if (info === 25) return readHalfFloat();
+        if (info === 26) {
+          offset += 4;
+          return data.readFloatBE(offset - 4);
+        }
+        if (info === 27) {
+          offset += 8;
+          return data.readDoubleBE(offset - 8);
+        }
+        throw new Error(`Unsupported CBOR simple value ${info}`);
+    }
+  };
+
+  return readItem();
+}
@@ -0,0 +1,46 @@
+/**
+ * Parses CSV with a header row into records keyed by column name. Double-quoted fields may
+ * contain commas, newlines and "" escapes; values are trimmed and blank lines skipped.
+ */
+export function parseCsv(contents: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim())) rows.push(row.map(value => value.trim()));
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < contents.length; i++) {
+    const char = contents[i];
+    if (quoted) {
+      if (char === '"' && contents[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && contents[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  endRow();
+
+  const [columns, ...records] = rows;
+  if (!columns) return [];
+  return records.map(values => Object.fromEntries(columns.map((column, index) => [column, values[index] ?? ''])));
+}
@@ -0,0 +1,36 @@
+// Second-level suffixes under which the registrable name sits one label further left
+const MULTI_LABEL_SUFFIXES = new Set([
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'co.in', 'org.in', 'net.in', 'gov.in', 'nic.in', 'ac.in',
+  'edu.in', 'com.au', 'net.au', 'org.au', 'co.nz', 'co.za', 'co.jp', 'com.br', 'com.co', 'com.mx',
+  'com.pk', 'com.ng', 'com.sg', 'com.my', 'com.tr', 'com.cn', 'com.hk', 'com.np', 'com.bd'
+]);
+
+export interface DomainParts {
+  domain: string;
+  // Registrable name without its suffix, e.g. `reuters` for `news.reuters.com.co`
+  name: string;
+  suffix: string;
+  subdomainLabels: string[];
+}
+
+export function splitDomain(domain: string): DomainParts {
+  const labels = domain.split('.');
+  const lastTwo = labels.slice(-2).join('.');
+  const suffixLength = labels.length > 2 && MULTI_LABEL_SUFFIXES.has(lastTwo) ? 2 : 1;
+  const nameIndex = Math.max(0, labels.length - suffixLength - 1);
+
+  return {
+    domain,
+    name: labels[nameIndex],
+    suffix: labels.slice(nameIndex + 1).join('.'),
+    subdomainLabels: labels.slice(0, nameIndex)
+  };
+}
+
+/**
+ * The domain a registry holds records for, e.g. `bbc.co.uk` for `news.bbc.co.uk`.
+ */
+export function registrableDomain(domain: string): string {
+  const { name, suffix } = splitDomain(domain);
+  return suffix ? `${name}.${suffix}` : name;
+}
@@ -0,0 +1,62 @@
+type PathSegment = string | number | '*';
+
+const SEGMENT_PATTERN = /\.\*|\[\*\]|\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]/y;
+
+/**
+ * Parses the JSONPath subset used for field mappings: `$`, `.key`, `['key']`, `[0]` and `[*]`.
+ * Paths without a leading `$` are treated as relative (`media.url` is `$.media.url`).
+ */
+function parsePath(path: string): PathSegment[] {
+  let expression = path.trim();
+  if (expression.startsWith('$')) {
+    expression = expression.slice(1);
+  } else if (expression && !expression.startsWith('[')) {
+    expression = `.${expression}`;
+  }
+
+  const segments: PathSegment[] = [];
+  SEGMENT_PATTERN.lastIndex = 0;
+  while (SEGMENT_PATTERN.lastIndex < expression.length) {
+    const start = SEGMENT_PATTERN.lastIndex;
+    const match = SEGMENT_PATTERN.exec(expression);
+    if (!match) {
+      throw new Error(`Invalid JSONPath "${path}" at position ${start + 1}`);
+    }
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else if (match[3] !== undefined) segments.push(match[3]);
+    else if (match[4] !== undefined) segments.push(match[4]);
+    else segments.push('*');
+  }
+  return segments;
+}
+
+/**
+ * Returns every value matched by a JSONPath expression. Wildcards fan out over arrays and objects.
+ */
+export function queryJsonPath(data: unknown, path: string): unknown[] {
+  let current: unknown[] = [data];
+
+  for (const segment of parsePath(path)) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      if (value === null || typeof value !== 'object') continue;
+      if (segment === '*') {
+        next.push(...(Array.isArray(value) ? value : Object.values(value)));
+      } else {
+        const child = (value as Record<string | number, unknown>)[segment];
+        if (child !== undefined) next.push(child);
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Returns the first value matched by a JSONPath expression, or undefined.
+ */
+export function getJsonPathValue(data: unknown, path: string): unknown {
+  return queryJsonPath(data, path)[0];
+}
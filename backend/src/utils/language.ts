@@ -0,0 +1,92 @@
+import { DEFAULT_LANGUAGE } from '../models/lexicons';
+
+// ISO 15924 codes for the scripts we can tell apart
+export type TextScript = 'Latn' | 'Deva' | 'Beng' | 'Guru' | 'Gujr' | 'Orya' | 'Taml' | 'Telu' | 'Knda' | 'Mlym';
+
+export interface DetectedLanguage {
+  // ISO 639-1 code, e.g. `hi`; romanized Hindi is still `hi`
+  code: string;
+  script: TextScript;
+  // Share of the evidence (letters in the script, or marker words) behind the guess
+  confidence: number;
+}
+
+// Unicode blocks of the Indic scripts, and the language each is most often used for. Marathi
+// and Nepali also use Devanagari, but are treated as Hindi until they get lexicons of their own.
+const INDIC_SCRIPTS: { script: TextScript; language: string; pattern: RegExp }[] = [
+  { script: 'Deva', language: 'hi', pattern: /[\u0900-\u097F]/g },
+  { script: 'Beng', language: 'bn', pattern: /[\u0980-\u09FF]/g },
+  { script: 'Guru', language: 'pa', pattern: /[\u0A00-\u0A7F]/g },
+  { script: 'Gujr', language: 'gu', pattern: /[\u0A80-\u0AFF]/g },
+  { script: 'Orya', language: 'or', pattern: /[\u0B00-\u0B7F]/g },
+  { script: 'Taml', language: 'ta', pattern: /[\u0B80-\u0BFF]/g },
+  { script: 'Telu', language: 'te', pattern: /[\u0C00-\u0C7F]/g },
+  { script: 'Knda', language: 'kn', pattern: /[\u0C80-\u0CFF]/g },
+  { script: 'Mlym', language: 'ml', pattern: /[\u0D00-\u0D7F]/g }
+];
+
+// Common Hindi words that are not also English words (so no "the", "main" or "par"), used to
+// spot Hindi written in Latin script
+const ROMANIZED_HINDI_MARKERS = new Set([
+  'hai', 'hain', 'tha', 'thi', 'nahi', 'nahin', 'kya', 'kyun', 'kyon', 'aur', 'ke', 'ki', 'ka', 'ko', 'se',
+  'mein', 'bhi', 'yeh', 'woh', 'ek', 'jo', 'sab', 'kuch', 'abhi', 'hoga', 'gaya', 'gayi', 'raha', 'rahi',
+  'rahe', 'karo', 'kare', 'karna', 'dekho', 'sach', 'jhooth', 'sarkar', 'logon'
+]);
+// Share of words that must be markers; Hindi sentences are full of them, English has almost none
+const ROMANIZED_HINDI_THRESHOLD = 0.2;
+
+/**
+ * Words in the text, lower-cased. Combining marks are kept with their letters, so Devanagari
+ * vowel signs do not split a word.
+ */
+export function tokenizeWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}]+)*/gu) || [];
+}
+
+// Words that negate a statement; "n't" contractions are matched separately
+const NEGATION_WORDS = new Set([
+  'not', 'no', 'never', 'none', 'nor', 'neither', 'nobody', 'nothing', 'cannot', 'without',
+  'nahi', 'nahin', 'नहीं', 'न', 'ना', 'मत'
+]);
+
+/**
+ * Whether the text negates what it states: an odd number of negations, so "does not" is
+ * negated and "not untrue" style double negatives are not.
+ */
+export function isNegated(text: string): boolean {
+  const negations = tokenizeWords(text).filter(word => NEGATION_WORDS.has(word) || /n['’]t$/.test(word)).length;
+  return negations % 2 === 1;
+}
+
+/**
+ * Guesses the language of a text from its dominant script, then for Latin text from how many
+ * of its words are common romanized Hindi words. Anything else in Latin script is English.
+ */
+export function detectLanguage(text: string): DetectedLanguage {
+  const latinLetters = (text.match(/[A-Za-z]/g) || []).length;
+  const scripts = INDIC_SCRIPTS.map(entry => ({ ...entry, letters: (text.match(entry.pattern) || []).length }));
+  const indic = scripts.reduce((best, entry) => (entry.letters > best.letters ? entry : best));
+  const totalLetters = scripts.reduce((sum, entry) => sum + entry.letters, latinLetters);
+
+  if (indic.letters > 0 && indic.letters >= latinLetters) {
+    return { code: indic.language, script: indic.script, confidence: indic.letters / totalLetters };
+  }
+
+  const words = tokenizeWords(text).filter(word => /^[a-z']+$/.test(word));
+  const markers = words.filter(word => ROMANIZED_HINDI_MARKERS.has(word));
+  const markerShare = words.length > 0 ? markers.length / words.length : 0;
+  if (markers.length >= 2 && markerShare >= ROMANIZED_HINDI_THRESHOLD) {
+    return { code: 'hi', script: 'Latn', confidence: Math.min(1, markerShare / (2 * ROMANIZED_HINDI_THRESHOLD)) };
+  }
+
+  return {
+    code: DEFAULT_LANGUAGE,
+    script: 'Latn',
+    confidence: words.length > 0 ? 1 - markerShare : 0
+  };
+}
+
+// The Fact Check API takes BCP-47 codes; English keeps the regional code it was queried with before
+export function factCheckLanguageCode(language: string): string {
+  return language === DEFAULT_LANGUAGE ? 'en-US' : language;
+}
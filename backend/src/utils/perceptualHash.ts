@@ -0,0 +1,84 @@
+import sharp from 'sharp';
+
+export interface PerceptualHashes {
+  // 64-bit hashes as 16 hex characters
+  pHash: string;
+  dHash: string;
+}
+
+const PHASH_SIZE = 32;
+const PHASH_LOW_FREQUENCIES = 8;
+
+async function greyscalePixels(image: Buffer, width: number, height: number): Promise<Buffer> {
+  return sharp(image)
+    .rotate()
+    .greyscale()
+    .resize(width, height, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+}
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((Number(bits[i]) << 3) | (Number(bits[i + 1]) << 2) | (Number(bits[i + 2]) << 1) | Number(bits[i + 3])).toString(16);
+  }
+  return hex;
+}
+
+// Difference hash: whether each pixel is brighter than its right neighbour on a 9x8 thumbnail
+function differenceHash(pixels: Buffer): string {
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(pixels[y * 9 + x] > pixels[y * 9 + x + 1]);
+    }
+  }
+  return bitsToHex(bits);
+}
+
+// Perceptual hash: whether each low-frequency DCT coefficient of a 32x32 thumbnail is above their median
+function dctHash(pixels: Buffer): string {
+  const cosines = Array.from({ length: PHASH_LOW_FREQUENCIES }, (_, u) =>
+    Array.from({ length: PHASH_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * PHASH_SIZE)))
+  );
+
+  const coefficients: number[] = [];
+  for (let v = 0; v < PHASH_LOW_FREQUENCIES; v++) {
+    for (let u = 0; u < PHASH_LOW_FREQUENCIES; u++) {
+      let sum = 0;
+      for (let y = 0; y < PHASH_SIZE; y++) {
+        for (let x = 0; x < PHASH_SIZE; x++) {
+          sum += pixels[y * PHASH_SIZE + x] * cosines[u][x] * cosines[v][y];
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term only reflects overall brightness, so it is left out of the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+  return bitsToHex(coefficients.map(coefficient => coefficient > median));
+}
+
+export async function perceptualHashes(image: Buffer): Promise<PerceptualHashes> {
+  const [dctPixels, differencePixels] = await Promise.all([
+    greyscalePixels(image, PHASH_SIZE, PHASH_SIZE),
+    greyscalePixels(image, 9, 8)
+  ]);
+  return { pHash: dctHash(dctPixels), dHash: differenceHash(differencePixels) };
+}
+
+// Number of differing bits between two hex hashes of the same length
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let difference = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (difference) {
+      distance += difference & 1;
+      difference >>= 1;
+    }
+  }
+  return distance;
+}
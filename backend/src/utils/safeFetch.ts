@@ -0,0 +1,305 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+export type SafeFetchFailure =
+  | 'invalid_url'
+  | 'blocked_address'
+  | 'too_many_redirects'
+  | 'http_error'
+  | 'too_large'
+  | 'timeout'
+  | 'unexpected_type';
+
+export class SafeFetchError extends Error {
+  constructor(message: string, readonly reason: SafeFetchFailure) {
+    super(message);
+    this.name = 'SafeFetchError';
+  }
+}
+
+export interface SafeFetchOptions {
+  maxBytes?: number;
+  // Budget for the whole fetch, redirects and body included
+  timeoutMs?: number;
+  maxRedirects?: number;
+  // Require the body to be an image or video, checked against the Content-Type and magic bytes
+  expect?: 'image' | 'video';
+  // Defaults to FETCH_ALLOW_PRIVATE_NETWORKS=true, for local development only
+  allowPrivateNetworks?: boolean;
+  // Extra request headers, e.g. credentials or conditional GET. They are not sent on to another origin after a redirect.
+  headers?: Record<string, string>;
+}
+
+export interface SafeFetchResult {
+  // Final URL after redirects
+  url: string;
+  status: number;
+  contentType?: string;
+  // Type detected from the magic bytes, when it is a known image or video format
+  mediaType: string | null;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_TIMEOUT = 15000;
+const DEFAULT_MAX_REDIRECTS = 3;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Loopback, private, link-local, CGNAT, multicast and other addresses that must not be reachable from user URLs
+const BLOCKED_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8], ['2001:db8::', 32],
+  // Local-use NAT64 translates to whatever the network chooses
+  ['64:ff9b:1::', 48]
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+// IPv6 ranges that carry an IPv4 address, reaching that host, and the group it starts at
+const EMBEDDED_IPV4: { prefix: number[]; at: number }[] = [
+  // IPv4-mapped, ::ffff:0:0/96
+  { prefix: [0, 0, 0, 0, 0, 0xffff], at: 6 },
+  // NAT64, 64:ff9b::/96
+  { prefix: [0x64, 0xff9b, 0, 0, 0, 0], at: 6 },
+  // 6to4, 2002::/16
+  { prefix: [0x2002], at: 1 }
+];
+
+// The eight 16-bit groups of an IPv6 address, expanding "::" and a trailing dotted IPv4 part
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().replace(/%.*$/, '');
+  const dotted = text.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(2).map(Number);
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const parse = (part: string | undefined) => part ? part.split(':').map(group => parseInt(group, 16)) : [];
+  const [head, tail] = text.split('::');
+  if (tail === undefined) return parse(head);
+  const start = parse(head);
+  const end = parse(tail);
+  return [...start, ...new Array<number>(8 - start.length - end.length).fill(0), ...end];
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return BLOCKED_ADDRESSES.check(address, 'ipv4');
+  if (family !== 6) return true;
+
+  const groups = ipv6Groups(address);
+  const embedding = EMBEDDED_IPV4.find(({ prefix }) => prefix.every((group, index) => groups[index] === group));
+  if (embedding) {
+    const high = groups[embedding.at];
+    const low = groups[embedding.at + 1];
+    return BLOCKED_ADDRESSES.check(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`, 'ipv4');
+  }
+  return BLOCKED_ADDRESSES.check(address.replace(/%.*$/, ''), 'ipv6');
+}
+
+/**
+ * dns.lookup replacement for http, https and tls that fails when a host resolves to a blocked
+ * address. Checking inside the connection's own lookup means the address that was checked is
+ * the one connected to, so a second DNS answer cannot swap in an internal host.
+ */
+export const safeLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      callback(
+        new SafeFetchError(`${hostname} resolves to a private or reserved address`, 'blocked_address'),
+        '',
+        0
+      );
+      return;
+    }
+    if (options.all) {
+      (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Recognizes common image and video formats from their leading bytes.
+ */
+export function detectMediaType(data: Buffer): string | null {
+  if (data.length < 4) return null;
+  const ascii = (start: number, end: number) => data.toString('latin1', start, end);
+
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') return 'image/png';
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'image/gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'AVI ') return 'video/x-msvideo';
+  if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') return 'image/tiff';
+  if (ascii(0, 2) === 'BM') return 'image/bmp';
+  if (data.readUInt32BE(0) === 0x1a45dfa3) return 'video/webm';
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (/^(heic|heix|mif1|msf1)$/.test(brand)) return 'image/heic';
+    if (brand === 'qt  ') return 'video/quicktime';
+    return 'video/mp4';
+  }
+  return null;
+}
+
+function parseHttpUrl(url: string, base?: URL): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, base);
+  } catch {
+    throw new SafeFetchError(`Invalid URL: ${url}`, 'invalid_url');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new SafeFetchError(`Only http and https URLs can be fetched, not ${parsed.protocol}`, 'invalid_url');
+  }
+  if (parsed.username || parsed.password) {
+    throw new SafeFetchError('URLs with credentials are not fetched', 'invalid_url');
+  }
+  return parsed;
+}
+
+function checkContentType(contentType: string | undefined, expect: 'image' | 'video'): void {
+  const type = contentType?.split(';')[0].trim().toLowerCase();
+  // Many servers label media as a generic binary, so only an explicit other type is refused
+  if (type && !type.startsWith(`${expect}/`) && type !== 'application/octet-stream' && type !== 'binary/octet-stream') {
+    throw new SafeFetchError(`Expected ${expect} content but the server sent ${type}`, 'unexpected_type');
+  }
+}
+
+type ResolvedOptions = Required<Omit<SafeFetchOptions, 'expect' | 'headers'>> & Pick<SafeFetchOptions, 'expect' | 'headers'>;
+
+interface SingleResponse {
+  status: number;
+  location?: string;
+  contentType?: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+function requestOnce(url: URL, options: ResolvedOptions, deadline: number): Promise<SingleResponse> {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  // Literal IP hosts never go through the lookup, so they are checked here
+  if (!options.allowPrivateNetworks && isIP(hostname) && isBlockedAddress(hostname)) {
+    return Promise.reject(new SafeFetchError(`${hostname} is a private or reserved address`, 'blocked_address'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.get(url, {
+      lookup: options.allowPrivateNetworks ? undefined : safeLookup,
+      headers: {
+        'User-Agent': 'news-filter-backend',
+        Accept: options.expect ? `${options.expect}/*` : '*/*',
+        ...options.headers
+      }
+    }, response => {
+      const status = response.statusCode || 0;
+      const contentType = response.headers['content-type'];
+
+      if (REDIRECT_STATUSES.includes(status) && response.headers.location) {
+        response.resume();
+        resolve({ status, location: response.headers.location, headers: response.headers, body: Buffer.alloc(0) });
+        return;
+      }
+      if (status >= 400) {
+        response.resume();
+        reject(new SafeFetchError(`Fetching ${url.href} failed with HTTP ${status}`, 'http_error'));
+        return;
+      }
+
+      try {
+        if (options.expect) checkContentType(contentType, options.expect);
+        const declaredLength = Number(response.headers['content-length']);
+        if (declaredLength > options.maxBytes) {
+          throw new SafeFetchError(`Response is ${declaredLength} bytes, over the ${options.maxBytes} byte limit`, 'too_large');
+        }
+      } catch (error) {
+        request.destroy();
+        reject(error);
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let received = 0;
+      response.on('data', (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > options.maxBytes) {
+          reject(new SafeFetchError(`Response exceeded the ${options.maxBytes} byte limit`, 'too_large'));
+          request.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => resolve({ status, contentType, headers: response.headers, body: Buffer.concat(chunks) }));
+      response.on('error', reject);
+    });
+
+    const timer = setTimeout(() => {
+      reject(new SafeFetchError(`Fetching ${url.href} timed out`, 'timeout'));
+      request.destroy();
+    }, Math.max(0, deadline - Date.now()));
+    request.on('error', reject);
+    request.on('close', () => clearTimeout(timer));
+  });
+}
+
+/**
+ * Fetches a user-supplied URL without letting it reach internal services: every hop of the
+ * redirect chain must resolve to a public address, and the response is capped in size and time.
+ */
+export async function safeFetch(url: string, options: SafeFetchOptions = {}): Promise<SafeFetchResult> {
+  const resolved: ResolvedOptions = {
+    maxBytes: options.maxBytes ?? DEFAULT_MAX_BYTES,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT,
+    maxRedirects: options.maxRedirects ?? DEFAULT_MAX_REDIRECTS,
+    expect: options.expect,
+    headers: options.headers,
+    allowPrivateNetworks: options.allowPrivateNetworks ?? process.env.FETCH_ALLOW_PRIVATE_NETWORKS === 'true'
+  };
+  const deadline = Date.now() + resolved.timeoutMs;
+
+  let current = parseHttpUrl(url);
+  const origin = current.origin;
+  for (let redirects = 0; ; redirects++) {
+    const response = await requestOnce(
+      current,
+      current.origin === origin ? resolved : { ...resolved, headers: undefined },
+      deadline
+    );
+
+    if (response.location) {
+      if (redirects >= resolved.maxRedirects) {
+        throw new SafeFetchError(`Stopped after ${resolved.maxRedirects} redirects`, 'too_many_redirects');
+      }
+      current = parseHttpUrl(response.location, current);
+      continue;
+    }
+
+    const mediaType = detectMediaType(response.body);
+    if (resolved.expect && !mediaType?.startsWith(`${resolved.expect}/`)) {
+      throw new SafeFetchError(`Content at ${current.href} is not a recognized ${resolved.expect} format`, 'unexpected_type');
+    }
+
+    return {
+      url: current.href,
+      status: response.status,
+      contentType: response.contentType,
+      mediaType,
+      headers: response.headers,
+      body: response.body
+    };
+  }
+}
@@ -6,6 +6,7 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import { API_URL } from "@/lib/api";
 import { 
   Brain, 
   Clock, 
@@ -24,7 +25,7 @@ interface AnalysisResult {
     reliability: number;
     characterCount: number;
     mlMetrics: {
-      modelConfidence: number;
+      modelConfidence: number | null;
       credibilityScore: number;
       readabilityScore: number;
       sourceTrustworthiness: number;
@@ -58,7 +59,7 @@ export default function ArticleAnalyzer() {
       (async () => {
         setIsAnalyzing(true);
         try {
-          const response = await fetch('http://localhost:3000/api/analyze/text', {
+          const response = await fetch(`${API_URL}/analysis/text`, {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -67,7 +68,8 @@ export default function ArticleAnalyzer() {
             body: JSON.stringify({ 
               text: content, 
               title, 
-              source 
+              source,
+              record: false
             }),
           });
           if (!response.ok) {
@@ -95,7 +97,7 @@ export default function ArticleAnalyzer() {
   const analyzeContent = async () => {
     setIsAnalyzing(true);
     try {
-      const response = await fetch('http://localhost:3000/api/analyze/text', {
+      const response = await fetch(`${API_URL}/analysis/text`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -206,9 +208,11 @@ export default function ArticleAnalyzer() {
           <CardContent className="space-y-6">
             <div>
               <Label>ML Confidence Level</Label>
-              <Progress value={result.metrics.mlMetrics.modelConfidence} className="mt-2" />
+              <Progress value={result.metrics.mlMetrics.modelConfidence ?? 0} className="mt-2" />
               <p className="text-sm text-muted-foreground mt-1">
-                {result.metrics.mlMetrics.modelConfidence.toFixed(1)}%
+                {result.metrics.mlMetrics.modelConfidence === null
+                  ? 'Unavailable'
+                  : `${result.metrics.mlMetrics.modelConfidence.toFixed(1)}%`}
               </p>
             </div>
 
@@ -240,8 +244,12 @@ export default function ArticleAnalyzer() {
               <h3 className="text-lg font-semibold mb-4">Advanced AI Metrics</h3>
               <div className="space-y-3">
                 <div>
-                  <Label>ML Model confidence: {result.metrics.mlMetrics.modelConfidence.toFixed(1)}%</Label>
-                  <Progress value={result.metrics.mlMetrics.modelConfidence} className="mt-1" />
+                  <Label>
+                    ML Model confidence: {result.metrics.mlMetrics.modelConfidence === null
+                      ? 'unavailable'
+                      : `${result.metrics.mlMetrics.modelConfidence.toFixed(1)}%`}
+                  </Label>
+                  <Progress value={result.metrics.mlMetrics.modelConfidence ?? 0} className="mt-1" />
                 </div>
                 <div>
                   <Label>Credibility score: {result.metrics.mlMetrics.credibilityScore.toFixed(1)}/10</Label>
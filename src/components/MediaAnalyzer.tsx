@@ -5,8 +5,8 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2, Image as ImageIcon, Video, AlertCircle } from 'lucide-react';
+import { API_URL } from '@/lib/api';
 
-const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
 interface AnalysisResult {
   isManipulated?: boolean;
@@ -15,6 +15,11 @@ interface AnalysisResult {
   manipulationScore?: number;
   detectedObjects?: string[];
   inconsistentFrames?: number[];
+  inconsistentFrameTimestamps?: number[];
+  warnings?: string[];
+  verificationStatus?: 'verified' | 'manipulated' | 'suspicious' | 'inconclusive';
+  checksRun?: string[];
+  checksSkipped?: { name: string; reason?: string }[];
   faceAnalysis?: {
     detected: boolean;
     anomalies: string[];
@@ -22,6 +27,11 @@ interface AnalysisResult {
   metadata: any;
 }
 
+function formatTimestamp(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+}
+
 export default function MediaAnalyzer() {
   const [file, setFile] = useState<File | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -62,7 +72,7 @@ export default function MediaAnalyzer() {
         throw new Error(`Analysis failed: ${response.statusText}`);
       }
 
-      const result = await response.json();
+      const { result } = await response.json();
       setResult(result);
 
       toast({
@@ -88,6 +98,7 @@ export default function MediaAnalyzer() {
     const detectionType = isImage ? 'Manipulation' : 'Deepfake';
     const detectionScore = isImage ? result.manipulationScore : result.confidence;
     const isDetected = isImage ? result.isManipulated : result.isDeepfake;
+    const isInconclusive = result.verificationStatus === 'inconclusive';
 
     return (
       <div className="mt-4 space-y-4">
@@ -98,8 +109,8 @@ export default function MediaAnalyzer() {
           <div className="space-y-2">
             <p className="flex items-center space-x-2">
               <span className="font-medium">{detectionType} Detection:</span>
-              <span className={isDetected ? 'text-red-600' : 'text-green-600'}>
-                {isDetected ? 'Detected' : 'Not Detected'}
+              <span className={isInconclusive ? 'text-gray-600' : isDetected ? 'text-red-600' : 'text-green-600'}>
+                {isInconclusive ? 'Inconclusive' : isDetected ? 'Detected' : 'Not Detected'}
               </span>
             </p>
             <p className="flex items-center space-x-2">
@@ -126,6 +137,36 @@ export default function MediaAnalyzer() {
                 </p>
               </div>
             )}
+            {result.inconsistentFrameTimestamps && result.inconsistentFrameTimestamps.length > 0 && (
+              <div>
+                <span className="font-medium">Inconsistent Frames:</span>
+                <p className="ml-2">
+                  {result.inconsistentFrameTimestamps.map(formatTimestamp).join(', ')}
+                </p>
+              </div>
+            )}
+            {result.checksSkipped && result.checksSkipped.length > 0 && (
+              <div>
+                <span className="font-medium">Skipped Checks:</span>
+                <ul className="list-disc list-inside ml-2">
+                  {result.checksSkipped.map(check => (
+                    <li key={check.name}>
+                      {check.name}{check.reason ? ` (${check.reason})` : ''}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {result.warnings && result.warnings.length > 0 && (
+              <div>
+                <span className="font-medium">Warnings:</span>
+                <ul className="list-disc list-inside ml-2">
+                  {result.warnings.map((warning, i) => (
+                    <li key={i}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         </div>
 
@@ -1,92 +1,162 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { API_URL } from "@/lib/api";
 import { 
   Activity, 
   TrendingUp, 
   AlertTriangle, 
-  Eye, 
+  Gauge, 
   Clock, 
   Globe,
   Zap,
   RefreshCw
 } from "lucide-react";
 
+const MAX_ITEMS = 20;
+// Starting and stopping the monitor needs the backend ADMIN_TOKEN; it is kept for the browser session only
+const ADMIN_TOKEN_KEY = 'monitorAdminToken';
+
 interface TrendingContent {
   id: string;
   title: string;
   source: string;
   timestamp: string;
   riskLevel: 'low' | 'medium' | 'high';
-  engagementScore: number;
+  confidence: number;
   verificationStatus: 'verified' | 'pending' | 'flagged';
 }
 
+// Mirrors MonitoredContent emitted by the backend LiveMonitor
+interface MonitoredContent {
+  source: string;
+  title?: string;
+  link?: string;
+  publishedAt?: string;
+  prediction: 'REAL' | 'FAKE';
+  confidence: number;
+  alerted: boolean;
+  timestamp: string;
+}
+
+const toTrendingContent = (content: MonitoredContent): TrendingContent => {
+  let source = content.source;
+  try {
+    source = new URL(content.source).hostname;
+  } catch {
+    // Keep the raw source string
+  }
+
+  return {
+    id: `${content.source}-${content.link || content.title}-${content.timestamp}`,
+    title: content.title || content.link || 'Untitled item',
+    source,
+    timestamp: content.publishedAt || content.timestamp,
+    riskLevel: content.alerted ? 'high' : content.prediction === 'FAKE' ? 'medium' : 'low',
+    confidence: content.confidence,
+    verificationStatus: content.alerted ? 'flagged' : content.prediction === 'REAL' ? 'verified' : 'pending'
+  };
+};
+
 const RealTimeMonitor = () => {
   const [isMonitoring, setIsMonitoring] = useState(false);
   const [trendingContent, setTrendingContent] = useState<TrendingContent[]>([]);
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
   const [alertsCount, setAlertsCount] = useState(0);
+  const [adminToken, setAdminToken] = useState(() => sessionStorage.getItem(ADMIN_TOKEN_KEY) || '');
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const { toast } = useToast();
 
-  // Mock trending content generator
-  const generateMockContent = (): TrendingContent[] => {
-    const mockTitles = [
-      "Breaking: Major Political Development Unfolds",
-      "Scientists Announce Breakthrough Discovery",
-      "Economic Markets Show Unexpected Movement",
-      "Technology Giant Releases New Innovation",
-      "Health Officials Issue Important Update",
-      "Climate Change Report Released Today",
-      "Sports Championship Reaches Final Stage",
-      "Entertainment Industry News Emerges"
-    ];
-
-    const mockSources = [
-      "BBC News", "Reuters", "CNN", "Times of India", "The Hindu",
-      "Unknown Blog", "Social Media", "Independent Reporter"
-    ];
-
-    return Array.from({ length: 6 }, (_, i) => ({
-      id: `content-${Date.now()}-${i}`,
-      title: mockTitles[Math.floor(Math.random() * mockTitles.length)],
-      source: mockSources[Math.floor(Math.random() * mockSources.length)],
-      timestamp: new Date(Date.now() - Math.random() * 3600000).toISOString(),
-      riskLevel: Math.random() > 0.7 ? 'high' : Math.random() > 0.4 ? 'medium' : 'low',
-      engagementScore: Math.floor(Math.random() * 10000),
-      verificationStatus: Math.random() > 0.6 ? 'verified' : Math.random() > 0.3 ? 'pending' : 'flagged'
-    }));
+  const closeStream = () => {
+    eventSourceRef.current?.close();
+    eventSourceRef.current = null;
   };
 
-  const startMonitoring = () => {
-    setIsMonitoring(true);
-    setTrendingContent(generateMockContent());
-    setLastUpdate(new Date());
-    
-    // Simulate real-time updates
-    const interval = setInterval(() => {
-      setTrendingContent(prev => {
-        const updated = generateMockContent();
-        const newAlerts = updated.filter(item => item.riskLevel === 'high').length;
-        setAlertsCount(prev => prev + newAlerts);
-        return updated;
-      });
+  // Close the alert stream when the component unmounts
+  useEffect(() => closeStream, []);
+
+  const openStream = () => {
+    closeStream();
+    const eventSource = new EventSource(`${API_URL}/monitor/alerts/stream`);
+
+    eventSource.addEventListener('content', (event) => {
+      const item = toTrendingContent(JSON.parse((event as MessageEvent).data));
+      setTrendingContent(prev => [item, ...prev].slice(0, MAX_ITEMS));
       setLastUpdate(new Date());
-    }, 10000); // Update every 10 seconds
+    });
 
-    // Cleanup after 5 minutes for demo
-    setTimeout(() => {
-      clearInterval(interval);
-      setIsMonitoring(false);
-    }, 300000);
+    eventSource.addEventListener('alert', () => {
+      setAlertsCount(prev => prev + 1);
+    });
+
+    eventSource.addEventListener('status', (event) => {
+      const { monitoring } = JSON.parse((event as MessageEvent).data);
+      setIsMonitoring(monitoring);
+    });
+
+    eventSource.addEventListener('source_error', (event) => {
+      const { source, message } = JSON.parse((event as MessageEvent).data);
+      toast({
+        title: "Source error",
+        description: `${source}: ${message}`,
+        variant: "destructive",
+      });
+    });
+
+    eventSourceRef.current = eventSource;
+  };
 
-    return () => clearInterval(interval);
+  const sendMonitorCommand = async (command: 'start' | 'stop') => {
+    const response = await fetch(`${API_URL}/monitor/${command}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${adminToken}` }
+    });
+    if (response.status === 401) {
+      throw new Error('The admin token was rejected');
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.message || body?.error || `Failed to ${command} monitoring: ${response.statusText}`);
+    }
+    sessionStorage.setItem(ADMIN_TOKEN_KEY, adminToken);
   };
 
-  const stopMonitoring = () => {
-    setIsMonitoring(false);
+  const startMonitoring = async () => {
+    try {
+      await sendMonitorCommand('start');
+      setIsMonitoring(true);
+      setLastUpdate(new Date());
+      openStream();
+    } catch (error) {
+      console.error('Failed to start monitoring:', error);
+      toast({
+        title: "Monitoring unavailable",
+        description: error instanceof Error ? error.message : "Could not reach the monitoring service",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // The dashboard only shows monitoring as stopped once the backend has stopped polling
+  const stopMonitoring = async () => {
+    try {
+      await sendMonitorCommand('stop');
+      closeStream();
+      setIsMonitoring(false);
+    } catch (error) {
+      console.error('Failed to stop monitoring:', error);
+      toast({
+        title: "Monitoring is still running",
+        description: error instanceof Error ? error.message : "Could not reach the monitoring service",
+        variant: "destructive",
+      });
+    }
   };
 
   const getRiskColor = (level: string) => {
@@ -141,6 +211,17 @@ const RealTimeMonitor = () => {
           </div>
         </div>
 
+        <div>
+          <Label htmlFor="monitor-admin-token">Admin Token</Label>
+          <Input
+            id="monitor-admin-token"
+            type="password"
+            value={adminToken}
+            onChange={(e) => setAdminToken(e.target.value)}
+            placeholder="Required to start or stop monitoring"
+          />
+        </div>
+
         <div className="flex space-x-2">
           <Button
             onClick={isMonitoring ? stopMonitoring : startMonitoring}
@@ -203,8 +284,8 @@ const RealTimeMonitor = () => {
                   
                   <div className="mt-2 flex items-center space-x-4 text-xs">
                     <div className="flex items-center space-x-1">
-                      <Eye className="h-3 w-3 text-gray-400" />
-                      <span className="text-gray-600">{item.engagementScore.toLocaleString()} views</span>
+                      <Gauge className="h-3 w-3 text-gray-400" />
+                      <span className="text-gray-600">{(item.confidence * 100).toFixed(0)}% confidence</span>
                     </div>
                     {item.riskLevel === 'high' && (
                       <div className="flex items-center space-x-1 text-red-600">
@@ -222,7 +303,7 @@ const RealTimeMonitor = () => {
         {!isMonitoring && trendingContent.length === 0 && (
           <div className="text-center py-6 text-gray-500">
             <Activity className="h-8 w-8 mx-auto mb-2 text-gray-300" />
-            <p className="text-sm">Start monitoring to view trending content and alerts</p>
+            <p className="text-sm">Start monitoring to view analyzed content and alerts</p>
           </div>
         )}
       </CardContent>
@@ -4,7 +4,7 @@ import { Badge } from "@/components/ui/badge";
 import { Loader2, Play } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { AnalysisResult, SampleArticle } from "@/types/analysis";
-import { analyzeFakeNews } from "@/utils/fakeNewsDetector";
+import { API_URL } from "@/lib/api";
 
 interface SampleArticlesProps {
   onAnalysisComplete: (result: AnalysisResult) => void;
@@ -118,8 +118,26 @@ const SampleArticles = ({ onAnalysisComplete, onAnalysisStart, isAnalyzing }: Sa
     onAnalysisStart();
 
     try {
-      const fullText = `${article.title} ${article.content}`;
-      const result = await analyzeFakeNews(fullText);
+      // Scored by the backend, whose lexicon packs are the one source of the risk terms
+      const response = await fetch(`${API_URL}/analysis/text`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: `${article.title} ${article.content}`, title: article.title, source: article.source }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Analysis failed');
+      }
+
+      const result: AnalysisResult = {
+        prediction: data.prediction,
+        confidence: data.confidence,
+        reasoning: data.reasoning,
+        processingTime: data.metrics.processingTime,
+        articleLength: data.metrics.characterCount,
+        suspiciousIndicators: data.suspiciousIndicators,
+        reliabilityScore: Math.round(data.metrics.reliability * 10) / 10
+      };
       onAnalysisComplete(result);
       
       toast({
@@ -130,7 +148,7 @@ const SampleArticles = ({ onAnalysisComplete, onAnalysisStart, isAnalyzing }: Sa
       console.error('Sample analysis failed:', error);
       toast({
         title: "Analysis Failed",
-        description: "Unable to analyze the sample article. Please try again.",
+        description: error instanceof Error ? error.message : "Unable to analyze the sample article. Please try again.",
         variant: "destructive",
       });
     }
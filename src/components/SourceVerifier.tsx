@@ -1,5 +1,5 @@
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,23 +8,51 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Shield, Search, Globe, AlertTriangle, CheckCircle, Database } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { API_URL } from "@/lib/api";
+import { SourceAnalysisResult, SourceVerificationProgress } from "@/types/analysis";
 
 interface SourceVerificationResult {
   domain: string;
-  trustScore: number;
-  category: string;
-  registrationDate: string;
-  factCheckHistory: string[];
-  crossReferences: string[];
-  riskFactors: string[];
-  credibilityIndicators: string[];
+  analysis: SourceAnalysisResult;
 }
 
+const STATUS_LABELS: Record<SourceAnalysisResult['verificationStatus'], string> = {
+  verified: "Verified Source",
+  suspicious: "Suspicious Source",
+  unverified: "Unverified Source"
+};
+
+// Streams server-side progress over SSE and resolves with the final verification result
+const streamVerification = (
+  url: string,
+  onProgress: (progress: SourceVerificationProgress) => void
+): Promise<SourceAnalysisResult> =>
+  new Promise((resolve, reject) => {
+    const events = new EventSource(`${API_URL}/source/verify/stream?url=${encodeURIComponent(url)}`);
+
+    events.addEventListener('progress', (event) => {
+      onProgress(JSON.parse((event as MessageEvent).data));
+    });
+    events.addEventListener('result', (event) => {
+      events.close();
+      resolve(JSON.parse((event as MessageEvent).data));
+    });
+    events.addEventListener('verification_error', (event) => {
+      events.close();
+      reject(new Error(JSON.parse((event as MessageEvent).data).message));
+    });
+    events.onerror = () => {
+      events.close();
+      reject(new Error("Lost connection to the verification service"));
+    };
+  });
+
 const SourceVerifier = () => {
   const [sourceUrl, setSourceUrl] = useState("");
   const [isVerifying, setIsVerifying] = useState(false);
   const [verificationResult, setVerificationResult] = useState<SourceVerificationResult | null>(null);
   const [verificationProgress, setVerificationProgress] = useState(0);
+  const [progressMessage, setProgressMessage] = useState("");
   const { toast } = useToast();
 
   const verifySource = async () => {
@@ -37,8 +65,9 @@ const SourceVerifier = () => {
       return;
     }
 
+    let domain: string;
     try {
-      new URL(sourceUrl);
+      domain = new URL(sourceUrl).hostname.replace(/^www\./, '');
     } catch {
       toast({
         title: "Invalid URL",
@@ -50,110 +79,28 @@ const SourceVerifier = () => {
 
     setIsVerifying(true);
     setVerificationProgress(0);
+    setProgressMessage("Connecting to verification service...");
 
     try {
-      const stages = [
-        "Analyzing domain reputation...",
-        "Checking fact-checking databases...",
-        "Cross-referencing with trusted sources...",
-        "Evaluating credibility metrics...",
-        "Generating trust score..."
-      ];
-
-      for (let i = 0; i < stages.length; i++) {
-        await new Promise(resolve => setTimeout(resolve, 600));
-        setVerificationProgress((i + 1) * 20);
-      }
-
-      // Extract domain from URL
-      const domain = new URL(sourceUrl).hostname.replace('www.', '');
-      
-      // Mock verification logic based on known patterns
-      const trustedDomains = [
-        'bbc.com', 'reuters.com', 'ap.org', 'cnn.com', 'npr.org',
-        'timesofindia.indiatimes.com', 'thehindu.com', 'hindustantimes.com',
-        'indianexpress.com', 'ndtv.com'
-      ];
-
-      const questionableDomains = [
-        'fakenews.com', 'clickbait.net', 'conspiracy.org'
-      ];
-
-      let trustScore = 5.0;
-      let category = "Unknown";
-      let riskFactors: string[] = [];
-      let credibilityIndicators: string[] = [];
-
-      if (trustedDomains.some(trusted => domain.includes(trusted))) {
-        trustScore = 8.5 + Math.random() * 1.5;
-        category = "Mainstream Media";
-        credibilityIndicators = [
-          "Established news organization",
-          "Professional journalism standards",
-          "Editorial oversight",
-          "Fact-checking protocols"
-        ];
-      } else if (questionableDomains.some(questionable => domain.includes(questionable))) {
-        trustScore = 1.0 + Math.random() * 2.0;
-        category = "Questionable Source";
-        riskFactors = [
-          "History of misinformation",
-          "Lack of editorial standards",
-          "Sensational content patterns"
-        ];
-      } else {
-        trustScore = 4.0 + Math.random() * 4.0;
-        category = domain.includes('.gov') ? "Government" : 
-                  domain.includes('.edu') ? "Academic" : "Independent Media";
-        
-        if (domain.includes('.gov')) {
-          credibilityIndicators.push("Official government source");
-        }
-        if (domain.includes('.edu')) {
-          credibilityIndicators.push("Academic institution");
-        }
-      }
-
-      // Add some randomized factors
-      if (Math.random() > 0.7) {
-        riskFactors.push("Recent bias alerts");
-      }
-      if (Math.random() > 0.6) {
-        credibilityIndicators.push("Transparent ownership");
-      }
-
-      const result: SourceVerificationResult = {
-        domain,
-        trustScore: Math.min(10, Math.max(0, trustScore)),
-        category,
-        registrationDate: `${2010 + Math.floor(Math.random() * 14)}-${String(Math.floor(Math.random() * 12) + 1).padStart(2, '0')}-${String(Math.floor(Math.random() * 28) + 1).padStart(2, '0')}`,
-        factCheckHistory: [
-          "No recent fact-check violations",
-          "Maintains journalistic standards",
-          "Regular editorial review process"
-        ],
-        crossReferences: [
-          "Listed in media bias databases",
-          "Recognized by journalism organizations",
-          "Regular content verification"
-        ],
-        riskFactors: riskFactors.length > 0 ? riskFactors : ["No significant risk factors identified"],
-        credibilityIndicators: credibilityIndicators.length > 0 ? credibilityIndicators : ["Standard media practices"]
-      };
+      const analysis = await streamVerification(sourceUrl, ({ message, progress }) => {
+        setProgressMessage(message);
+        setVerificationProgress(progress);
+      });
 
-      setVerificationResult(result);
+      setVerificationResult({ domain, analysis });
 
+      const trustScore = analysis.credibilityScore * 10;
       toast({
         title: "Source Verification Complete",
-        description: `${domain} analyzed - Trust Score: ${result.trustScore.toFixed(1)}/10`,
-        variant: result.trustScore >= 7 ? "default" : "destructive",
+        description: `${domain} analyzed - Trust Score: ${trustScore.toFixed(1)}/10`,
+        variant: analysis.verificationStatus === 'verified' ? "default" : "destructive",
       });
 
     } catch (error) {
       console.error('Source verification failed:', error);
       toast({
         title: "Verification Failed",
-        description: "Unable to verify source. Please try again.",
+        description: error instanceof Error ? error.message : "Unable to verify source. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -162,6 +109,11 @@ const SourceVerifier = () => {
     }
   };
 
+  const analysis = verificationResult?.analysis;
+  const trustScore = analysis ? analysis.credibilityScore * 10 : 0;
+  const credibilityIndicators = analysis?.factors.filter(factor => factor.contribution > 0).map(factor => factor.detail) ?? [];
+  const { domainInfo, sourceHistory } = analysis ?? {};
+
   return (
     <Card className="shadow-lg">
       <CardHeader>
@@ -206,14 +158,14 @@ const SourceVerifier = () => {
         {isVerifying && (
           <div className="space-y-2">
             <div className="flex justify-between text-sm">
-              <span>Cross-referencing databases...</span>
+              <span>{progressMessage}</span>
               <span>{verificationProgress}%</span>
             </div>
             <Progress value={verificationProgress} className="h-2" />
           </div>
         )}
 
-        {verificationResult && (
+        {verificationResult && analysis && domainInfo && sourceHistory && (
           <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
             <div className="flex items-center justify-between">
               <div>
@@ -222,11 +174,11 @@ const SourceVerifier = () => {
                   <span>{verificationResult.domain}</span>
                 </h3>
                 <Badge variant="outline" className="mt-1">
-                  {verificationResult.category}
+                  {STATUS_LABELS[analysis.verificationStatus]}
                 </Badge>
               </div>
               <div className="text-right">
-                <div className="text-lg font-bold">{verificationResult.trustScore.toFixed(1)}/10</div>
+                <div className="text-lg font-bold">{trustScore.toFixed(1)}/10</div>
                 <div className="text-xs text-gray-500">Trust Score</div>
               </div>
             </div>
@@ -234,12 +186,12 @@ const SourceVerifier = () => {
             <div>
               <div className="flex justify-between text-sm mb-1">
                 <span>Credibility Rating:</span>
-                <span className={verificationResult.trustScore >= 7 ? 'text-green-600' : verificationResult.trustScore >= 4 ? 'text-yellow-600' : 'text-red-600'}>
-                  {verificationResult.trustScore >= 7 ? 'High' : verificationResult.trustScore >= 4 ? 'Medium' : 'Low'}
+                <span className={trustScore >= 7 ? 'text-green-600' : trustScore >= 4 ? 'text-yellow-600' : 'text-red-600'}>
+                  {trustScore >= 7 ? 'High' : trustScore >= 4 ? 'Medium' : 'Low'}
                 </span>
               </div>
               <Progress 
-                value={verificationResult.trustScore * 10} 
+                value={trustScore * 10} 
                 className="h-3"
               />
             </div>
@@ -247,11 +199,18 @@ const SourceVerifier = () => {
             <div className="grid grid-cols-2 gap-3 text-xs">
               <div className="p-2 bg-white rounded">
                 <div className="font-medium">Domain Age</div>
-                <div className="text-gray-600">Since {verificationResult.registrationDate}</div>
+                <div className="text-gray-600">
+                  {domainInfo.registrationDate ? `Since ${domainInfo.registrationDate.slice(0, 10)}` : "Unknown"}
+                </div>
+                {(domainInfo.owner || domainInfo.registrar) && (
+                  <div className="text-gray-500 mt-1">{domainInfo.owner || domainInfo.registrar}</div>
+                )}
               </div>
               <div className="p-2 bg-white rounded">
-                <div className="font-medium">Category</div>
-                <div className="text-gray-600">{verificationResult.category}</div>
+                <div className="font-medium">TLS Certificate</div>
+                <div className="text-gray-600">
+                  {domainInfo.hasSSL === null ? "Not checked" : domainInfo.hasSSL ? "Valid" : "Invalid or untrusted"}
+                </div>
               </div>
             </div>
 
@@ -261,7 +220,7 @@ const SourceVerifier = () => {
                 <span>Credibility Indicators:</span>
               </h4>
               <ul className="space-y-1">
-                {verificationResult.credibilityIndicators.map((indicator, index) => (
+                {(credibilityIndicators.length > 0 ? credibilityIndicators : ["No positive credibility signals found"]).map((indicator, index) => (
                   <li key={index} className="text-xs text-gray-600 flex items-start space-x-2">
                     <span className="text-green-500 mt-1">✓</span>
                     <span>{indicator}</span>
@@ -270,17 +229,17 @@ const SourceVerifier = () => {
               </ul>
             </div>
 
-            {verificationResult.riskFactors.length > 0 && verificationResult.riskFactors[0] !== "No significant risk factors identified" && (
+            {analysis.warnings.length > 0 && (
               <div>
                 <h4 className="text-sm font-medium mb-2 flex items-center space-x-1">
                   <AlertTriangle className="h-4 w-4 text-orange-600" />
                   <span>Risk Factors:</span>
                 </h4>
                 <ul className="space-y-1">
-                  {verificationResult.riskFactors.map((factor, index) => (
+                  {analysis.warnings.map((warning, index) => (
                     <li key={index} className="text-xs text-orange-700 flex items-start space-x-2">
                       <span className="text-orange-500 mt-1">⚠</span>
-                      <span>{factor}</span>
+                      <span>{warning}</span>
                     </li>
                   ))}
                 </ul>
@@ -288,14 +247,20 @@ const SourceVerifier = () => {
             )}
 
             <div>
-              <h4 className="text-sm font-medium mb-2">Database Cross-References:</h4>
+              <h4 className="text-sm font-medium mb-2">Source History:</h4>
               <ul className="space-y-1">
-                {verificationResult.crossReferences.map((ref, index) => (
-                  <li key={index} className="text-xs text-gray-600 flex items-start space-x-2">
-                    <span className="text-blue-500 mt-1">•</span>
-                    <span>{ref}</span>
-                  </li>
-                ))}
+                <li className="text-xs text-gray-600 flex items-start space-x-2">
+                  <span className="text-blue-500 mt-1">•</span>
+                  <span>
+                    {sourceHistory.analyzedArticles > 0
+                      ? `${sourceHistory.analyzedArticles} articles analyzed, ${Math.round(sourceHistory.reliability * 100)}% judged real`
+                      : "No articles from this source analyzed yet"}
+                  </span>
+                </li>
+                <li className="text-xs text-gray-600 flex items-start space-x-2">
+                  <span className="text-blue-500 mt-1">•</span>
+                  <span>Fact-check score: {Math.round(analysis.factCheckScore * 100)}%</span>
+                </li>
               </ul>
             </div>
           </div>
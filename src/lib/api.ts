@@ -0,0 +1,2 @@
+// Base URL of the versioned backend API; VITE_API_URL overrides it per environment
+export const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3000/api/v1"
@@ -17,3 +17,43 @@ export interface SampleArticle {
   category: string;
   expectedResult: 'REAL' | 'FAKE';
 }
+
+export interface CredibilityFactor {
+  factor: string;
+  contribution: number;
+  detail: string;
+}
+
+export interface SourceDomainInfo {
+  domain: string;
+  registrationDate: string | null;
+  registrar: string | null;
+  owner: string | null;
+  ageDays: number | null;
+  hasSSL: boolean | null;
+}
+
+// Mirrors the backend's /source/verify result
+export interface SourceAnalysisResult {
+  isVerified: boolean;
+  credibilityScore: number;
+  factCheckScore: number;
+  sourceHistory: {
+    reliability: number;
+    factCheckAccuracy: number;
+    lastVerified: string;
+    analyzedArticles: number;
+    factCheckedArticles: number;
+  };
+  domainInfo: SourceDomainInfo;
+  factors: CredibilityFactor[];
+  lookalike: { imitatedDomain: string; technique: string; detail: string } | null;
+  warnings: string[];
+  verificationStatus: 'verified' | 'suspicious' | 'unverified';
+}
+
+export interface SourceVerificationProgress {
+  stage: string;
+  message: string;
+  progress: number;
+}